@@ -0,0 +1,326 @@
+/**
+ * Alias Catalog Page
+ * Searchable list of every alias and function the shell sources define
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Alias, AliasCategory, AliasesResponse, AliasIssueKind, Platform } from '@/lib/types';
+import { PlatformSwitcher } from '@/components/PlatformSwitcher';
+import { RefPicker } from '@/components/RefPicker';
+import { useRepoStore, useSelectedRepo } from '@/lib/store';
+import { buildQuery, cn, sourceFileUrl } from '@/lib/utils';
+
+const CATEGORIES: { id: AliasCategory; label: string; style: string }[] = [
+  { id: 'git', label: 'Git', style: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300' },
+  { id: 'chezmoi', label: 'Chezmoi', style: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' },
+  { id: 'navigation', label: 'Navigation', style: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' },
+  { id: 'modern-tools', label: 'Modern Tools', style: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300' },
+  { id: 'shell', label: 'Shell', style: 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300' },
+];
+
+const ISSUE_LABELS: Record<AliasIssueKind, string> = {
+  cycle: 'Expands back',
+  conflict: 'Conflict',
+  'shadows-command': 'Shadows a command',
+  'shadows-function': 'Shadows a function',
+};
+
+/**
+ * An alias or a function, with what is shown (and copied) for it
+ */
+interface Entry extends Pick<Alias, 'name' | 'requiresModule' | 'description' | 'sourcePath' | 'line' | 'condition'> {
+  kind: 'alias' | 'function';
+  category?: AliasCategory;
+  /** The alias command, or the function usage */
+  snippet: string;
+}
+
+export default function AliasCatalog() {
+  const [catalog, setCatalog] = useState<AliasesResponse | null>(null);
+  const [platform, setPlatform] = useState<Platform>('linux');
+  const [ref, setRef] = useState('');
+  const repoId = useRepoStore((state) => state.repoId);
+  const repo = useSelectedRepo();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [category, setCategory] = useState<AliasCategory | ''>('');
+  const [moduleFilter, setModuleFilter] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAliases();
+  }, [repoId, platform, ref]);
+
+  const fetchAliases = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/aliases${buildQuery({ repo: repoId, platform, ref })}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch aliases');
+      }
+
+      const data: AliasesResponse = await response.json();
+      setCatalog(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching aliases:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied((current) => (current === key ? null : current)), 1500);
+    } catch (err) {
+      console.error('Error copying to clipboard:', err);
+    }
+  };
+
+  const entries: Entry[] = catalog
+    ? [
+      ...catalog.aliases.map((alias) => ({ ...alias, kind: 'alias' as const, snippet: alias.command })),
+      ...catalog.functions.map((fn) => ({ ...fn, kind: 'function' as const, snippet: fn.usage })),
+    ]
+    : [];
+
+  const modules = [...new Set(entries.flatMap((entry) => (entry.requiresModule ? [entry.requiresModule] : [])))].sort();
+
+  const query = searchQuery.toLowerCase();
+  const environment = (catalog?.environment ?? [])
+    .filter((variable) => !category && (!moduleFilter || variable.requiresModule === moduleFilter))
+    .filter((variable) => !query || `${variable.name} ${variable.value}`.toLowerCase().includes(query));
+  const visible = entries
+    .filter((entry) => !category || entry.category === category)
+    .filter((entry) => !moduleFilter || entry.requiresModule === moduleFilter)
+    .filter((entry) => !query || [entry.name, entry.snippet, entry.description ?? '']
+      .some((text) => text.toLowerCase().includes(query)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const renderEntry = (entry: Entry) => {
+    const key = `${entry.kind}:${entry.sourcePath}:${entry.line}:${entry.name}`;
+    const categoryInfo = CATEGORIES.find((c) => c.id === entry.category);
+    const url = repo && entry.sourcePath ? sourceFileUrl(repo, ref || repo.defaultBranch, entry.sourcePath) : null;
+    const expansions = entry.kind === 'alias'
+      ? [...new Set(catalog?.analysis.expansions
+        .filter((expansion) => expansion.name === entry.name)
+        .map((expansion) => expansion.expanded))]
+      : [];
+
+    return (
+      <div
+        key={key}
+        className="p-4 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800"
+      >
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <span className="font-mono font-bold text-gray-900 dark:text-gray-100">
+            {entry.kind === 'function' ? `${entry.name}()` : entry.name}
+          </span>
+          {categoryInfo && (
+            <span className={cn('px-2 py-0.5 text-xs rounded', categoryInfo.style)}>{categoryInfo.label}</span>
+          )}
+          {entry.requiresModule && (
+            <span className="px-2 py-0.5 text-xs bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 rounded">
+              {entry.requiresModule}
+            </span>
+          )}
+        </div>
+
+        <button
+          onClick={() => copy(key, entry.snippet)}
+          title="Copy to clipboard"
+          className="w-full text-left px-3 py-2 font-mono text-sm bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+        >
+          {entry.snippet || <span className="text-gray-400">(empty)</span>}
+          <span className="float-right text-xs text-gray-500">{copied === key ? '✓ Copied' : '📋'}</span>
+        </button>
+
+        {expansions.map((expanded) => (
+          <div key={expanded} className="mt-1 text-xs text-gray-500">
+            Expands to <code className="font-mono text-gray-700 dark:text-gray-300">{expanded}</code>
+          </div>
+        ))}
+
+        {entry.description && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{entry.description}</p>
+        )}
+
+        <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+          {entry.sourcePath && (
+            <Link
+              href={`/files${buildQuery({ path: entry.sourcePath })}`}
+              className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {entry.sourcePath}:{entry.line}
+            </Link>
+          )}
+          {url && (
+            <a href={`${url}#L${entry.line}`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              View source ↗
+            </a>
+          )}
+          {entry.condition && entry.condition !== 'always' && (
+            <span>
+              Defined when <code className="font-mono">{entry.condition}</code>
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Aliases &amp; Functions</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Every alias and function the shell files and PowerShell profiles define
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-800 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {/* Platform Switcher */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Platform
+          </label>
+          <PlatformSwitcher currentPlatform={platform} onChange={setPlatform} />
+        </div>
+
+        {/* Ref Picker */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Ref
+          </label>
+          <RefPicker currentRef={ref} onChange={setRef} />
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-4">
+          <input
+            type="text"
+            placeholder="Search aliases, commands and descriptions..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="flex-1 min-w-64 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as AliasCategory | '')}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          >
+            <option value="">All categories</option>
+            {CATEGORIES.map((c) => (
+              <option key={c.id} value={c.id}>{c.label}</option>
+            ))}
+          </select>
+          <select
+            value={moduleFilter}
+            onChange={(e) => setModuleFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          >
+            <option value="">All modules</option>
+            {modules.map((id) => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Reading shell files...</p>
+        </div>
+      ) : error ? (
+        <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900 rounded-lg">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      ) : catalog ? (
+        <div>
+          {/* Issues with the current configuration on this platform */}
+          {catalog.analysis.issues.length > 0 && (
+            <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg border border-yellow-200 dark:border-yellow-900">
+              <h2 className="text-lg font-semibold mb-2 text-yellow-800 dark:text-yellow-300">
+                ⚠️ {catalog.analysis.issues.length} alias {catalog.analysis.issues.length === 1 ? 'issue' : 'issues'} with
+                the current configuration
+              </h2>
+              <ul className="space-y-1 text-sm">
+                {catalog.analysis.issues.map((issue) => (
+                  <li key={`${issue.kind}:${issue.name}:${issue.message}`} className="text-gray-700 dark:text-gray-300">
+                    <span className="px-2 py-0.5 mr-2 text-xs bg-yellow-100 dark:bg-yellow-900/50 text-yellow-800 dark:text-yellow-300 rounded">
+                      {ISSUE_LABELS[issue.kind]}
+                    </span>
+                    {issue.message}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {issue.shells.join(', ')} · {issue.locations.map((l) => `${l.sourcePath}:${l.line}`).join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            {visible.length} of {catalog.total} aliases and functions
+          </p>
+          {visible.length === 0 ? (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-500">
+              Nothing matches these filters
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {visible.map(renderEntry)}
+            </div>
+          )}
+
+          {/* Environment variables set by PowerShell profiles */}
+          {environment.length > 0 && (
+            <div className="mt-8">
+              <h2 className="text-2xl font-bold mb-3 text-gray-900 dark:text-gray-100">Environment Variables</h2>
+              <table className="w-full text-sm bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
+                <tbody>
+                  {environment.map((variable) => (
+                    <tr
+                      key={`${variable.sourcePath}:${variable.line}:${variable.name}`}
+                      className="border-t border-gray-100 dark:border-gray-800 first:border-t-0"
+                    >
+                      <td className="px-3 py-2 font-mono font-bold text-gray-900 dark:text-gray-100">$env:{variable.name}</td>
+                      <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">{variable.value}</td>
+                      <td className="px-3 py-2 text-xs text-gray-500">
+                        <Link
+                          href={`/files${buildQuery({ path: variable.sourcePath })}`}
+                          className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {variable.sourcePath}:{variable.line}
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * API Route: GET /api/aliases?platform={platform}&module={module}&category={category}&repo={repo}&ref={ref}&modules={json}
+ * Returns every alias and function the shell sources and PowerShell profiles
+ * define, with where they are defined and the module they require, plus the
+ * environment variables the profiles set; all filters are optional. The
+ * analysis covers the aliases the repository's configuration defines on the
+ * platform (linux by default), with `modules` applied to the configuration
+ * like in /api/render.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { AliasCatalog } from '@/lib/services/AliasCatalog';
+import { AliasAnalyzer } from '@/lib/services/AliasAnalyzer';
+import { YAMLParser } from '@/lib/parsers/YAMLParser';
+import { TemplateParser } from '@/lib/parsers/TemplateParser';
+import { parseModuleChanges } from '@/lib/utils';
+import { AliasCategory, AliasesResponse, Platform, PLATFORMS } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const platform = (searchParams.get('platform') || undefined) as Platform | undefined;
+    const moduleId = searchParams.get('module') || undefined;
+    const category = (searchParams.get('category') || undefined) as AliasCategory | undefined;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
+    const moduleChanges = parseModuleChanges(searchParams.get('modules'));
+
+    if (platform && !PLATFORMS.includes(platform)) {
+      return NextResponse.json(
+        { error: 'Invalid platform parameter', message: `Expected one of ${PLATFORMS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!moduleChanges) {
+      return NextResponse.json(
+        { error: 'Invalid modules parameter', message: 'Expected a JSON object of module IDs to true or false' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
+
+    const config = TemplateParser.applyModuleChanges(YAMLParser.parse(snapshot.configContent), moduleChanges);
+
+    const [{ aliases, functions, environment }, active] = await Promise.all([
+      AliasCatalog.list(snapshot, { platform, module: moduleId, category }),
+      AliasCatalog.build(snapshot, config, platform ?? 'linux'),
+    ]);
+
+    const response: AliasesResponse = {
+      aliases,
+      functions,
+      environment,
+      total: aliases.length + functions.length,
+      analysis: AliasAnalyzer.analyze(active, platform ?? 'linux'),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching aliases:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch aliases',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
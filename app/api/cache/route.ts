@@ -0,0 +1,16 @@
+/**
+ * API Route: GET /api/cache
+ * Returns snapshot cache statistics
+ */
+
+import { NextResponse } from 'next/server';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import type { CacheStats } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const stats: CacheStats = getSnapshotCache().getStats();
+
+  return NextResponse.json(stats);
+}
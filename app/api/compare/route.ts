@@ -0,0 +1,48 @@
+/**
+ * API Route: GET /api/compare?base={ref}&head={ref}&platform={platform}&repo={repo}
+ * Returns which deployed files differ between two refs and why
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { CompareService } from '@/lib/services/CompareService';
+import type { CompareResponse, Platform } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const platform = (searchParams.get('platform') || 'linux') as Platform;
+    const baseRef = searchParams.get('base') || '';
+    const headRef = searchParams.get('head') || '';
+    const repo = searchParams.get('repo') || undefined;
+
+    const cache = getSnapshotCache();
+    const [baseSnapshot, headSnapshot] = await Promise.all([
+      cache.get(getSourceProvider(repo, baseRef || undefined)),
+      cache.get(getSourceProvider(repo, headRef || undefined)),
+    ]);
+
+    const response: CompareResponse = await CompareService.compare(
+      baseRef,
+      baseSnapshot,
+      headRef,
+      headSnapshot,
+      platform
+    );
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error comparing refs:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to compare refs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,40 @@
 /**
- * API Route: GET /api/config
- * Returns the current dotfiles configuration from GitHub
+ * API Route: GET /api/config?repo={repo}&ref={ref}
+ * Returns the dotfiles configuration from the configured source
  */
 
-import { NextResponse } from 'next/server';
-import { getGitHubService } from '@/lib/services/GitHubService';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
 import { YAMLParser } from '@/lib/parsers/YAMLParser';
+import { ModuleRegistry } from '@/lib/services/ModuleRegistry';
 import type { ConfigResponse } from '@/lib/types';
 
 export const dynamic = 'force-dynamic'; // Disable caching for development
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Fetch config from GitHub
-    const github = getGitHubService();
-    const configContent = await github.getConfig();
+    const searchParams = request.nextUrl.searchParams;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
+
+    // Fetch config from the configured source (cached per commit)
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
 
     // Parse YAML
-    const config = YAMLParser.parse(configContent);
+    const config = YAMLParser.parse(snapshot.configContent);
 
     // Validate modules
     if (!YAMLParser.validateModules(config.data.modules)) {
       console.warn('Module validation failed, but continuing with response');
     }
 
+    // Modules come from data.modules, described by the metadata file or defaults
+    const modules = await ModuleRegistry.forSnapshot(snapshot, config);
+
     const response: ConfigResponse = {
       config,
+      modules,
       lastUpdated: new Date().toISOString(),
     };
 
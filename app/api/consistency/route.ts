@@ -0,0 +1,100 @@
+/**
+ * API Route: GET /api/consistency?repo={repo}&ref={ref}
+ * Checks that /api/files and /api/simulate agree on the deployed files,
+ * by calling both handlers for every platform with the unchanged configuration.
+ * The ref is resolved once, so every call reads the same commit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { GET as getFiles } from '@/app/api/files/route';
+import { POST as simulate } from '@/app/api/simulate/route';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { buildQuery } from '@/lib/utils';
+import type {
+  ConsistencyCheck,
+  ConsistencyResponse,
+  FilesResponse,
+  Platform,
+  SimulateResponse,
+} from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const PLATFORMS: Platform[] = ['linux', 'darwin', 'windows'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const repo = searchParams.get('repo') || undefined;
+    const requestedRef = searchParams.get('ref') || undefined;
+
+    // Pin the commit, so a push during the checks cannot mix two of them;
+    // a working directory has no commit to pin
+    const source = getSourceProvider(repo, requestedRef);
+    const sha = await source.getLatestCommitSha();
+    const ref = source.atCommit(sha) === source ? requestedRef : sha;
+
+    const checks: ConsistencyCheck[] = [];
+
+    for (const platform of PLATFORMS) {
+      const filesUrl = new URL(`/api/files${buildQuery({ platform, repo, ref })}`, request.url);
+      const filesResponse = await getFiles(new NextRequest(filesUrl));
+
+      const simulateResponse = await simulate(new NextRequest(new URL('/api/simulate', request.url), {
+        method: 'POST',
+        body: JSON.stringify({ moduleChanges: {}, platform, repo, ref }),
+      }));
+
+      if (!filesResponse.ok || !simulateResponse.ok) {
+        throw new Error(`A route failed for ${platform}`);
+      }
+
+      const files: FilesResponse = await filesResponse.json();
+      const simulation: SimulateResponse = await simulateResponse.json();
+
+      const problems: string[] = [];
+
+      if (files.totalFiles !== simulation.totalFilesBefore) {
+        problems.push(
+          `/api/files deploys ${files.totalFiles} files, /api/simulate starts from ${simulation.totalFilesBefore}`
+        );
+      }
+
+      if (simulation.filesAdded.length > 0 || simulation.filesRemoved.length > 0) {
+        problems.push(
+          `/api/simulate adds ${simulation.filesAdded.length} and removes ${simulation.filesRemoved.length} files without module changes`
+        );
+      }
+
+      const deployed = files.decisions.filter(decision => decision.outcome === 'deployed').length;
+      if (deployed !== files.totalFiles) {
+        problems.push(`${deployed} files are decided as deployed, but ${files.totalFiles} are listed`);
+      }
+
+      checks.push({
+        platform,
+        filesCount: files.totalFiles,
+        simulateCount: simulation.totalFilesBefore,
+        consistent: problems.length === 0,
+        problems,
+      });
+    }
+
+    const response: ConsistencyResponse = {
+      consistent: checks.every(check => check.consistent),
+      checks,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error checking consistency:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to check consistency',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
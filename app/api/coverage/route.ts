@@ -0,0 +1,36 @@
+/**
+ * API Route: GET /api/coverage?repo={repo}&ref={ref}
+ * Resolves every combination of boolean module options on every platform and
+ * reports file coverage, options without effect and deploy path collisions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { CoverageAnalyzer } from '@/lib/services/CoverageAnalyzer';
+import type { CoverageResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
+
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
+    const response: CoverageResponse = await CoverageAnalyzer.analyze(snapshot);
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error analyzing coverage:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze coverage',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * API Route: GET /api/explain?path={sourcePath}&platform={platform}&repo={repo}&ref={ref}
+ * Traces why a source file is or is not deployed, and which module option
+ * changes would flip that
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { DeploymentExplainer } from '@/lib/services/DeploymentExplainer';
+import { YAMLParser } from '@/lib/parsers/YAMLParser';
+import type { Platform } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sourcePath = searchParams.get('path');
+    const platform = (searchParams.get('platform') || 'linux') as Platform;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
+
+    if (!sourcePath) {
+      return NextResponse.json(
+        { error: 'Missing path parameter' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
+    const config = YAMLParser.parse(snapshot.configContent);
+
+    const response = await DeploymentExplainer.explain(snapshot, sourcePath, config, platform);
+
+    if (!response) {
+      return NextResponse.json(
+        { error: 'File not found', message: `${sourcePath} is not in the source directory` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error explaining file:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to explain file',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,15 @@
 /**
- * API Route: GET /api/files
+ * API Route: GET /api/files?platform={platform}&repo={repo}&ref={ref}
  * Returns file mappings based on platform and module configuration
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getGitHubService } from '@/lib/services/GitHubService';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
 import { YAMLParser } from '@/lib/parsers/YAMLParser';
-import { FileMapper } from '@/lib/parsers/FileMapper';
 import { IgnoreParser } from '@/lib/parsers/IgnoreParser';
-import type { FilesResponse, Platform, FileMapping } from '@/lib/types';
+import { DeploymentResolver } from '@/lib/services/DeploymentResolver';
+import type { FilesResponse, Platform } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
 
@@ -16,75 +17,25 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const platform = (searchParams.get('platform') || 'linux') as Platform;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
 
-    // Fetch configuration
-    const github = getGitHubService();
-    const [configContent, ignoreContent] = await Promise.all([
-      github.getConfig(),
-      github.getIgnoreFile(),
-    ]);
+    // Fetch configuration (cached per commit)
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
+    const config = YAMLParser.parse(snapshot.configContent);
 
-    const config = YAMLParser.parse(configContent);
+    // Resolve deployed files for this platform and config
+    const { files, ignored, decisions } = await DeploymentResolver.resolveSnapshot(snapshot, config, platform);
 
-    // Get ignore patterns for this platform and config
-    const ignorePatterns = IgnoreParser.getIgnorePatterns(
-      ignoreContent,
-      config,
-      platform
-    );
-
-    // Get all source files from GitHub
-    const allSourceFiles = await github.getAllSourceFiles();
-
-    // Filter and map files
-    const files: FileMapping[] = [];
-
-    for (const sourcePath of allSourceFiles) {
-      // Skip directories and special files
-      if (sourcePath.endsWith('/') ||
-          sourcePath === '.git' ||
-          sourcePath.startsWith('.git/') ||
-          sourcePath === 'LICENSE' ||
-          sourcePath === 'README.md' ||
-          sourcePath === 'CLAUDE.md' ||
-          sourcePath.startsWith('docs/') ||
-          sourcePath === '.gitignore' ||
-          sourcePath === '.pre-commit-config.yaml' ||
-          sourcePath === '.secrets.baseline' ||
-          sourcePath === 'Makefile') {
-        continue;
-      }
-
-      // Build file mapping
-      const fileMapping = FileMapper.buildFileMapping(sourcePath);
-
-      // Check if file should be ignored based on platform
-      const deployPathForIgnore = fileMapping.deployPath.replace(/^~\//, '');
-      if (IgnoreParser.shouldIgnore(deployPathForIgnore, ignorePatterns)) {
-        continue;
-      }
-
-      // Check if file's platforms include current platform
-      if (!fileMapping.platforms.includes(platform)) {
-        continue;
-      }
-
-      // Check if required modules are enabled
-      const modulesEnabled = fileMapping.requiredModules.every(
-        moduleName => config.data.modules[moduleName]?.enabled
-      );
-
-      if (!modulesEnabled) {
-        continue;
-      }
-
-      files.push(fileMapping);
-    }
+    const { diagnostics } = IgnoreParser.parseWithDiagnostics(snapshot.ignoreContent, config, platform);
 
     const response: FilesResponse = {
       files,
       totalFiles: files.length,
       platform,
+      ignoreDiagnostics: diagnostics,
+      ignored,
+      decisions,
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,53 @@
+/**
+ * API Route: GET /api/modules?id={id}&repo={repo}&ref={ref}
+ * Returns every module of the configuration with its metadata, the source
+ * files that need it, the aliases and functions they define and its
+ * section of MODULES.md; `id` narrows the list down to one module
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { ModuleRegistry } from '@/lib/services/ModuleRegistry';
+import { YAMLParser } from '@/lib/parsers/YAMLParser';
+import type { ModulesResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get('id') || undefined;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
+
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
+
+    const config = YAMLParser.parse(snapshot.configContent);
+
+    if (id && !Object.hasOwn(config.data.modules, id)) {
+      return NextResponse.json(
+        { error: 'Module not found', message: `The configuration has no module ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const modules = await ModuleRegistry.info(snapshot, config);
+
+    const response: ModulesResponse = {
+      modules: id ? modules.filter((m) => m.id === id) : modules,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching modules:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch modules',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
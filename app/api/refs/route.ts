@@ -0,0 +1,29 @@
+/**
+ * API Route: GET /api/refs?repo={repo}
+ * Returns branches, tags and recent commits of the dotfiles repository
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import type { RefsResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const repo = request.nextUrl.searchParams.get('repo') || undefined;
+    const response: RefsResponse = await getSourceProvider(repo).listRefs();
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching refs:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch refs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
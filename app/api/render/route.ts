@@ -0,0 +1,94 @@
+/**
+ * API Route: GET /api/render?path={sourcePath}&platform={platform}&repo={repo}&ref={ref}&modules={json}
+ * Returns a source file as it would be deployed: templates are rendered for
+ * the platform and configuration, with inline markers for anything that
+ * could not be rendered faithfully. `modules` is a JSON object of module ID
+ * to enabled, applied to the configuration like the simulator's moduleChanges
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { TemplateRenderer } from '@/lib/services/TemplateRenderer';
+import { YAMLParser } from '@/lib/parsers/YAMLParser';
+import { TemplateParser } from '@/lib/parsers/TemplateParser';
+import { FileMapper } from '@/lib/parsers/FileMapper';
+import { parseModuleChanges } from '@/lib/utils';
+import type { Platform, RenderResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sourcePath = searchParams.get('path');
+    const platform = (searchParams.get('platform') || 'linux') as Platform;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
+    const moduleChanges = parseModuleChanges(searchParams.get('modules'));
+
+    if (!sourcePath) {
+      return NextResponse.json(
+        { error: 'Missing path parameter' },
+        { status: 400 }
+      );
+    }
+
+    if (!moduleChanges) {
+      return NextResponse.json(
+        { error: 'Invalid modules parameter', message: 'Expected a JSON object of module IDs to true or false' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
+
+    if (!snapshot.hasFile(sourcePath)) {
+      return NextResponse.json(
+        { error: 'File not found', message: `${sourcePath} is not in the source directory` },
+        { status: 404 }
+      );
+    }
+
+    const mapping = FileMapper.buildFileMapping(sourcePath);
+    const response: RenderResponse = {
+      sourcePath,
+      deployPath: mapping.deployPath,
+      platform,
+      isTemplate: mapping.isTemplate,
+      binary: false,
+      content: '',
+      markers: [],
+      diagnostics: [],
+    };
+
+    if (mapping.isTemplate) {
+      const config = TemplateParser.applyModuleChanges(YAMLParser.parse(snapshot.configContent), moduleChanges);
+      const result = await TemplateRenderer.render(sourcePath, snapshot, config, platform);
+
+      response.content = result.output;
+      response.markers = result.markers;
+      response.diagnostics = result.diagnostics;
+    } else {
+      const content = await snapshot.getFile(sourcePath);
+
+      if (content.includes('\0')) {
+        response.binary = true;
+      } else {
+        response.content = content;
+      }
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error rendering file:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to render file',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
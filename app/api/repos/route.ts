@@ -0,0 +1,34 @@
+/**
+ * API Route: GET /api/repos
+ * Returns the registered dotfiles repositories
+ */
+
+import { NextResponse } from 'next/server';
+import { getRepoRegistry, RepoRegistry } from '@/lib/services/RepoRegistry';
+import type { ReposResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const registry = getRepoRegistry();
+    const repos = registry.list().map(RepoRegistry.summarize);
+
+    const response: ReposResponse = {
+      repos,
+      defaultRepo: repos[0].id,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error loading repository registry:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load repositories',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * API Route: GET /api/scripts?platform={platform}&repo={repo}&ref={ref}&modules={json}
+ * Returns the run_ scripts chezmoi would execute, rendered and in order;
+ * `modules` enables or disables modules first, as in /api/render
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { ScriptCatalog } from '@/lib/services/ScriptCatalog';
+import { YAMLParser } from '@/lib/parsers/YAMLParser';
+import { TemplateParser } from '@/lib/parsers/TemplateParser';
+import { parseModuleChanges } from '@/lib/utils';
+import type { Platform, ScriptsResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const platform = (searchParams.get('platform') || 'linux') as Platform;
+    const repo = searchParams.get('repo') || undefined;
+    const ref = searchParams.get('ref') || undefined;
+    const moduleChanges = parseModuleChanges(searchParams.get('modules'));
+
+    if (!moduleChanges) {
+      return NextResponse.json(
+        { error: 'Invalid modules parameter', message: 'Expected a JSON object of module IDs to true or false' },
+        { status: 400 }
+      );
+    }
+
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo, ref));
+    const config = TemplateParser.applyModuleChanges(YAMLParser.parse(snapshot.configContent), moduleChanges);
+
+    const { scripts, skipped } = await ScriptCatalog.build(snapshot, config, platform);
+
+    const response: ScriptsResponse = {
+      platform,
+      scripts,
+      skipped,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching scripts:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch scripts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
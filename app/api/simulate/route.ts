@@ -6,17 +6,23 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getGitHubService } from '@/lib/services/GitHubService';
+import { getSourceProvider } from '@/lib/services/SourceFactory';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
 import { YAMLParser } from '@/lib/parsers/YAMLParser';
-import { IgnoreParser } from '@/lib/parsers/IgnoreParser';
-import { FileMapper } from '@/lib/parsers/FileMapper';
 import { TemplateParser } from '@/lib/parsers/TemplateParser';
-import { Platform, FileMapping, SimulateRequest, SimulateResponse } from '@/lib/types';
+import { DeploymentResolver } from '@/lib/services/DeploymentResolver';
+import { ScriptCatalog } from '@/lib/services/ScriptCatalog';
+import { AliasCatalog } from '@/lib/services/AliasCatalog';
+import { AliasAnalyzer } from '@/lib/services/AliasAnalyzer';
+import { ShellGraph } from '@/lib/services/ShellGraph';
+import { ModuleDependencies } from '@/lib/services/ModuleDependencies';
+import { ModuleRegistry } from '@/lib/services/ModuleRegistry';
+import { Platform, SimulateRequest, SimulateResponse } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
   try {
     const body: SimulateRequest = await request.json();
-    const { moduleChanges, platform = 'linux' } = body;
+    const { moduleChanges, platform = 'linux', repo, ref, dependencyMode = 'auto' } = body;
 
     if (!moduleChanges || typeof moduleChanges !== 'object') {
       return NextResponse.json(
@@ -25,83 +31,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const github = getGitHubService();
+    if (dependencyMode !== 'auto' && dependencyMode !== 'report') {
+      return NextResponse.json(
+        { error: 'Invalid dependencyMode', message: 'Expected auto or report' },
+        { status: 400 }
+      );
+    }
 
-    // Fetch base configuration and ignore file
-    const [configContent, ignoreContent] = await Promise.all([
-      github.getConfig(),
-      github.getIgnoreFile(),
-    ]);
+    // Fetch base configuration (cached per commit)
+    const snapshot = await getSnapshotCache().get(getSourceProvider(repo || undefined, ref || undefined));
 
     // Parse base configuration
-    const baseConfig = YAMLParser.parse(configContent);
+    const baseConfig = YAMLParser.parse(snapshot.configContent);
 
-    // Create simulated configuration with module changes
-    const simulatedConfig = TemplateParser.applyModuleChanges(baseConfig, moduleChanges);
-
-    // Get all source files
-    const allSourceFiles = await github.getAllSourceFiles();
-
-    // Helper function to get files for a given configuration
-    const getFilesForConfig = (config: typeof baseConfig): FileMapping[] => {
-      const ignorePatterns = IgnoreParser.getIgnorePatterns(
-        ignoreContent,
-        config,
-        platform as Platform
-      );
+    // Settle module dependencies before applying the changes
+    const modules = await ModuleRegistry.forSnapshot(snapshot, baseConfig);
+    const dependencies = ModuleDependencies.resolve(
+      baseConfig,
+      modules,
+      moduleChanges,
+      platform as Platform,
+      dependencyMode
+    );
 
-      const files: FileMapping[] = [];
-
-      for (const sourcePath of allSourceFiles) {
-        // Skip special files
-        if (
-          sourcePath === '.chezmoi.yaml' ||
-          sourcePath === '.chezmoiignore' ||
-          sourcePath.includes('.git/') ||
-          sourcePath.includes('node_modules/') ||
-          sourcePath.startsWith('.')
-        ) {
-          continue;
-        }
-
-        // Map source to deploy path
-        const fileMapping = FileMapper.mapFile(sourcePath);
-        const fullMapping: FileMapping = {
-          ...fileMapping,
-          sourcePath,
-          deployPath: fileMapping.deployPath || sourcePath,
-          platforms: fileMapping.platforms || [platform as Platform],
-          requiredModules: fileMapping.requiredModules || [],
-        };
-
-        // Check if file should be ignored
-        if (IgnoreParser.shouldIgnore(fullMapping.sourcePath, ignorePatterns)) {
-          continue;
-        }
-
-        // Check platform compatibility
-        if (!fullMapping.platforms.includes(platform as Platform)) {
-          continue;
-        }
-
-        // Check module requirements
-        const moduleRequirementsMet = fullMapping.requiredModules.every(
-          (mod) => config.data.modules[mod as keyof typeof config.data.modules]?.enabled
-        );
-
-        if (!moduleRequirementsMet) {
-          continue;
-        }
-
-        files.push(fullMapping);
-      }
-
-      return files;
-    };
+    // Create simulated configuration with module changes
+    const simulatedConfig = TemplateParser.applyModuleChanges(baseConfig, dependencies.moduleChanges);
 
-    // Get files for both configurations
-    const baseFiles = getFilesForConfig(baseConfig);
-    const simulatedFiles = getFilesForConfig(simulatedConfig);
+    // Both sides go through the same resolver as /api/files
+    const [{ files: baseFiles }, { files: simulatedFiles }] = await Promise.all([
+      DeploymentResolver.resolveSnapshot(snapshot, baseConfig, platform as Platform),
+      DeploymentResolver.resolveSnapshot(snapshot, simulatedConfig, platform as Platform),
+    ]);
 
     // Calculate diff
     const baseFilePaths = new Set(baseFiles.map((f) => f.deployPath));
@@ -110,19 +70,64 @@ export async function POST(request: NextRequest) {
     const filesAdded = simulatedFiles.filter((f) => !baseFilePaths.has(f.deployPath));
     const filesRemoved = baseFiles.filter((f) => !simulatedFilePaths.has(f.deployPath));
 
-    // TODO: Extract aliases from files (Phase 4)
-    const aliasesAdded: string[] = [];
-    const aliasesRemoved: string[] = [];
+    // Scripts that start or stop running (rendering can depend on modules)
+    const [baseScripts, simulatedScripts] = await Promise.all([
+      ScriptCatalog.build(snapshot, baseConfig, platform as Platform),
+      ScriptCatalog.build(snapshot, simulatedConfig, platform as Platform),
+    ]);
+    const baseScriptPaths = new Set(baseScripts.scripts.map((s) => s.sourcePath));
+    const simulatedScriptPaths = new Set(simulatedScripts.scripts.map((s) => s.sourcePath));
+
+    const scriptsAdded = simulatedScripts.scripts.filter((s) => !baseScriptPaths.has(s.sourcePath));
+    const scriptsRemoved = baseScripts.scripts.filter((s) => !simulatedScriptPaths.has(s.sourcePath));
+
+    // Aliases and functions the deployed shell files define before and after
+    const [baseShell, simulatedShell] = await Promise.all([
+      AliasCatalog.build(snapshot, baseConfig, platform as Platform),
+      AliasCatalog.build(snapshot, simulatedConfig, platform as Platform),
+    ]);
+    const definitionKey = (d: { name: string; sourcePath?: string; line?: number }) =>
+      `${d.name}:${d.sourcePath}:${d.line}`;
+    const baseAliasKeys = new Set(baseShell.aliases.map(definitionKey));
+    const simulatedAliasKeys = new Set(simulatedShell.aliases.map(definitionKey));
+    const baseFunctionKeys = new Set(baseShell.functions.map(definitionKey));
+    const simulatedFunctionKeys = new Set(simulatedShell.functions.map(definitionKey));
+
+    const aliasesAdded = simulatedShell.aliases.filter((a) => !baseAliasKeys.has(definitionKey(a)));
+    const aliasesRemoved = baseShell.aliases.filter((a) => !simulatedAliasKeys.has(definitionKey(a)));
+    const functionsAdded = simulatedShell.functions.filter((f) => !baseFunctionKeys.has(definitionKey(f)));
+    const functionsRemoved = baseShell.functions.filter((f) => !simulatedFunctionKeys.has(definitionKey(f)));
+
+    // Alias problems the change introduces or fixes
+    const baseAnalysis = AliasAnalyzer.analyze(baseShell, platform as Platform);
+    const simulatedAnalysis = AliasAnalyzer.analyze(simulatedShell, platform as Platform);
+    const baseIssueKeys = new Set(baseAnalysis.issues.map(AliasAnalyzer.issueKey));
+    const simulatedIssueKeys = new Set(simulatedAnalysis.issues.map(AliasAnalyzer.issueKey));
+
+    const aliasIssuesAdded = simulatedAnalysis.issues.filter((i) => !baseIssueKeys.has(AliasAnalyzer.issueKey(i)));
+    const aliasIssuesResolved = baseAnalysis.issues.filter((i) => !simulatedIssueKeys.has(AliasAnalyzer.issueKey(i)));
+
+    // Shell files that still source or call what the change removes
+    const warnings = await ShellGraph.brokenReferences(snapshot, baseConfig, simulatedConfig, platform as Platform);
 
     const response: SimulateResponse = {
       filesAdded,
       filesRemoved,
+      scriptsAdded,
+      scriptsRemoved,
       aliasesAdded,
       aliasesRemoved,
+      functionsAdded,
+      functionsRemoved,
+      aliasIssuesAdded,
+      aliasIssuesResolved,
+      aliasExpansions: simulatedAnalysis.expansions,
       totalFilesBefore: baseFiles.length,
       totalFilesAfter: simulatedFiles.length,
+      warnings,
       platform: platform as Platform,
-      moduleChanges,
+      moduleChanges: dependencies.moduleChanges,
+      dependencies,
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,119 @@
+/**
+ * API Route: /api/webhook
+ * POST - GitHub webhook: re-checks the pushed repository's head and pre-warms the snapshot cache
+ * GET  - Recent webhook deliveries
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createSourceProvider } from '@/lib/services/SourceFactory';
+import { getRepoRegistry } from '@/lib/services/RepoRegistry';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { getWebhookLog, verifyWebhookSignature } from '@/lib/services/WebhookService';
+import type { WebhookDelivery, WebhookLogResponse } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+interface PushPayload {
+  ref?: string;
+  after?: string;
+  deleted?: boolean;
+  repository?: {
+    full_name?: string;
+  };
+}
+
+export async function GET() {
+  const response: WebhookLogResponse = {
+    deliveries: getWebhookLog().list(),
+  };
+
+  return NextResponse.json(response);
+}
+
+export async function POST(request: NextRequest) {
+  const log = getWebhookLog();
+  const delivery: WebhookDelivery = {
+    id: request.headers.get('x-github-delivery') || randomUUID(),
+    event: request.headers.get('x-github-event') || 'unknown',
+    status: 'rejected',
+    message: '',
+    receivedAt: new Date().toISOString(),
+  };
+
+  const reply = (status: number, changes: Partial<WebhookDelivery>) => {
+    log.add({ ...delivery, ...changes });
+    return NextResponse.json({ id: delivery.id, ...changes }, { status });
+  };
+
+  try {
+    // GITHUB_WEBHOOK_SECRET is accepted too, as GitHub's own docs name it
+    const secret = process.env.DOTFILES_WEBHOOK_SECRET || process.env.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      return reply(503, { status: 'rejected', message: 'DOTFILES_WEBHOOK_SECRET is not configured' });
+    }
+
+    const payload = await request.text();
+    const signature = request.headers.get('x-hub-signature-256');
+
+    if (!verifyWebhookSignature(payload, signature, secret)) {
+      return reply(401, { status: 'rejected', message: 'Invalid signature' });
+    }
+
+    if (delivery.event === 'ping') {
+      return reply(200, { status: 'processed', message: 'pong' });
+    }
+
+    if (delivery.event !== 'push') {
+      return reply(202, { status: 'ignored', message: `Event ${delivery.event} is not handled` });
+    }
+
+    const push = JSON.parse(payload) as PushPayload;
+    const fullName = push.repository?.full_name || '';
+    const repo = getRepoRegistry().findByFullName(fullName);
+
+    if (!repo) {
+      return reply(202, { status: 'ignored', message: `Repository ${fullName || '(unknown)'} is not registered` });
+    }
+
+    delivery.repo = repo.id;
+
+    if (push.ref !== `refs/heads/${repo.branch}`) {
+      return reply(202, { status: 'ignored', ref: push.ref, message: `Push to ${push.ref} is not for ${repo.branch}` });
+    }
+
+    if (push.deleted || !push.after) {
+      return reply(202, { status: 'ignored', ref: push.ref, message: 'Branch was deleted' });
+    }
+
+    // Snapshots of other commits and other repositories stay valid; only a
+    // head check of this branch that predates the push is stale. The cache
+    // is warmed for the new head in the background
+    const cache = getSnapshotCache();
+    cache.invalidateHead(createSourceProvider(repo));
+
+    const response = reply(200, {
+      status: 'processed',
+      ref: push.ref,
+      sha: push.after,
+      message: `Head of ${repo.branch} moved to ${push.after.slice(0, 7)}`,
+      prefetch: 'pending',
+    });
+
+    cache.getAt(createSourceProvider(repo, push.after), push.after)
+      .then(() => log.update(delivery.id, { prefetch: 'done' }))
+      .catch((error) => {
+        console.error('Webhook pre-fetch failed:', error);
+        log.update(delivery.id, { prefetch: 'failed' });
+      });
+
+    return response;
+  } catch (error) {
+    console.error('Error handling webhook:', error);
+
+    return reply(400, {
+      status: 'rejected',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Compare Page
+ * Shows how deployed files differ between two refs of the dotfiles repository
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CompareEntry, CompareResponse, Platform } from '@/lib/types';
+import { PlatformSwitcher } from '@/components/PlatformSwitcher';
+import { RefPicker } from '@/components/RefPicker';
+import { useRepoStore } from '@/lib/store';
+import { buildQuery, cn } from '@/lib/utils';
+
+const ENTRY_STYLES = {
+  added: {
+    title: 'Files Added',
+    icon: '✅',
+    heading: 'text-green-700 dark:text-green-400',
+    card: 'bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-900',
+    path: 'text-green-900 dark:text-green-100',
+  },
+  removed: {
+    title: 'Files Removed',
+    icon: '❌',
+    heading: 'text-red-700 dark:text-red-400',
+    card: 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-900',
+    path: 'text-red-900 dark:text-red-100 line-through',
+  },
+  changed: {
+    title: 'Files Changed',
+    icon: '✏️',
+    heading: 'text-yellow-700 dark:text-yellow-400',
+    card: 'bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-900',
+    path: 'text-yellow-900 dark:text-yellow-100',
+  },
+};
+
+export default function ComparePage() {
+  const [baseRef, setBaseRef] = useState('');
+  const [headRef, setHeadRef] = useState('');
+  const repoId = useRepoStore((state) => state.repoId);
+  const [platform, setPlatform] = useState<Platform>('linux');
+  const [result, setResult] = useState<CompareResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [repoId, baseRef, headRef, platform]);
+
+  const fetchComparison = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const query = buildQuery({ repo: repoId, base: baseRef, head: headRef, platform });
+      const response = await fetch(`/api/compare${query}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to compare refs');
+      }
+
+      const data: CompareResponse = await response.json();
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error comparing refs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderEntries = (entries: CompareEntry[], kind: keyof typeof ENTRY_STYLES) => {
+    if (entries.length === 0) return null;
+
+    const style = ENTRY_STYLES[kind];
+
+    return (
+      <div>
+        <h3 className={cn('text-lg font-semibold mb-3 flex items-center gap-2', style.heading)}>
+          <span>{style.icon}</span>
+          <span>{style.title} ({entries.length})</span>
+        </h3>
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <div key={entry.deployPath} className={cn('p-3 rounded border', style.card)}>
+              <div className={cn('font-mono text-sm', style.path)}>{entry.deployPath}</div>
+              <ul className="mt-1 text-xs text-gray-600 dark:text-gray-400 list-disc list-inside">
+                {entry.causes.map((cause) => (
+                  <li key={cause}>{cause}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const hasChanges = result && (
+    result.added.length > 0 ||
+    result.removed.length > 0 ||
+    result.changed.length > 0
+  );
+
+  return (
+    <div className="container mx-auto p-8 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Compare Refs</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              See what a branch or commit changes on a real machine
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-800 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {/* Platform Switcher */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Platform
+          </label>
+          <PlatformSwitcher currentPlatform={platform} onChange={setPlatform} />
+        </div>
+
+        {/* Ref Pickers */}
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Base
+            </label>
+            <RefPicker currentRef={baseRef} onChange={setBaseRef} />
+          </div>
+          <span className="pb-2 text-gray-500 dark:text-gray-500">→</span>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Head
+            </label>
+            <RefPicker currentRef={headRef} onChange={setHeadRef} />
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Comparing...</p>
+        </div>
+      ) : result ? (
+        <div className="space-y-6">
+          {/* Summary Stats */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-900">
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                {result.totalFilesBase} → {result.totalFilesHead}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Total Files</div>
+            </div>
+
+            <div className="p-4 bg-purple-50 dark:bg-purple-950/20 rounded-lg border border-purple-200 dark:border-purple-900">
+              <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+                {hasChanges ? (
+                  <>
+                    +{result.added.length} -{result.removed.length} ~{result.changed.length}
+                  </>
+                ) : (
+                  'No changes'
+                )}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">File Changes</div>
+            </div>
+
+            <div className="p-4 bg-gray-50 dark:bg-gray-900/20 rounded-lg border border-gray-200 dark:border-gray-800">
+              <div className="font-mono text-sm text-gray-700 dark:text-gray-300">
+                {result.base.sha.slice(0, 7)} → {result.head.sha.slice(0, 7)}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Commits</div>
+            </div>
+          </div>
+
+          {/* Module & Ignore Rule Changes */}
+          {(result.moduleChanges.length > 0 ||
+            result.ignoreChanges.added.length > 0 ||
+            result.ignoreChanges.removed.length > 0) && (
+            <div className="p-4 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
+              <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-gray-100">
+                Configuration Changes
+              </h3>
+              <ul className="space-y-1 font-mono text-sm">
+                {result.moduleChanges.map((change) => (
+                  <li key={`${change.module}.${change.setting}`} className="text-gray-700 dark:text-gray-300">
+                    .modules.{change.module}.{change.setting}: {String(change.base)} → {String(change.head)}
+                  </li>
+                ))}
+                {result.ignoreChanges.added.map((pattern) => (
+                  <li key={`+${pattern}`} className="text-red-700 dark:text-red-400">
+                    + ignore {pattern}
+                  </li>
+                ))}
+                {result.ignoreChanges.removed.map((pattern) => (
+                  <li key={`-${pattern}`} className="text-green-700 dark:text-green-400">
+                    - ignore {pattern}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {renderEntries(result.added, 'added')}
+          {renderEntries(result.removed, 'removed')}
+          {renderEntries(result.changed, 'changed')}
+
+          {/* No Changes */}
+          {!hasChanges && (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">✨</div>
+              <p className="text-gray-600 dark:text-gray-400">
+                Both refs deploy the same files on this platform.
+              </p>
+            </div>
+          )}
+        </div>
+      ) : null}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mt-6 p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900 rounded-lg">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
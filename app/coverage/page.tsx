@@ -0,0 +1,225 @@
+/**
+ * Coverage Page
+ * Every file against every platform, over all combinations of module options
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CoverageResponse, Platform } from '@/lib/types';
+import { RefPicker } from '@/components/RefPicker';
+import { useRepoStore } from '@/lib/store';
+import { buildQuery, cn } from '@/lib/utils';
+
+const PLATFORMS: { id: Platform; label: string }[] = [
+  { id: 'linux', label: '🐧 Linux' },
+  { id: 'darwin', label: ' macOS' },
+  { id: 'windows', label: '🪟 Windows' },
+];
+
+export default function CoveragePage() {
+  const [ref, setRef] = useState('');
+  const repoId = useRepoStore((state) => state.repoId);
+  const [coverage, setCoverage] = useState<CoverageResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCoverage();
+  }, [repoId, ref]);
+
+  const fetchCoverage = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/coverage${buildQuery({ repo: repoId, ref })}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch coverage');
+      }
+
+      const data: CoverageResponse = await response.json();
+      setCoverage(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching coverage:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderCell = (deployed: number, total: number) => {
+    const style = deployed === 0
+      ? 'bg-gray-100 dark:bg-gray-800 text-gray-500'
+      : deployed === total
+        ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
+        : 'bg-blue-50 dark:bg-blue-950/20 text-blue-700 dark:text-blue-300';
+    const label = deployed === 0 ? 'never' : deployed === total ? 'always' : `${Math.round((deployed / total) * 100)}%`;
+
+    return (
+      <span title={`Deployed in ${deployed} of ${total} combinations`} className={cn('inline-block w-16 px-2 py-1 text-xs text-center rounded cursor-help', style)}>
+        {label}
+      </span>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Coverage</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Every file on every platform, over all combinations of module options
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-800 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {/* Ref Picker */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Ref
+          </label>
+          <RefPicker currentRef={ref} onChange={setRef} />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Resolving every combination...</p>
+        </div>
+      ) : error ? (
+        <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900 rounded-lg">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      ) : coverage ? (
+        <div className="space-y-8">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {coverage.options.length} module options, {coverage.combinations} combinations per platform;{' '}
+            {coverage.evaluated} distinct resolutions computed
+          </p>
+
+          {/* Matrix */}
+          <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-500">
+                  <th className="pb-2 pr-4 font-semibold">FILE</th>
+                  <th className="pb-2 pr-4 font-semibold">DEPLOYED WHEN</th>
+                  {PLATFORMS.map((platform) => (
+                    <th key={platform.id} className="pb-2 px-2 font-semibold text-center">{platform.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {coverage.files.map((file) => (
+                  <tr key={file.sourcePath} className="border-t border-gray-100 dark:border-gray-800">
+                    <td className="py-2 pr-4">
+                      <div className="font-mono text-gray-900 dark:text-gray-100">{file.deployPath}</div>
+                      <div className="font-mono text-xs text-gray-500">{file.sourcePath}</div>
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs text-gray-700 dark:text-gray-300">{file.condition}</td>
+                    {PLATFORMS.map((platform) => (
+                      <td key={platform.id} className="py-2 px-2 text-center">
+                        {renderCell(file.deployed[platform.id], coverage.combinations)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h2 className="text-2xl font-bold mb-3 text-gray-900 dark:text-gray-100">Never Deployed</h2>
+              {coverage.neverDeployed.length === 0 ? (
+                <p className="text-sm text-gray-500">Every file is deployed in some configuration</p>
+              ) : (
+                <ul className="space-y-1 font-mono text-sm text-red-600 dark:text-red-400">
+                  {coverage.neverDeployed.map((path) => <li key={path}>{path}</li>)}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h2 className="text-2xl font-bold mb-3 text-gray-900 dark:text-gray-100">Always Deployed</h2>
+              {coverage.alwaysDeployed.length === 0 ? (
+                <p className="text-sm text-gray-500">No file is deployed in every configuration</p>
+              ) : (
+                <ul className="space-y-1 font-mono text-sm text-gray-700 dark:text-gray-300">
+                  {coverage.alwaysDeployed.map((path) => <li key={path}>{path}</li>)}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-2xl font-bold mb-1 text-gray-900 dark:text-gray-100">Options Without Effect</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              Options that never change which files are deployed on a platform
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {PLATFORMS.map((platform) => (
+                <div key={platform.id} className="p-3 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-800">
+                  <div className="text-sm font-medium mb-2 text-gray-900 dark:text-gray-100">{platform.label}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {coverage.noEffect[platform.id].length === 0 ? (
+                      <span className="text-sm text-gray-500">Every option matters</span>
+                    ) : (
+                      coverage.noEffect[platform.id].map((option) => (
+                        <span key={option} className="px-2 py-1 text-xs font-mono bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded">
+                          {option}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-2xl font-bold mb-1 text-gray-900 dark:text-gray-100">Deploy Path Collisions</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              Targets more than one source file deploys to in the same configuration
+            </p>
+            {coverage.collisions.length === 0 ? (
+              <p className="text-sm text-gray-500">No collisions in any configuration</p>
+            ) : (
+              <div className="space-y-2">
+                {coverage.collisions.map((collision) => (
+                  <div
+                    key={`${collision.deployPath}:${collision.sourcePaths.join(',')}`}
+                    className="p-3 bg-red-50 dark:bg-red-950/20 rounded border border-red-200 dark:border-red-900"
+                  >
+                    <div className="font-mono text-sm text-gray-900 dark:text-gray-100">{collision.deployPath}</div>
+                    <div className="font-mono text-xs text-gray-600 dark:text-gray-400">
+                      {collision.sourcePaths.join(', ')}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      On {collision.platforms.join(', ')}, in {collision.combinations} combinations, e.g.{' '}
+                      <code className="font-mono">
+                        {Object.entries(collision.example).map(([option, value]) => `${option}=${value}`).join(' ')}
+                      </code>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -6,29 +6,55 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { FileMapping, FilesResponse, Platform } from '@/lib/types';
+import { DeploymentDecision, FileMapping, FilesResponse, IgnoredFile, Platform, TemplateDiagnostic } from '@/lib/types';
 import { FileMapper } from '@/lib/parsers/FileMapper';
 import { PlatformSwitcher } from '@/components/PlatformSwitcher';
 import { FileTree } from '@/components/FileTree';
+import { RefPicker } from '@/components/RefPicker';
+import { TemplateDiagnostics } from '@/components/TemplateDiagnostics';
+import { RenderedFile } from '@/components/RenderedFile';
+import { AttributeBadges } from '@/components/AttributeBadges';
+import { DeploymentTrace } from '@/components/DeploymentTrace';
+import { useRepoStore, useSelectedRepo } from '@/lib/store';
+import { buildQuery, formatFileSize, providerLabel, sourceFileUrl } from '@/lib/utils';
 
 export default function FileExplorer() {
   const [files, setFiles] = useState<FileMapping[]>([]);
+  const [ignoreDiagnostics, setIgnoreDiagnostics] = useState<TemplateDiagnostic[]>([]);
+  const [ignored, setIgnored] = useState<IgnoredFile[]>([]);
+  const [decisions, setDecisions] = useState<DeploymentDecision[]>([]);
   const [platform, setPlatform] = useState<Platform>('linux');
+  const [ref, setRef] = useState('');
+  const repoId = useRepoStore((state) => state.repoId);
+  const repo = useSelectedRepo();
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<FileMapping | null>(null);
+  const [explainPath, setExplainPath] = useState<string | null>(null);
 
   useEffect(() => {
     fetchFiles();
-  }, [platform]);
+  }, [repoId, platform, ref]);
+
+  // /files?path={sourcePath} opens that file, e.g. from the alias catalog
+  useEffect(() => {
+    const path = new URLSearchParams(window.location.search).get('path');
+    if (path) setExplainPath(path);
+  }, []);
+
+  useEffect(() => {
+    if (explainPath && !selectedFile) {
+      setSelectedFile(files.find((file) => file.sourcePath === explainPath) ?? null);
+    }
+  }, [files]);
 
   const fetchFiles = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/files?platform=${platform}`);
+      const response = await fetch(`/api/files${buildQuery({ repo: repoId, platform, ref })}`);
 
       if (!response.ok) {
         throw new Error('Failed to fetch files');
@@ -36,6 +62,9 @@ export default function FileExplorer() {
 
       const data: FilesResponse = await response.json();
       setFiles(data.files);
+      setIgnoreDiagnostics(data.ignoreDiagnostics);
+      setIgnored(data.ignored);
+      setDecisions(data.decisions);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
       console.error('Error fetching files:', err);
@@ -44,8 +73,20 @@ export default function FileExplorer() {
     }
   };
 
+  const handleFileSelect = (file: FileMapping) => {
+    setSelectedFile(file);
+    setExplainPath(file.sourcePath);
+  };
+
   // Build file tree from flat list
   const fileTree = files.length > 0 ? FileMapper.buildFileTree(files) : null;
+  const selectedDecision = selectedFile
+    ? decisions.find((decision) => decision.sourcePath === selectedFile.sourcePath)
+    : undefined;
+
+  const sourceUrl = repo && selectedFile
+    ? sourceFileUrl(repo, ref || repo.defaultBranch, selectedFile.sourcePath)
+    : null;
 
   if (loading) {
     return (
@@ -103,6 +144,14 @@ export default function FileExplorer() {
           <PlatformSwitcher currentPlatform={platform} onChange={setPlatform} />
         </div>
 
+        {/* Ref Picker */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Ref
+          </label>
+          <RefPicker currentRef={ref} onChange={setRef} />
+        </div>
+
         {/* Search */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -117,6 +166,26 @@ export default function FileExplorer() {
           />
         </div>
 
+        {/* Explain */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Explain Any Source File
+          </label>
+          <input
+            type="text"
+            list="source-paths"
+            value={explainPath ?? ''}
+            onChange={(e) => setExplainPath(e.target.value || null)}
+            placeholder="e.g. dot_zshrc"
+            className="w-full px-4 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <datalist id="source-paths">
+            {decisions.map((decision) => (
+              <option key={decision.sourcePath} value={decision.sourcePath} />
+            ))}
+          </datalist>
+        </div>
+
         {/* Stats */}
         <div className="flex gap-4 mb-6">
           <div className="px-4 py-2 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-900">
@@ -128,6 +197,38 @@ export default function FileExplorer() {
             </span>
           </div>
         </div>
+
+        <TemplateDiagnostics fileName=".chezmoiignore" diagnostics={ignoreDiagnostics} className="mb-6" />
+
+        {/* Ignored Files */}
+        {ignored.length > 0 && (
+          <details className="mb-6 p-4 bg-gray-50 dark:bg-gray-900/20 rounded-lg border border-gray-200 dark:border-gray-800">
+            <summary className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">
+              🚫 {ignored.length} files ignored by .chezmoiignore
+            </summary>
+            <ul className="mt-3 space-y-1 font-mono text-xs">
+              {ignored
+                .filter((file) => !searchQuery || file.deployPath.toLowerCase().includes(searchQuery.toLowerCase()))
+                .map((file) => (
+                  <li key={file.sourcePath} className="flex flex-wrap gap-x-2 text-gray-700 dark:text-gray-300">
+                    <span className="text-gray-900 dark:text-gray-100">{file.deployPath}</span>
+                    <span className="text-gray-500">
+                      ← <span className="text-red-600 dark:text-red-400">{file.match.pattern}</span>
+                      {file.match.line > 0 && ` (.chezmoiignore:${file.match.line})`}
+                      {file.match.matchedPath !== file.deployPath.replace(/^~\//, '') &&
+                        `, via directory ${file.match.matchedPath}`}
+                    </span>
+                    <button
+                      onClick={() => setExplainPath(file.sourcePath)}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      why?
+                    </button>
+                  </li>
+                ))}
+            </ul>
+          </details>
+        )}
       </div>
 
       {/* File Tree and Preview */}
@@ -137,7 +238,7 @@ export default function FileExplorer() {
           {fileTree ? (
             <FileTree
               root={fileTree}
-              onFileSelect={setSelectedFile}
+              onFileSelect={handleFileSelect}
               searchQuery={searchQuery}
             />
           ) : (
@@ -178,20 +279,42 @@ export default function FileExplorer() {
                   <div className="text-xs font-semibold text-gray-500 dark:text-gray-500 mb-2">
                     PROPERTIES
                   </div>
-                  <div className="flex flex-wrap gap-2">
-                    {selectedFile.isTemplate && (
-                      <span className="px-2 py-1 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded">
-                        📝 Template
-                      </span>
-                    )}
-                    {selectedFile.isExecutable && (
-                      <span className="px-2 py-1 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded">
-                        ⚙️ Executable
-                      </span>
-                    )}
-                  </div>
+                  <AttributeBadges
+                    attributes={selectedFile.attributes}
+                    kind={selectedFile.targetKind}
+                    size="md"
+                    className="gap-2"
+                  />
+                  {selectedFile.targetKind === 'file' && selectedFile.attributes.length === 0 && (
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Regular file</div>
+                  )}
                 </div>
 
+                {selectedFile.size !== undefined && (
+                  <div>
+                    <div className="text-xs font-semibold text-gray-500 dark:text-gray-500 mb-1">
+                      SIZE
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatFileSize(selectedFile.size)}
+                    </div>
+                  </div>
+                )}
+
+                {selectedFile.condition && (
+                  <div>
+                    <div className="text-xs font-semibold text-gray-500 dark:text-gray-500 mb-1">
+                      DEPLOYED WHEN
+                    </div>
+                    <code
+                      title="From .chezmoiignore's conditional blocks and the template's top-level guard"
+                      className="text-sm font-mono text-gray-900 dark:text-gray-100 cursor-help"
+                    >
+                      {selectedFile.condition}
+                    </code>
+                  </div>
+                )}
+
                 {selectedFile.requiredModules.length > 0 && (
                   <div>
                     <div className="text-xs font-semibold text-gray-500 dark:text-gray-500 mb-2">
@@ -228,16 +351,33 @@ export default function FileExplorer() {
                   </div>
                 </div>
 
-                <div className="pt-4 border-t border-gray-200 dark:border-gray-800">
-                  <a
-                    href={`https://github.com/brechtparmentier/dotfiles/blob/main/${selectedFile.sourcePath}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
-                  >
-                    View Source on GitHub →
-                  </a>
-                </div>
+                {selectedDecision && (
+                  <div>
+                    <div className="text-xs font-semibold text-gray-500 dark:text-gray-500 mb-2">
+                      WHY IT IS DEPLOYED
+                    </div>
+                    <ul className="space-y-1">
+                      {selectedDecision.reasons.map((reason) => (
+                        <li key={reason} className="text-sm text-gray-600 dark:text-gray-400">
+                          ✓ {reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {repo && sourceUrl && (
+                  <div className="pt-4 border-t border-gray-200 dark:border-gray-800">
+                    <a
+                      href={sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      View Source on {providerLabel(repo)} →
+                    </a>
+                  </div>
+                )}
               </div>
             </div>
           ) : (
@@ -248,6 +388,28 @@ export default function FileExplorer() {
           )}
         </div>
       </div>
+
+      {/* Deployment Trace */}
+      {explainPath && decisions.some((decision) => decision.sourcePath === explainPath) && (
+        <DeploymentTrace
+          key={`${explainPath}:${platform}:${ref}`}
+          sourcePath={explainPath}
+          platform={platform}
+          gitRef={ref}
+          className="mt-6"
+        />
+      )}
+
+      {/* Rendered Content */}
+      {selectedFile && (
+        <RenderedFile
+          key={`${selectedFile.sourcePath}:${platform}:${ref}`}
+          sourcePath={selectedFile.sourcePath}
+          platform={platform}
+          gitRef={ref}
+          className="mt-6"
+        />
+      )}
     </div>
   );
 }
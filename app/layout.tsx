@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import Link from "next/link";
+import { RepoScope, RepoSwitcher } from "@/components/RepoSwitcher";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,8 +15,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "Dotfiles Visualizer",
+  description: "Explore how a chezmoi dotfiles repository deploys across machines",
 };
 
 export default function RootLayout({
@@ -27,7 +29,15 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <header className="border-b border-gray-200 dark:border-gray-800">
+          <div className="container mx-auto px-8 py-3 max-w-7xl flex items-center justify-between">
+            <Link href="/" className="font-semibold">
+              Dotfiles Visualizer
+            </Link>
+            <RepoSwitcher />
+          </div>
+        </header>
+        <RepoScope>{children}</RepoScope>
       </body>
     </html>
   );
@@ -0,0 +1,180 @@
+/**
+ * Module Detail Page
+ * A module's MODULES.md section next to the files and aliases that need it
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ModuleInfo, ModulesResponse } from '@/lib/types';
+import { MarkdownBlocks } from '@/components/MarkdownBlocks';
+import { RefPicker } from '@/components/RefPicker';
+import { useRepoStore } from '@/lib/store';
+import { buildQuery } from '@/lib/utils';
+
+export default function ModuleDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [info, setInfo] = useState<ModuleInfo | null>(null);
+  const [ref, setRef] = useState('');
+  const repoId = useRepoStore((state) => state.repoId);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchModule();
+  }, [id, repoId, ref]);
+
+  const fetchModule = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/modules${buildQuery({ id, repo: repoId, ref })}`);
+
+      if (response.status === 404) {
+        throw new Error(`The configuration has no module ${id}`);
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch module');
+      }
+
+      const data: ModulesResponse = await response.json();
+      setInfo(data.modules[0] ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching module:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">{info?.name ?? id}</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              <code className="font-mono">{id}</code>
+              {info && ` · ${info.category}`}
+              {info?.startupImpact && ` · startup ${info.startupImpact}`}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-800 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {/* Ref Picker */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Ref
+          </label>
+          <RefPicker currentRef={ref} onChange={setRef} />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading module...</p>
+        </div>
+      ) : error ? (
+        <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900 rounded-lg">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      ) : info ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Left: Documentation */}
+          <div className="lg:col-span-2 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
+            <h2 className="text-2xl font-bold mb-4 text-gray-900 dark:text-gray-100">Documentation</h2>
+            {info.doc ? (
+              <MarkdownBlocks blocks={info.doc.blocks} />
+            ) : (
+              <div>
+                <p className="text-gray-700 dark:text-gray-300">{info.description || 'No description.'}</p>
+                <p className="mt-4 text-sm text-gray-500">MODULES.md has no section for this module.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Right: Metadata, files, aliases and functions */}
+          <div className="space-y-6">
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6 text-sm">
+              <div className="mb-2">
+                <span className="font-medium">Platforms:</span> {info.platforms.join(', ')}
+              </div>
+              <div>
+                <span className="font-medium">Requires:</span>{' '}
+                {info.dependencies.length > 0
+                  ? info.dependencies.map((dep, i) => (
+                    <span key={dep}>
+                      {i > 0 && ', '}
+                      <Link href={`/modules/${dep}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                        {dep}
+                      </Link>
+                    </span>
+                  ))
+                  : 'nothing'}
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
+              <h2 className="text-lg font-bold mb-3 text-gray-900 dark:text-gray-100">Files ({info.files.length})</h2>
+              {info.files.length === 0 ? (
+                <p className="text-sm text-gray-500">No file depends on this module</p>
+              ) : (
+                <ul className="space-y-1">
+                  {info.files.map((sourcePath) => (
+                    <li key={sourcePath}>
+                      <Link
+                        href={`/files${buildQuery({ path: sourcePath })}`}
+                        className="font-mono text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {sourcePath}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-6">
+              <h2 className="text-lg font-bold mb-3 text-gray-900 dark:text-gray-100">
+                Aliases &amp; Functions ({info.aliases.length + (info.functions?.length ?? 0)})
+              </h2>
+              <ul className="space-y-2 text-sm">
+                {info.aliases.map((alias) => (
+                  <li key={`${alias.sourcePath}:${alias.line}:${alias.name}`}>
+                    <code className="font-mono font-bold">{alias.name}</code>{' '}
+                    <code className="font-mono text-gray-600 dark:text-gray-400">{alias.command}</code>
+                    {alias.description && <div className="text-xs text-gray-500">{alias.description}</div>}
+                  </li>
+                ))}
+                {info.functions?.map((fn) => (
+                  <li key={`${fn.sourcePath}:${fn.line}:${fn.name}`}>
+                    <code className="font-mono font-bold">{fn.name}()</code>{' '}
+                    <code className="font-mono text-gray-600 dark:text-gray-400">{fn.usage}</code>
+                    {fn.description && <div className="text-xs text-gray-500">{fn.description}</div>}
+                  </li>
+                ))}
+              </ul>
+              <Link
+                href="/aliases"
+                className="mt-3 inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Open the alias catalog →
+              </Link>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -6,26 +6,40 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { DotfilesConfig, ConfigResponse } from '@/lib/types';
+import Link from 'next/link';
+import { DotfilesConfig, ConfigResponse, ModuleCategory, ModuleMetadata, MODULE_CATEGORIES } from '@/lib/types';
 import { ModuleCard } from '@/components/ModuleCard';
-import { formatRelativeTime } from '@/lib/utils';
+import { WebhookDeliveries } from '@/components/WebhookDeliveries';
+import { RefPicker } from '@/components/RefPicker';
+import { useRepoStore } from '@/lib/store';
+import { buildQuery, formatRelativeTime } from '@/lib/utils';
+
+const CATEGORY_TITLES: Record<ModuleCategory, string> = {
+  core: 'Core Modules',
+  application: 'Application Modules',
+  optional: 'Optional Modules',
+  uncategorised: 'Other Modules',
+};
 
 export default function Dashboard() {
   const [config, setConfig] = useState<DotfilesConfig | null>(null);
+  const [modules, setModules] = useState<ModuleMetadata[]>([]);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [ref, setRef] = useState('');
+  const repoId = useRepoStore((state) => state.repoId);
 
   useEffect(() => {
     fetchConfig();
-  }, []);
+  }, [repoId, ref]);
 
   const fetchConfig = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch('/api/config');
+      const response = await fetch(`/api/config${buildQuery({ repo: repoId, ref })}`);
 
       if (!response.ok) {
         throw new Error('Failed to fetch configuration');
@@ -33,6 +47,7 @@ export default function Dashboard() {
 
       const data: ConfigResponse = await response.json();
       setConfig(data.config);
+      setModules(data.modules);
       setLastUpdated(data.lastUpdated);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
@@ -95,6 +110,10 @@ export default function Dashboard() {
             Last synced: {formatRelativeTime(lastUpdated)}
           </p>
         )}
+        <div className="mt-4 flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Ref</span>
+          <RefPicker currentRef={ref} onChange={setRef} />
+        </div>
       </div>
 
       {/* Stats */}
@@ -128,46 +147,30 @@ export default function Dashboard() {
         </p>
       </div>
 
-      {/* Core Modules */}
-      <div className="mb-8">
-        <h2 className="text-2xl font-bold mb-4">Core Modules</h2>
-        <div className="space-y-4">
-          {['shell', 'git'].map((id) => (
-            <ModuleCard
-              key={id}
-              id={id}
-              module={config.data.modules[id as keyof typeof config.data.modules]}
-            />
-          ))}
-        </div>
-      </div>
-
-      {/* Application Modules */}
-      <div className="mb-8">
-        <h2 className="text-2xl font-bold mb-4">Application Modules</h2>
-        <div className="space-y-4">
-          {['vscode', 'powershell'].map((id) => (
-            <ModuleCard
-              key={id}
-              id={id}
-              module={config.data.modules[id as keyof typeof config.data.modules]}
-            />
-          ))}
-        </div>
-      </div>
+      {/* Modules, grouped by category */}
+      {MODULE_CATEGORIES.map((category) => {
+        const group = modules.filter((m) => m.category === category && config.data.modules[m.id]);
+        if (group.length === 0) return null;
+
+        return (
+          <div key={category} className="mb-8">
+            <h2 className="text-2xl font-bold mb-4">{CATEGORY_TITLES[category]}</h2>
+            <div className="space-y-4">
+              {group.map((metadata) => (
+                <ModuleCard
+                  key={metadata.id}
+                  metadata={metadata}
+                  module={config.data.modules[metadata.id]}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
 
-      {/* Optional Modules */}
+      {/* Webhook Deliveries */}
       <div className="mb-8">
-        <h2 className="text-2xl font-bold mb-4">Optional Modules</h2>
-        <div className="space-y-4">
-          {['start_menu', 'modern_tools', 'smart_search'].map((id) => (
-            <ModuleCard
-              key={id}
-              id={id}
-              module={config.data.modules[id as keyof typeof config.data.modules]}
-            />
-          ))}
-        </div>
+        <WebhookDeliveries />
       </div>
 
       {/* Actions */}
@@ -190,6 +193,30 @@ export default function Dashboard() {
         >
           🎮 Module Simulator
         </a>
+        <a
+          href="/compare"
+          className="px-6 py-3 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 transition font-medium inline-block"
+        >
+          🔀 Compare Refs
+        </a>
+        <Link
+          href="/scripts"
+          className="px-6 py-3 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition font-medium inline-block"
+        >
+          📜 Scripts
+        </Link>
+        <Link
+          href="/coverage"
+          className="px-6 py-3 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition font-medium inline-block"
+        >
+          🧮 Coverage
+        </Link>
+        <Link
+          href="/aliases"
+          className="px-6 py-3 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition font-medium inline-block"
+        >
+          ⌨️ Aliases
+        </Link>
       </div>
     </div>
   );
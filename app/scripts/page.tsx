@@ -0,0 +1,223 @@
+/**
+ * Scripts Page
+ * The run_ scripts chezmoi apply would execute, in order, with their bodies
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Platform, ScriptEntry, ScriptFrequency, ScriptPhase, ScriptsResponse } from '@/lib/types';
+import { PlatformSwitcher } from '@/components/PlatformSwitcher';
+import { RefPicker } from '@/components/RefPicker';
+import { MarkedText } from '@/components/RenderedFile';
+import { TemplateDiagnostics } from '@/components/TemplateDiagnostics';
+import { SimulatedModulesBadge } from '@/components/SimulatedModulesBadge';
+import { useRepoStore, useSimulationStore } from '@/lib/store';
+import { buildQuery, cn, moduleChangesQuery } from '@/lib/utils';
+
+const PHASES: Record<ScriptPhase, { title: string; description: string }> = {
+  before: {
+    title: 'Before',
+    description: 'run_..._before_ scripts, before any file is updated',
+  },
+  during: {
+    title: 'During',
+    description: 'Scripts without a phase, run while files are applied in name order',
+  },
+  after: {
+    title: 'After',
+    description: 'run_..._after_ scripts, once all files are updated',
+  },
+};
+
+const FREQUENCIES: Record<ScriptFrequency, { label: string; description: string; style: string }> = {
+  always: {
+    label: 'every apply',
+    description: 'run_ scripts run on every chezmoi apply',
+    style: 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300',
+  },
+  once: {
+    label: 'once',
+    description: 'run_once_ scripts run once for each distinct content they have had',
+    style: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  },
+  onchange: {
+    label: 'on change',
+    description: 'run_onchange_ scripts run whenever their content changes',
+    style: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300',
+  },
+};
+
+export default function ScriptsPage() {
+  const [platform, setPlatform] = useState<Platform>('linux');
+  const [ref, setRef] = useState('');
+  const repoId = useRepoStore((state) => state.repoId);
+  const moduleChanges = useSimulationStore((state) => state.moduleChanges);
+  const [result, setResult] = useState<ScriptsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchScripts();
+  }, [repoId, platform, ref, moduleChanges]);
+
+  const fetchScripts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/scripts${buildQuery({ repo: repoId, platform, ref, modules: moduleChangesQuery(moduleChanges) })}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch scripts');
+      }
+
+      const data: ScriptsResponse = await response.json();
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Error fetching scripts:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderScript = (script: ScriptEntry, order?: number) => {
+    const frequency = FREQUENCIES[script.frequency];
+
+    return (
+      <details
+        key={script.sourcePath}
+        className="p-3 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-800"
+      >
+        <summary className="cursor-pointer flex flex-wrap items-center gap-2">
+          {order !== undefined && (
+            <span className="w-6 text-right text-sm font-bold text-gray-500 dark:text-gray-500">{order}.</span>
+          )}
+          <span className="font-mono text-sm text-gray-900 dark:text-gray-100">{script.name}</span>
+          <span title={frequency.description} className={cn('px-2 py-0.5 text-xs rounded cursor-help', frequency.style)}>
+            {frequency.label}
+          </span>
+          {script.isTemplate && (
+            <span className="px-2 py-0.5 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded">
+              template
+            </span>
+          )}
+          {script.requiredModules.map((module) => (
+            <span
+              key={module}
+              className="px-2 py-0.5 text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded"
+            >
+              {module}
+            </span>
+          ))}
+          <span className="font-mono text-xs text-gray-500 dark:text-gray-500">{script.sourcePath}</span>
+        </summary>
+
+        <div className="mt-3">
+          <TemplateDiagnostics fileName={script.sourcePath} diagnostics={script.diagnostics} className="mb-3" />
+          {script.content.trim() ? (
+            <pre className="font-mono text-xs text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-800 p-3 rounded overflow-x-auto max-h-[50vh] overflow-y-auto whitespace-pre">
+              <MarkedText text={script.content} markers={script.markers} />
+            </pre>
+          ) : (
+            <p className="text-sm text-gray-500">Renders to an empty script, so chezmoi does not run it</p>
+          )}
+        </div>
+      </details>
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Scripts</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              The scripts chezmoi apply runs, in order
+              <SimulatedModulesBadge moduleChanges={moduleChanges} className="ml-2" />
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm bg-gray-100 dark:bg-gray-800 rounded hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+          >
+            ← Back to Dashboard
+          </Link>
+        </div>
+
+        {/* Platform Switcher */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Platform
+          </label>
+          <PlatformSwitcher currentPlatform={platform} onChange={setPlatform} />
+        </div>
+
+        {/* Ref Picker */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Ref
+          </label>
+          <RefPicker currentRef={ref} onChange={setRef} />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Rendering scripts...</p>
+        </div>
+      ) : error ? (
+        <div className="p-4 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-900 rounded-lg">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      ) : result ? (
+        <div className="space-y-8">
+          {result.scripts.length === 0 && (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-500">
+              No scripts run on this platform
+            </div>
+          )}
+
+          {(Object.keys(PHASES) as ScriptPhase[]).map((phase) => {
+            const scripts = result.scripts.filter((script) => script.phase === phase);
+            if (scripts.length === 0) return null;
+
+            // Numbering continues across phases: it is the overall run order
+            const offset = result.scripts.indexOf(scripts[0]);
+
+            return (
+              <div key={phase}>
+                <h2 className="text-2xl font-bold mb-1 text-gray-900 dark:text-gray-100">
+                  {PHASES[phase].title}
+                </h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{PHASES[phase].description}</p>
+                <div className="space-y-2">
+                  {scripts.map((script, i) => renderScript(script, offset + i + 1))}
+                </div>
+              </div>
+            );
+          })}
+
+          {result.skipped.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-bold mb-1 text-gray-900 dark:text-gray-100">
+                Not Run
+              </h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                Scripts that are empty for this configuration
+              </p>
+              <div className="space-y-2">
+                {result.skipped.map((script) => renderScript(script))}
+              </div>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
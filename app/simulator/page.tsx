@@ -11,46 +11,56 @@ import {
   ConfigResponse,
   SimulateRequest,
   SimulateResponse,
+  DependencyMode,
   Platform,
   ModuleConfiguration,
+  ModuleMetadata,
 } from '@/lib/types';
 import { SimulatorPanel } from '@/components/SimulatorPanel';
 import { PlatformSwitcher } from '@/components/PlatformSwitcher';
-import { cn } from '@/lib/utils';
+import { RefPicker } from '@/components/RefPicker';
+import { useRepoStore, useSimulationStore } from '@/lib/store';
+import { buildQuery, cn } from '@/lib/utils';
 
 export default function ModuleSimulator() {
   const [config, setConfig] = useState<DotfilesConfig | null>(null);
   const [simulatedModules, setSimulatedModules] = useState<ModuleConfiguration | null>(null);
+  const [modules, setModules] = useState<ModuleMetadata[]>([]);
   const [platform, setPlatform] = useState<Platform>('linux');
+  const [ref, setRef] = useState('');
+  const [dependencyMode, setDependencyMode] = useState<DependencyMode>('auto');
+  const repoId = useRepoStore((state) => state.repoId);
+  const setSharedModuleChanges = useSimulationStore((state) => state.setModuleChanges);
   const [simulationResult, setSimulationResult] = useState<SimulateResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [simulating, setSimulating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch initial configuration
+  // Fetch configuration for the selected ref
   useEffect(() => {
     fetchConfig();
-  }, []);
+  }, [repoId, ref]);
 
-  // Simulate whenever modules or platform changes
+  // Simulate whenever modules, platform or dependency handling changes
   useEffect(() => {
     if (config && simulatedModules) {
       simulateConfiguration();
     }
-  }, [simulatedModules, platform]);
+  }, [simulatedModules, platform, dependencyMode]);
 
   const fetchConfig = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch('/api/config');
+      const response = await fetch(`/api/config${buildQuery({ repo: repoId, ref })}`);
       if (!response.ok) {
         throw new Error('Failed to fetch configuration');
       }
 
       const data: ConfigResponse = await response.json();
       setConfig(data.config);
+      setModules(data.modules);
       setSimulatedModules(data.config.data.modules);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
@@ -78,6 +88,9 @@ export default function ModuleSimulator() {
       const requestBody: SimulateRequest = {
         moduleChanges,
         platform,
+        repo: repoId || undefined,
+        ref: ref || undefined,
+        dependencyMode,
       };
 
       const response = await fetch('/api/simulate', {
@@ -92,6 +105,12 @@ export default function ModuleSimulator() {
 
       const result: SimulateResponse = await response.json();
       setSimulationResult(result);
+
+      // Share what differs from the configuration, so the file explorer renders with it
+      setSharedModuleChanges(Object.fromEntries(
+        Object.entries(result.dependencies.moduleChanges)
+          .filter(([moduleId, enabled]) => !!config.data.modules[moduleId]?.enabled !== enabled)
+      ));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Simulation failed');
       console.error('Simulation error:', err);
@@ -154,9 +173,33 @@ export default function ModuleSimulator() {
 
   const hasChanges = simulationResult && (
     simulationResult.filesAdded.length > 0 ||
-    simulationResult.filesRemoved.length > 0
+    simulationResult.filesRemoved.length > 0 ||
+    simulationResult.scriptsAdded.length > 0 ||
+    simulationResult.scriptsRemoved.length > 0 ||
+    simulationResult.aliasesAdded.length > 0 ||
+    simulationResult.aliasesRemoved.length > 0 ||
+    simulationResult.functionsAdded.length > 0 ||
+    simulationResult.functionsRemoved.length > 0
   );
 
+  const expandedTo = (name: string) => simulationResult?.aliasExpansions.find((e) => e.name === name)?.expanded;
+
+  const shellAdded = simulationResult
+    ? [
+      ...simulationResult.aliasesAdded.map((a) => ({
+        ...a,
+        label: `alias ${a.name}='${a.command}'${expandedTo(a.name) ? ` → ${expandedTo(a.name)}` : ''}`,
+      })),
+      ...simulationResult.functionsAdded.map((f) => ({ ...f, label: `${f.name}()` })),
+    ]
+    : [];
+  const shellRemoved = simulationResult
+    ? [
+      ...simulationResult.aliasesRemoved.map((a) => ({ ...a, label: `alias ${a.name}='${a.command}'` })),
+      ...simulationResult.functionsRemoved.map((f) => ({ ...f, label: `${f.name}()` })),
+    ]
+    : [];
+
   return (
     <div className="container mx-auto p-8 max-w-7xl">
       {/* Header */}
@@ -184,6 +227,24 @@ export default function ModuleSimulator() {
           <PlatformSwitcher currentPlatform={platform} onChange={setPlatform} />
         </div>
 
+        {/* Ref Picker */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Ref
+          </label>
+          <RefPicker currentRef={ref} onChange={setRef} />
+        </div>
+
+        {/* Dependency Handling */}
+        <label className="flex items-center gap-2 mb-6 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={dependencyMode === 'auto'}
+            onChange={(e) => setDependencyMode(e.target.checked ? 'auto' : 'report')}
+          />
+          Resolve dependencies automatically (enable what a module requires, disable what depends on a disabled module)
+        </label>
+
         {/* Reset Button */}
         <button
           onClick={handleReset}
@@ -202,8 +263,10 @@ export default function ModuleSimulator() {
           </h2>
           <SimulatorPanel
             modules={simulatedModules}
+            metadata={modules}
             onModuleToggle={handleModuleToggle}
             isSimulating={simulating}
+            autoChanges={simulationResult?.dependencies.autoChanges}
           />
         </div>
 
@@ -243,6 +306,68 @@ export default function ModuleSimulator() {
                 </div>
               </div>
 
+              {/* Dependencies */}
+              {simulationResult.dependencies.autoChanges.length > 0 && (
+                <div className="p-4 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-900">
+                  <h3 className="text-sm font-semibold mb-2 text-blue-800 dark:text-blue-300">
+                    🔗 Changed automatically
+                  </h3>
+                  <ul className="space-y-1 text-sm text-blue-900 dark:text-blue-100">
+                    {simulationResult.dependencies.autoChanges.map((change) => (
+                      <li key={change.module}>
+                        <span className="font-mono">{change.module}</span>{' '}
+                        {change.enabled ? 'enabled' : 'disabled'}: {change.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {(simulationResult.dependencies.conflicts.length > 0 || simulationResult.dependencies.cycles.length > 0) && (
+                <div className="p-4 bg-red-50 dark:bg-red-950/20 rounded-lg border border-red-200 dark:border-red-900">
+                  <h3 className="text-sm font-semibold mb-2 text-red-800 dark:text-red-300">
+                    ⛔ Unmet dependencies
+                  </h3>
+                  <ul className="space-y-1 text-sm text-red-900 dark:text-red-100">
+                    {simulationResult.dependencies.conflicts.map((conflict) => (
+                      <li key={`${conflict.module}:${conflict.dependency}`}>{conflict.message}</li>
+                    ))}
+                    {simulationResult.dependencies.cycles.map((cycle) => (
+                      <li key={cycle.join('→')}>
+                        Dependency cycle: <span className="font-mono">{[...cycle, cycle[0]].join(' → ')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {simulationResult.dependencies.platformWarnings.length > 0 && (
+                <div className="p-4 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg border border-yellow-200 dark:border-yellow-900">
+                  <h3 className="text-sm font-semibold mb-2 text-yellow-800 dark:text-yellow-300">
+                    ⚠️ Unsupported on {simulationResult.platform}
+                  </h3>
+                  <ul className="space-y-1 text-sm text-yellow-900 dark:text-yellow-100">
+                    {simulationResult.dependencies.platformWarnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Warnings */}
+              {simulationResult.warnings && simulationResult.warnings.length > 0 && (
+                <div className="p-4 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg border border-yellow-200 dark:border-yellow-900">
+                  <h3 className="text-sm font-semibold mb-2 text-yellow-800 dark:text-yellow-300">
+                    ⚠️ Broken references
+                  </h3>
+                  <ul className="space-y-1 text-sm font-mono text-yellow-900 dark:text-yellow-100">
+                    {simulationResult.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Added Files */}
               {simulationResult.filesAdded.length > 0 && (
                 <div>
@@ -311,6 +436,124 @@ export default function ModuleSimulator() {
                 </div>
               )}
 
+              {/* Scripts */}
+              {(simulationResult.scriptsAdded.length > 0 || simulationResult.scriptsRemoved.length > 0) && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-gray-100 flex items-center gap-2">
+                    <span>📜</span>
+                    <span>
+                      Scripts (+{simulationResult.scriptsAdded.length} -{simulationResult.scriptsRemoved.length})
+                    </span>
+                  </h3>
+                  <div className="space-y-2">
+                    {simulationResult.scriptsAdded.map((script) => (
+                      <div
+                        key={script.sourcePath}
+                        className="p-3 bg-green-50 dark:bg-green-950/20 rounded border border-green-200 dark:border-green-900"
+                      >
+                        <div className="font-mono text-sm text-green-900 dark:text-green-100">
+                          {script.name}
+                        </div>
+                        <div className="mt-1 text-xs text-green-700 dark:text-green-300">
+                          Will run {script.phase === 'during' ? 'while applying files' : `${script.phase} applying files`}
+                          {script.frequency === 'once' && ', once'}
+                          {script.frequency === 'onchange' && ', when its content changes'}
+                        </div>
+                      </div>
+                    ))}
+                    {simulationResult.scriptsRemoved.map((script) => (
+                      <div
+                        key={script.sourcePath}
+                        className="p-3 bg-red-50 dark:bg-red-950/20 rounded border border-red-200 dark:border-red-900"
+                      >
+                        <div className="font-mono text-sm text-red-900 dark:text-red-100 line-through">
+                          {script.name}
+                        </div>
+                        <div className="mt-1 text-xs text-red-700 dark:text-red-300">
+                          No longer runs
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Aliases & Functions */}
+              {(shellAdded.length > 0 || shellRemoved.length > 0) && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-gray-100 flex items-center gap-2">
+                    <span>⌨️</span>
+                    <span>
+                      Aliases &amp; Functions (+{shellAdded.length} -{shellRemoved.length})
+                    </span>
+                  </h3>
+                  <div className="space-y-2">
+                    {shellAdded.map((definition) => (
+                      <div
+                        key={`${definition.sourcePath}:${definition.line}:${definition.name}`}
+                        className="p-3 bg-green-50 dark:bg-green-950/20 rounded border border-green-200 dark:border-green-900"
+                      >
+                        <div className="font-mono text-sm text-green-900 dark:text-green-100">
+                          {definition.label}
+                        </div>
+                        <div className="mt-1 text-xs text-green-700 dark:text-green-300">
+                          {definition.sourcePath}:{definition.line}
+                          {definition.requiresModule && ` · ${definition.requiresModule}`}
+                        </div>
+                      </div>
+                    ))}
+                    {shellRemoved.map((definition) => (
+                      <div
+                        key={`${definition.sourcePath}:${definition.line}:${definition.name}`}
+                        className="p-3 bg-red-50 dark:bg-red-950/20 rounded border border-red-200 dark:border-red-900"
+                      >
+                        <div className="font-mono text-sm text-red-900 dark:text-red-100 line-through">
+                          {definition.label}
+                        </div>
+                        <div className="mt-1 text-xs text-red-700 dark:text-red-300">
+                          {definition.sourcePath}:{definition.line}
+                          {definition.requiresModule && ` · ${definition.requiresModule}`}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Alias Issues */}
+              {(simulationResult.aliasIssuesAdded.length > 0 || simulationResult.aliasIssuesResolved.length > 0) && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-gray-100 flex items-center gap-2">
+                    <span>⚠️</span>
+                    <span>
+                      Alias Issues (+{simulationResult.aliasIssuesAdded.length} -{simulationResult.aliasIssuesResolved.length})
+                    </span>
+                  </h3>
+                  <div className="space-y-2">
+                    {simulationResult.aliasIssuesAdded.map((issue) => (
+                      <div
+                        key={`${issue.kind}:${issue.name}:${issue.message}`}
+                        className="p-3 bg-yellow-50 dark:bg-yellow-950/20 rounded border border-yellow-200 dark:border-yellow-900"
+                      >
+                        <div className="text-sm text-yellow-900 dark:text-yellow-100">{issue.message}</div>
+                        <div className="mt-1 text-xs text-yellow-700 dark:text-yellow-300">
+                          New in {issue.shells.join(', ')}
+                        </div>
+                      </div>
+                    ))}
+                    {simulationResult.aliasIssuesResolved.map((issue) => (
+                      <div
+                        key={`${issue.kind}:${issue.name}:${issue.message}`}
+                        className="p-3 bg-green-50 dark:bg-green-950/20 rounded border border-green-200 dark:border-green-900"
+                      >
+                        <div className="text-sm text-green-900 dark:text-green-100 line-through">{issue.message}</div>
+                        <div className="mt-1 text-xs text-green-700 dark:text-green-300">Resolved</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* No Changes */}
               {!hasChanges && (
                 <div className="text-center py-12">
@@ -0,0 +1,58 @@
+/**
+ * Attribute Badges Component
+ * Badges for a source entry's target kind and chezmoi attributes
+ */
+
+'use client';
+
+import { SourceAttribute, TargetKind } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const KIND_LABELS: Record<TargetKind, string> = {
+  file: 'file',
+  dir: 'directory',
+  symlink: 'symlink',
+  script: 'script',
+  modify: 'modify',
+  remove: 'remove',
+};
+
+const ATTRIBUTE_STYLES: Partial<Record<SourceAttribute, string>> = {
+  template: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300',
+  executable: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  private: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  encrypted: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  exact: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+};
+
+const DEFAULT_STYLE = 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300';
+const KIND_STYLE = 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300';
+
+interface AttributeBadgesProps {
+  attributes: SourceAttribute[];
+  /** Shown unless it is the default for the entry (file or dir) */
+  kind?: TargetKind;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+export function AttributeBadges({ attributes, kind, size = 'sm', className }: AttributeBadgesProps) {
+  const showKind = kind !== undefined && kind !== 'file' && kind !== 'dir';
+
+  if (!showKind && attributes.length === 0) return null;
+
+  const badge = size === 'sm' ? 'px-1.5 py-0.5 text-xs rounded' : 'px-2 py-1 text-xs rounded';
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {showKind && (
+        <span className={cn(badge, KIND_STYLE)}>{KIND_LABELS[kind]}</span>
+      )}
+      {attributes.map((attribute) => (
+        <span key={attribute} className={cn(badge, ATTRIBUTE_STYLES[attribute] ?? DEFAULT_STYLE)}>
+          {attribute}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * Deployment Trace Component
+ * Explains step by step why a source file is or is not deployed, and which
+ * module option changes would flip that
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DeploymentOutcome, ExplainResponse, IgnorePatternTrace, Platform } from '@/lib/types';
+import { useRepoStore } from '@/lib/store';
+import { buildQuery, cn } from '@/lib/utils';
+import { AttributeBadges } from './AttributeBadges';
+
+const VERDICTS: Record<DeploymentOutcome, string> = {
+  deployed: 'Deployed',
+  script: 'Run as a script',
+  'not-source-state': 'Not part of the source state',
+  ignored: 'Ignored by .chezmoiignore',
+  platform: 'Not deployed on this platform',
+  modules: 'Not deployed with these module settings',
+};
+
+interface DeploymentTraceProps {
+  sourcePath: string;
+  platform: Platform;
+  gitRef: string;
+  className?: string;
+}
+
+export function DeploymentTrace({ sourcePath, platform, gitRef, className }: DeploymentTraceProps) {
+  const repoId = useRepoStore((state) => state.repoId);
+  const [trace, setTrace] = useState<ExplainResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/explain${buildQuery({ path: sourcePath, platform, repo: repoId, ref: gitRef })}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to explain file');
+        }
+        setTrace(data);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        console.error('Error explaining file:', err);
+      });
+  }, [sourcePath, platform, repoId, gitRef]);
+
+  const renderPattern = (pattern: IgnorePatternTrace) => (
+    <tr
+      key={`${pattern.line}:${pattern.pattern}`}
+      className={cn(
+        'border-t border-gray-100 dark:border-gray-800',
+        pattern.matchedPath === null && 'text-gray-400 dark:text-gray-600'
+      )}
+    >
+      <td className="py-1 pr-3 text-right">{pattern.line || ''}</td>
+      <td className={cn('py-1 pr-3', pattern.matchedPath !== null && pattern.active && (pattern.exclude
+        ? 'text-green-700 dark:text-green-400'
+        : 'text-red-600 dark:text-red-400'))}
+      >
+        {pattern.pattern}
+      </td>
+      <td className="py-1 pr-3">
+        {pattern.conditions.length === 0 ? (
+          <span>always</span>
+        ) : (
+          pattern.conditions.map((condition, i) => (
+            <span key={i} className="mr-2">
+              {condition.condition}
+              <span className={condition.value ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                {' '}= {String(condition.value)}
+              </span>
+            </span>
+          ))
+        )}
+      </td>
+      <td className="py-1">{pattern.matchedPath ?? 'no match'}</td>
+    </tr>
+  );
+
+  return (
+    <div className={cn('bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">
+          Why {trace?.deployed === false ? 'Isn’t' : 'Is'} It Deployed?
+        </h3>
+        <span className="font-mono text-xs text-gray-500 dark:text-gray-500">{sourcePath}</span>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : !trace ? (
+        <p className="text-sm text-gray-500">Tracing...</p>
+      ) : (
+        <div className="space-y-4">
+          <ol className="space-y-2">
+            {trace.steps.map((step) => (
+              <li key={step.kind} className="flex gap-3">
+                <span className={cn('font-bold', step.passed ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400')}>
+                  {step.passed ? '✓' : '✗'}
+                </span>
+                <div>
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{step.title}</div>
+                  {step.kind === 'source-name' && (
+                    <AttributeBadges attributes={trace.attributes} kind={trace.targetKind} className="my-1" />
+                  )}
+                  {step.details.map((detail) => (
+                    <div key={detail} className="text-xs font-mono text-gray-600 dark:text-gray-400">{detail}</div>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          {trace.ignorePatterns.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">
+                {trace.ignorePatterns.length} .chezmoiignore patterns tested
+              </summary>
+              <table className="mt-2 w-full font-mono text-xs text-gray-700 dark:text-gray-300">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pr-3 text-right font-normal">line</th>
+                    <th className="pr-3 font-normal">pattern</th>
+                    <th className="pr-3 font-normal">inside</th>
+                    <th className="font-normal">matches</th>
+                  </tr>
+                </thead>
+                <tbody>{trace.ignorePatterns.map(renderPattern)}</tbody>
+              </table>
+            </details>
+          )}
+
+          <div
+            className={cn(
+              'p-3 rounded border',
+              trace.deployed
+                ? 'bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-900'
+                : 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-900'
+            )}
+          >
+            <div className="text-sm font-bold text-gray-900 dark:text-gray-100">{VERDICTS[trace.verdict]}</div>
+            <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+              Deployed when <code className="font-mono">{trace.condition}</code>
+            </div>
+            {trace.flip ? (
+              <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                To {trace.deployed ? 'stop deploying' : 'deploy'} it, set{' '}
+                {trace.flip.map((toggle, i) => (
+                  <span key={toggle.option}>
+                    {i > 0 && ' and '}
+                    <code className="font-mono">{toggle.option}: {String(toggle.value)}</code>
+                  </span>
+                ))}
+              </div>
+            ) : trace.verdict !== 'not-source-state' && (
+              <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                No module settings change this on {trace.platform}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
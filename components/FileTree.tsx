@@ -9,6 +9,7 @@ import { useState } from 'react';
 import { FileMapping } from '@/lib/types';
 import { FileTreeNode } from '@/lib/parsers/FileMapper';
 import { cn } from '@/lib/utils';
+import { AttributeBadges } from './AttributeBadges';
 
 interface FileTreeProps {
   root: FileTreeNode;
@@ -72,6 +73,14 @@ function TreeNode({ node, level, onFileSelect, searchQuery }: TreeNodeProps) {
     ? isExpanded
       ? '📂'
       : '📁'
+    : node.fileInfo?.targetKind === 'symlink'
+    ? '🔗'
+    : node.fileInfo?.targetKind === 'script'
+    ? '📜'
+    : node.fileInfo?.targetKind === 'modify'
+    ? '✏️'
+    : node.fileInfo?.targetKind === 'remove'
+    ? '🗑️'
     : node.fileInfo?.isExecutable
     ? '⚙️'
     : node.fileInfo?.isTemplate
@@ -102,19 +111,15 @@ function TreeNode({ node, level, onFileSelect, searchQuery }: TreeNodeProps) {
           {node.name}
         </span>
 
+        {/* Directory attribute badges */}
+        {isDirectory && node.attributes && (
+          <AttributeBadges attributes={node.attributes} className="ml-2" />
+        )}
+
         {/* File info badges */}
         {isFile && node.fileInfo && (
           <div className="flex gap-1 ml-2">
-            {node.fileInfo.isTemplate && (
-              <span className="px-1.5 py-0.5 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded">
-                template
-              </span>
-            )}
-            {node.fileInfo.isExecutable && (
-              <span className="px-1.5 py-0.5 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded">
-                executable
-              </span>
-            )}
+            <AttributeBadges attributes={node.fileInfo.attributes} kind={node.fileInfo.targetKind} />
             {node.fileInfo.requiredModules.length > 0 && (
               <span className="px-1.5 py-0.5 text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded">
                 {node.fileInfo.requiredModules.join(', ')}
@@ -0,0 +1,95 @@
+/**
+ * Markdown Blocks Component
+ * Renders parsed markdown blocks: headings, paragraphs, lists, code and tables
+ */
+
+import { Fragment, ReactNode } from 'react';
+import { MarkdownBlock } from '@/lib/types';
+
+interface MarkdownBlocksProps {
+  blocks: MarkdownBlock[];
+}
+
+/**
+ * `code`, **bold** and [links](url); anything else stays text
+ */
+function renderInline(text: string): ReactNode[] {
+  return text.split(/(`[^`]+`|\*\*[^*]+\*\*|\[[^\]]*\]\([^)]*\))/g).map((part, i) => {
+    if (/^`[^`]+`$/.test(part)) {
+      return (
+        <code key={i} className="px-1 py-0.5 font-mono text-sm bg-gray-100 dark:bg-gray-800 rounded">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (/^\*\*[^*]+\*\*$/.test(part)) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    const link = /^\[([^\]]*)\]\(([^)]*)\)$/.exec(part);
+    if (link && /^https?:\/\//.test(link[2])) {
+      return (
+        <a key={i} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+          {link[1]}
+        </a>
+      );
+    }
+    return <Fragment key={i}>{link ? link[1] : part}</Fragment>;
+  });
+}
+
+export function MarkdownBlocks({ blocks }: MarkdownBlocksProps) {
+  return (
+    <div className="space-y-4 text-gray-700 dark:text-gray-300">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <h3
+                key={i}
+                className={block.level <= 3 ? 'text-xl font-semibold mt-6' : 'text-lg font-semibold mt-4'}
+              >
+                {renderInline(block.text)}
+              </h3>
+            );
+          case 'paragraph':
+            return <p key={i}>{renderInline(block.text)}</p>;
+          case 'list':
+            return (
+              <ul key={i} className="list-disc pl-6 space-y-1">
+                {block.items.map((item, j) => (
+                  <li key={j}>{renderInline(item)}</li>
+                ))}
+              </ul>
+            );
+          case 'code':
+            return (
+              <pre key={i} className="p-3 font-mono text-sm bg-gray-50 dark:bg-gray-800 rounded overflow-x-auto">
+                {block.text}
+              </pre>
+            );
+          case 'table':
+            return (
+              <table key={i} className="w-full text-sm border border-gray-200 dark:border-gray-800">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    {block.header.map((cell, j) => (
+                      <th key={j} className="px-3 py-2 text-left font-semibold">{renderInline(cell)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, j) => (
+                    <tr key={j} className="border-t border-gray-100 dark:border-gray-800">
+                      {row.map((cell, k) => (
+                        <td key={k} className="px-3 py-2">{renderInline(cell)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            );
+        }
+      })}
+    </div>
+  );
+}
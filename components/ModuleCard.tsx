@@ -5,24 +5,16 @@
 
 'use client';
 
+import Link from 'next/link';
 import { cn } from '@/lib/utils';
-import { MODULE_METADATA } from '@/lib/types';
+import { ModuleMetadata, ModuleSettings } from '@/lib/types';
 
 interface ModuleCardProps {
-  id: string;
-  module: {
-    enabled: boolean;
-    [key: string]: any;
-  };
+  metadata: ModuleMetadata;
+  module: ModuleSettings;
 }
 
-export function ModuleCard({ id, module }: ModuleCardProps) {
-  const metadata = MODULE_METADATA[id];
-
-  if (!metadata) {
-    return null;
-  }
-
+export function ModuleCard({ metadata, module }: ModuleCardProps) {
   const isEnabled = module.enabled;
 
   return (
@@ -37,13 +29,18 @@ export function ModuleCard({ id, module }: ModuleCardProps) {
       <div className="flex items-start justify-between">
         <div className="flex-1">
           <div className="flex items-center gap-3 mb-2">
-            <h3 className="text-lg font-semibold">{metadata.name}</h3>
+            <h3 className="text-lg font-semibold">
+              <Link href={`/modules/${metadata.id}`} className="hover:underline">
+                {metadata.name}
+              </Link>
+            </h3>
             <span
               className={cn(
                 'px-2 py-0.5 rounded text-xs font-medium',
                 metadata.category === 'core' && 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
                 metadata.category === 'application' && 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
-                metadata.category === 'optional' && 'bg-gray-100 text-gray-800 dark:bg-gray-800/30 dark:text-gray-300'
+                metadata.category === 'optional' && 'bg-gray-100 text-gray-800 dark:bg-gray-800/30 dark:text-gray-300',
+                metadata.category === 'uncategorised' && 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300'
               )}
             >
               {metadata.category}
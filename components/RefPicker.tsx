@@ -0,0 +1,76 @@
+/**
+ * Ref Picker Component
+ * Selects the branch, tag or commit of the dotfiles repository to view
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RefsResponse } from '@/lib/types';
+import { useRepoStore } from '@/lib/store';
+import { buildQuery, cn } from '@/lib/utils';
+
+interface RefPickerProps {
+  currentRef: string;
+  onChange: (ref: string) => void;
+  className?: string;
+}
+
+export function RefPicker({ currentRef, onChange, className }: RefPickerProps) {
+  const repoId = useRepoStore((state) => state.repoId);
+  const [refs, setRefs] = useState<RefsResponse | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/refs${buildQuery({ repo: repoId })}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: RefsResponse | null) => setRefs(data))
+      .catch((err) => console.error('Error fetching refs:', err));
+  }, [repoId]);
+
+  const defaultLabel = refs?.defaultRef ? `Default (${refs.defaultRef})` : 'Working copy';
+
+  return (
+    <select
+      value={currentRef}
+      onChange={(e) => onChange(e.target.value)}
+      className={cn(
+        'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg',
+        'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-mono text-sm',
+        'focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+        className
+      )}
+    >
+      <option value="">{defaultLabel}</option>
+
+      {refs && refs.branches.length > 0 && (
+        <optgroup label="Branches">
+          {refs.branches.map((branch) => (
+            <option key={`branch-${branch.name}`} value={branch.name}>
+              {branch.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+
+      {refs && refs.tags.length > 0 && (
+        <optgroup label="Tags">
+          {refs.tags.map((tag) => (
+            <option key={`tag-${tag.name}`} value={tag.name}>
+              {tag.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+
+      {refs && refs.commits.length > 0 && (
+        <optgroup label="Recent Commits">
+          {refs.commits.map((commit) => (
+            <option key={`commit-${commit.sha}`} value={commit.sha}>
+              {commit.name} {commit.message}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+}
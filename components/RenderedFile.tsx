@@ -0,0 +1,127 @@
+/**
+ * Rendered File Component
+ * Shows a file as it would be deployed, highlighting the parts of a
+ * template that could not be rendered faithfully
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Platform, RenderMarker, RenderResponse } from '@/lib/types';
+import { useRepoStore, useSimulationStore } from '@/lib/store';
+import { buildQuery, cn, moduleChangesQuery } from '@/lib/utils';
+import { SimulatedModulesBadge } from './SimulatedModulesBadge';
+import { TemplateDiagnostics } from './TemplateDiagnostics';
+
+interface RenderedFileProps {
+  sourcePath: string;
+  platform: Platform;
+  gitRef: string;
+  className?: string;
+}
+
+export function RenderedFile({ sourcePath, platform, gitRef, className }: RenderedFileProps) {
+  const repoId = useRepoStore((state) => state.repoId);
+  const moduleChanges = useSimulationStore((state) => state.moduleChanges);
+  const [rendered, setRendered] = useState<RenderResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/render${buildQuery({ path: sourcePath, platform, repo: repoId, ref: gitRef, modules: moduleChangesQuery(moduleChanges) })}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to render file');
+        }
+        setRendered(data);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        console.error('Error rendering file:', err);
+      });
+  }, [sourcePath, platform, repoId, gitRef, moduleChanges]);
+
+  return (
+    <div className={cn('bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 p-4', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">
+          {rendered?.isTemplate ? 'Rendered Content' : 'Content'}
+        </h3>
+        <div className="flex items-center gap-2">
+          {rendered?.isTemplate && <SimulatedModulesBadge moduleChanges={moduleChanges} />}
+          {rendered && rendered.markers.length > 0 && (
+            <span className="px-2 py-1 text-xs bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 rounded">
+              {rendered.markers.length} not rendered
+            </span>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : !rendered ? (
+        <p className="text-sm text-gray-500">Rendering...</p>
+      ) : rendered.binary ? (
+        <p className="text-sm text-gray-500">Binary file</p>
+      ) : (
+        <>
+          <TemplateDiagnostics fileName={sourcePath} diagnostics={rendered.diagnostics} className="mb-4" />
+          {rendered.content ? (
+            <pre className="font-mono text-xs text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-800 p-3 rounded overflow-x-auto max-h-[60vh] overflow-y-auto whitespace-pre">
+              <MarkedText text={rendered.content} markers={rendered.markers} />
+            </pre>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {rendered.isTemplate ? 'Renders to an empty file' : 'Empty file'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Text with marked spans highlighted; empty spans show as a badge
+ * The marker message is the tooltip
+ */
+export function MarkedText({ text, markers }: { text: string; markers: RenderMarker[] }) {
+  const sorted = [...markers].sort((a, b) => a.start - b.start || a.end - b.end);
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+
+  sorted.forEach((marker, i) => {
+    // Overlapping markers are shown from where the previous one ended
+    const start = Math.max(marker.start, offset);
+    const end = Math.max(marker.end, start);
+
+    if (start > offset) {
+      parts.push(text.slice(offset, start));
+    }
+
+    parts.push(
+      start === end ? (
+        <span
+          key={i}
+          title={marker.message}
+          className="mx-0.5 px-1 rounded bg-yellow-200 dark:bg-yellow-800 text-yellow-900 dark:text-yellow-100 cursor-help"
+        >
+          ⚠
+        </span>
+      ) : (
+        <mark
+          key={i}
+          title={marker.message}
+          className="rounded bg-yellow-200 dark:bg-yellow-800 text-inherit cursor-help"
+        >
+          {text.slice(start, end)}
+        </mark>
+      )
+    );
+    offset = end;
+  });
+
+  parts.push(text.slice(offset));
+
+  return <>{parts}</>;
+}
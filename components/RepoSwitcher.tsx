@@ -0,0 +1,71 @@
+/**
+ * Repo Switcher Component
+ * Selects which registered dotfiles repository all pages show
+ */
+
+'use client';
+
+import { Fragment, useEffect } from 'react';
+import { ReposResponse } from '@/lib/types';
+import { useRepoStore } from '@/lib/store';
+import { cn } from '@/lib/utils';
+
+interface RepoSwitcherProps {
+  className?: string;
+}
+
+export function RepoSwitcher({ className }: RepoSwitcherProps) {
+  const { repoId, repos, setRepoId, setRepos } = useRepoStore();
+
+  useEffect(() => {
+    fetch('/api/repos')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: ReposResponse | null) => {
+        if (!data) return;
+
+        setRepos(data.repos);
+        // Forget a remembered repository that is no longer registered
+        if (repoId && !data.repos.some(repo => repo.id === repoId)) {
+          setRepoId('');
+        }
+      })
+      .catch((err) => console.error('Error fetching repositories:', err));
+  }, []);
+
+  if (repos.length <= 1) {
+    return repos.length === 1 ? (
+      <span className={cn('text-sm text-gray-600 dark:text-gray-400', className)}>
+        {repos[0].name}
+      </span>
+    ) : null;
+  }
+
+  return (
+    <select
+      value={repoId || repos[0].id}
+      onChange={(e) => setRepoId(e.target.value)}
+      className={cn(
+        'px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm',
+        'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100',
+        'focus:ring-2 focus:ring-blue-500 focus:border-transparent',
+        className
+      )}
+    >
+      {repos.map((repo) => (
+        <option key={repo.id} value={repo.id}>
+          {repo.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Remounts its children when the selected repository changes, so pages
+ * drop refs and selections that belong to the previous repository
+ */
+export function RepoScope({ children }: { children: React.ReactNode }) {
+  const repoId = useRepoStore((state) => state.repoId);
+
+  return <Fragment key={repoId}>{children}</Fragment>;
+}
@@ -0,0 +1,34 @@
+/**
+ * Simulated Modules Badge
+ * Marks content built with the simulator's module selection rather than
+ * the repository's configuration; links back to the simulator
+ */
+
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+
+interface SimulatedModulesBadgeProps {
+  moduleChanges: Record<string, boolean>;
+  className?: string;
+}
+
+export function SimulatedModulesBadge({ moduleChanges, className }: SimulatedModulesBadgeProps) {
+  const changes = Object.entries(moduleChanges);
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Link
+      href="/simulator"
+      title={changes.map(([id, enabled]) => `${id}: ${enabled ? 'on' : 'off'}`).join(', ')}
+      className={cn(
+        'px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded hover:underline',
+        className
+      )}
+    >
+      {changes.length} simulated module {changes.length === 1 ? 'change' : 'changes'}
+    </Link>
+  );
+}
@@ -5,31 +5,48 @@
 
 'use client';
 
-import { ModuleConfiguration, MODULE_METADATA } from '@/lib/types';
+import {
+  ModuleAutoChange,
+  ModuleCategory,
+  ModuleConfiguration,
+  ModuleMetadata,
+  MODULE_CATEGORIES,
+} from '@/lib/types';
 import { cn } from '@/lib/utils';
 
+const CATEGORY_TITLES: Record<ModuleCategory, string> = {
+  core: 'Core Modules',
+  application: 'Application Modules',
+  optional: 'Optional Modules',
+  uncategorised: 'Other Modules',
+};
+
 interface SimulatorPanelProps {
   modules: ModuleConfiguration;
+  /** Discovered modules, in configuration order */
+  metadata: ModuleMetadata[];
   onModuleToggle: (moduleId: string, enabled: boolean) => void;
   isSimulating?: boolean;
+  /** Modules the last simulation enabled or disabled to meet dependencies */
+  autoChanges?: ModuleAutoChange[];
 }
 
-export function SimulatorPanel({ modules, onModuleToggle, isSimulating }: SimulatorPanelProps) {
-  const moduleGroups = {
-    core: ['shell', 'git'],
-    application: ['vscode', 'powershell'],
-    optional: ['start_menu', 'modern_tools', 'smart_search'],
-  };
+export function SimulatorPanel({ modules, metadata: allMetadata, onModuleToggle, isSimulating, autoChanges = [] }: SimulatorPanelProps) {
+  const nameOf = (moduleId: string) => allMetadata.find((m) => m.id === moduleId)?.name || moduleId;
 
-  const renderModuleToggle = (moduleId: string) => {
-    const module = modules[moduleId as keyof ModuleConfiguration];
-    const metadata = MODULE_METADATA[moduleId];
+  const renderModuleToggle = (metadata: ModuleMetadata) => {
+    const moduleId = metadata.id;
+    const module = modules[moduleId];
 
-    if (!module || !metadata) return null;
+    if (!module) return null;
 
-    const isEnabled = typeof module === 'object' && 'enabled' in module
-      ? module.enabled
-      : false;
+    // Show the state the simulation used, automatic changes included
+    const autoChange = autoChanges.find((change) => change.module === moduleId);
+    const isEnabled = autoChange
+      ? autoChange.enabled
+      : typeof module === 'object' && 'enabled' in module
+        ? module.enabled
+        : false;
 
     return (
       <div
@@ -76,6 +93,12 @@ export function SimulatorPanel({ modules, onModuleToggle, isSimulating }: Simula
           {metadata.description}
         </p>
 
+        {autoChange && (
+          <p className="mt-2 text-xs text-blue-700 dark:text-blue-300">
+            🔗 {autoChange.enabled ? 'Enabled' : 'Disabled'} automatically: {autoChange.reason}
+          </p>
+        )}
+
         {metadata.dependencies && metadata.dependencies.length > 0 && (
           <div className="mt-2 flex flex-wrap gap-1">
             <span className="text-xs text-gray-500 dark:text-gray-500">Requires:</span>
@@ -84,7 +107,7 @@ export function SimulatorPanel({ modules, onModuleToggle, isSimulating }: Simula
                 key={dep}
                 className="px-2 py-0.5 text-xs bg-gray-200 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded"
               >
-                {MODULE_METADATA[dep]?.name || dep}
+                {nameOf(dep)}
               </span>
             ))}
           </div>
@@ -111,35 +134,21 @@ export function SimulatorPanel({ modules, onModuleToggle, isSimulating }: Simula
 
   return (
     <div className="space-y-6">
-      {/* Core Modules */}
-      <div>
-        <h3 className="text-lg font-bold mb-3 text-gray-900 dark:text-gray-100">
-          Core Modules
-        </h3>
-        <div className="space-y-3">
-          {moduleGroups.core.map(renderModuleToggle)}
-        </div>
-      </div>
+      {MODULE_CATEGORIES.map((category) => {
+        const group = allMetadata.filter((m) => m.category === category);
+        if (group.length === 0) return null;
 
-      {/* Application Modules */}
-      <div>
-        <h3 className="text-lg font-bold mb-3 text-gray-900 dark:text-gray-100">
-          Application Modules
-        </h3>
-        <div className="space-y-3">
-          {moduleGroups.application.map(renderModuleToggle)}
-        </div>
-      </div>
-
-      {/* Optional Modules */}
-      <div>
-        <h3 className="text-lg font-bold mb-3 text-gray-900 dark:text-gray-100">
-          Optional Modules
-        </h3>
-        <div className="space-y-3">
-          {moduleGroups.optional.map(renderModuleToggle)}
-        </div>
-      </div>
+        return (
+          <div key={category}>
+            <h3 className="text-lg font-bold mb-3 text-gray-900 dark:text-gray-100">
+              {CATEGORY_TITLES[category]}
+            </h3>
+            <div className="space-y-3">
+              {group.map(renderModuleToggle)}
+            </div>
+          </div>
+        );
+      })}
     </div>
   );
 }
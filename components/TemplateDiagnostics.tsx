@@ -0,0 +1,50 @@
+/**
+ * Template Diagnostics Component
+ * Lists template expressions that could not be parsed or evaluated
+ */
+
+'use client';
+
+import { TemplateDiagnostic } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface TemplateDiagnosticsProps {
+  fileName: string;
+  diagnostics: TemplateDiagnostic[];
+  className?: string;
+}
+
+export function TemplateDiagnostics({ fileName, diagnostics, className }: TemplateDiagnosticsProps) {
+  if (diagnostics.length === 0) return null;
+
+  const hasErrors = diagnostics.some(d => d.severity === 'error');
+
+  return (
+    <div
+      className={cn(
+        'p-4 rounded-lg border text-sm',
+        hasErrors
+          ? 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-900'
+          : 'bg-yellow-50 dark:bg-yellow-950/20 border-yellow-200 dark:border-yellow-900',
+        className
+      )}
+    >
+      <div className={cn('font-semibold mb-2', hasErrors ? 'text-red-700 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-400')}>
+        ⚠️ {hasErrors ? `${fileName} has template errors` : `Some conditions in ${fileName} could not be evaluated`}
+      </div>
+      <ul className="space-y-1 font-mono text-xs text-gray-700 dark:text-gray-300">
+        {diagnostics.map((diagnostic) => (
+          <li key={`${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`}>
+            <span className="text-gray-500">{fileName}:{diagnostic.line}:{diagnostic.column}</span>{' '}
+            {diagnostic.message}
+          </li>
+        ))}
+      </ul>
+      {!hasErrors && (
+        <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          These conditions are treated as false.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Webhook Deliveries Component
+ * Shows recent GitHub webhook deliveries received by /api/webhook
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { WebhookDelivery, WebhookLogResponse } from '@/lib/types';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+export function WebhookDeliveries() {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, []);
+
+  const fetchDeliveries = async () => {
+    try {
+      setError(null);
+
+      const response = await fetch('/api/webhook');
+      if (!response.ok) {
+        throw new Error('Failed to fetch webhook deliveries');
+      }
+
+      const data: WebhookLogResponse = await response.json();
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-900/20 rounded-lg border border-gray-200 dark:border-gray-800">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Webhook Deliveries</h2>
+        <button
+          onClick={fetchDeliveries}
+          className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {!error && deliveries.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-500">No deliveries received yet</p>
+      )}
+
+      {deliveries.length > 0 && (
+        <ul className="space-y-2">
+          {deliveries.map((delivery) => (
+            <li key={delivery.id} className="flex items-center gap-3 text-sm">
+              <span
+                className={cn(
+                  'px-2 py-0.5 rounded text-xs font-medium',
+                  delivery.status === 'processed' && 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+                  delivery.status === 'ignored' && 'bg-gray-100 text-gray-800 dark:bg-gray-800/30 dark:text-gray-300',
+                  delivery.status === 'rejected' && 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                )}
+              >
+                {delivery.status}
+              </span>
+              <span className="font-mono text-gray-700 dark:text-gray-300">{delivery.event}</span>
+              {delivery.sha && (
+                <span className="font-mono text-xs text-gray-500 dark:text-gray-500">
+                  {delivery.sha.slice(0, 7)}
+                </span>
+              )}
+              <span className="text-gray-600 dark:text-gray-400 flex-1 truncate">
+                {delivery.message}
+                {delivery.prefetch && ` · pre-fetch ${delivery.prefetch}`}
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-500">
+                {formatRelativeTime(delivery.receivedAt)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
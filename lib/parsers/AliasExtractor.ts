@@ -0,0 +1,297 @@
+/**
+ * Alias Extractor
+ * Extracts alias and function definitions from bash/zsh sources and
+ * templates, with the template condition each one sits under
+ */
+
+import type { AliasCategory } from '../types';
+import { Conditions, type Condition } from './Conditions';
+import { Parser } from './gotemplate/Parser';
+import type { ListNode } from './gotemplate/ast';
+
+/**
+ * An `alias` or a function, as written in a shell source
+ */
+export interface ShellDefinition {
+  /** `variable`: an environment variable set by a PowerShell profile */
+  kind: 'alias' | 'function' | 'variable';
+  name: string;
+  /** Alias or variable value without quotes; function body for functions */
+  command: string;
+  /** The comment right above the definition, or after it on the same line */
+  description?: string;
+  /** Functions: how to call it, from a `Usage:` comment or the parameters */
+  usage?: string;
+  /** Line of the source (1-based) */
+  line: number;
+  /** Conjunction of the enclosing template blocks */
+  condition: Condition;
+}
+
+/**
+ * A line of shell, with template actions left as written
+ */
+export interface ShellLine {
+  text: string;
+  line: number;
+  condition: Condition;
+}
+
+const NAVIGATION = [
+  'cd', 'pushd', 'popd', 'z', 'zi', 'zoxide', 'set-location', 'push-location', 'pop-location', 'sl',
+];
+
+const MODERN_TOOLS = [
+  'bat', 'batcat', 'btm', 'btop', 'delta', 'duf', 'dust', 'eza', 'exa', 'fd', 'fdfind',
+  'fzf', 'hx', 'lazygit', 'lsd', 'nvim', 'procs', 'rg', 'sd', 'starship', 'tldr', 'yazi',
+];
+
+/**
+ * Commands that only prefix the one that matters for the category
+ */
+const PREFIXES = ['builtin', 'command', 'env', 'noglob', 'nocorrect', 'sudo'];
+
+const ALIAS_LINE = /^\s*alias\s+(.*)$/;
+const ALIAS_ASSIGNMENT = /([^\s=;#]+)=('[^']*'|"(?:[^"\\]|\\.)*"|[^\s;#]*)/g;
+const FUNCTION_KEYWORD = /^\s*function\s+([\w.:@+-]+)\s*(?:\(\s*\))?\s*(.*)$/;
+const FUNCTION_POSIX = /^\s*([\w.:@+-]+)\s*\(\s*\)\s*(.*)$/;
+const COMMENT = /^\s*#(?!!)\s?(.*)$/;
+
+export class AliasExtractor {
+  /**
+   * Aliases and functions of a shell source; template blocks are followed
+   * statically, so definitions under every branch are found
+   */
+  static parse(content: string, isTemplate: boolean): ShellDefinition[] {
+    return this.definitions(this.lines(content, isTemplate));
+  }
+
+  /**
+   * Lines of a source, each with the condition of the template blocks
+   * around it; shared with the PowerShell parser
+   */
+  static lines(content: string, isTemplate: boolean): ShellLine[] {
+    return isTemplate ? this.templateLines(content) : this.plainLines(content);
+  }
+
+  /**
+   * Category of an alias from the command it runs; PowerShell cmdlets and
+   * `.exe` names are recognised too
+   */
+  static category(command: string): AliasCategory {
+    const words = command.trim().split(/\s+/);
+    while (words.length > 1 && PREFIXES.includes(words[0])) words.shift();
+    const program = (words[0] ?? '').replace(/^\\/, '').replace(/\.exe$/i, '').toLowerCase();
+
+    if (program === 'git' || program.startsWith('git-')) return 'git';
+    if (program === 'chezmoi') return 'chezmoi';
+    if (NAVIGATION.includes(program) || /^\.\.(\/\.\.)*\/?$/.test(program)) return 'navigation';
+    if (MODERN_TOOLS.includes(program)) return 'modern-tools';
+    return 'shell';
+  }
+
+  private static plainLines(content: string): ShellLine[] {
+    return content.split('\n').map((text, i) => ({ text, line: i + 1, condition: Conditions.TRUE }));
+  }
+
+  private static templateLines(content: string): ShellLine[] {
+    try {
+      const lines: ShellLine[] = [];
+      this.collectLines(Parser.parse(content).root, [], false, lines);
+      return lines;
+    } catch {
+      // A template that does not parse cannot be deployed either, but its
+      // definitions are still worth listing
+      return this.plainLines(content);
+    }
+  }
+
+  /**
+   * Split the template into lines; actions stay inline as written, blocks
+   * start new lines with their test added to the condition. `with` and
+   * `range` rebind the dot, so tests inside them cannot be followed.
+   */
+  private static collectLines(
+    list: ListNode,
+    enclosing: Condition[],
+    rebound: boolean,
+    lines: ShellLine[]
+  ): void {
+    const condition = Conditions.and(...enclosing);
+    let current: ShellLine | null = null;
+
+    const append = (text: string, line: number) => {
+      if (current) {
+        current.text += text;
+      } else {
+        current = { text, line, condition };
+        lines.push(current);
+      }
+    };
+
+    for (const node of list.nodes) {
+      switch (node.type) {
+        case 'text':
+          node.text.split('\n').forEach((text, i) => {
+            if (i > 0) current = null;
+            append(text, node.pos.line + i);
+          });
+          break;
+        case 'action':
+        case 'template':
+          append(node.source, node.pos.line);
+          break;
+        case 'if':
+        case 'with':
+        case 'range': {
+          const test = rebound
+            ? Conditions.unknown(node.pipeline.source)
+            : Conditions.fromPipeline(node.pipeline);
+
+          current = null;
+          this.collectLines(node.list, [...enclosing, test], rebound || node.type !== 'if', lines);
+          if (node.elseList) {
+            this.collectLines(node.elseList, [...enclosing, Conditions.not(test)], rebound, lines);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  private static definitions(lines: ShellLine[]): ShellDefinition[] {
+    const definitions: ShellDefinition[] = [];
+    let comment: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const { text, line, condition } = lines[i];
+      const commentMatch = COMMENT.exec(text);
+
+      if (commentMatch) {
+        comment.push(commentMatch[1].trim());
+        continue;
+      }
+
+      const description = comment.filter(Boolean).join(' ') || undefined;
+      comment = [];
+
+      const alias = ALIAS_LINE.exec(text);
+      if (alias) {
+        definitions.push(...this.aliases(alias[1], line, condition, description));
+        continue;
+      }
+
+      const fn = FUNCTION_KEYWORD.exec(text) ?? FUNCTION_POSIX.exec(text);
+      if (fn && (fn[2] === '' || /^[{(]/.test(fn[2]))) {
+        const body = this.functionBody(fn[2], lines, i);
+        const usage = /usage:\s*(.+)$/i.exec(description ?? '');
+        definitions.push({
+          kind: 'function',
+          name: fn[1],
+          command: body.text,
+          description,
+          usage: usage ? usage[1].trim() : undefined,
+          line,
+          condition,
+        });
+        i = body.end;
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * `alias a='...' b=...`; options such as zsh's `-g` are skipped
+   */
+  private static aliases(
+    rest: string,
+    line: number,
+    condition: Condition,
+    description: string | undefined
+  ): ShellDefinition[] {
+    const definitions: ShellDefinition[] = [];
+    let end = 0;
+
+    for (const match of rest.matchAll(ALIAS_ASSIGNMENT)) {
+      definitions.push({
+        kind: 'alias',
+        name: match[1],
+        command: this.unquote(match[2]),
+        description,
+        line,
+        condition,
+      });
+      end = (match.index ?? 0) + match[0].length;
+    }
+
+    const trailing = /^\s*#\s?(.*)$/.exec(rest.slice(end));
+    if (trailing) {
+      for (const definition of definitions) definition.description = trailing[1].trim();
+    }
+
+    return definitions;
+  }
+
+  /**
+   * The body between the braces (or parentheses) of a function, and the
+   * index of the line it ends on; the opening brace may be on the next line.
+   * Quoted strings, escaped characters and comments do not count.
+   */
+  private static functionBody(rest: string, lines: ShellLine[], start: number): { text: string; end: number } {
+    const body: string[] = [];
+    let open = '';
+    let depth = 0;
+    // The quote being read: ', " or $' (which allows escapes, like ")
+    let quote = '';
+
+    for (let i = start; i < lines.length; i++) {
+      const text = i === start ? rest : lines[i].text;
+
+      if (!open) {
+        const first = text.trim()[0];
+        if (first === undefined) continue;
+        if (first !== '{' && first !== '(') break;
+        open = first;
+      }
+
+      // Only the opening kind counts: `case` patterns leave `)` unmatched
+      const close = open === '{' ? '}' : ')';
+      let end = -1;
+
+      for (let j = 0; j < text.length && end < 0; j++) {
+        const char = text[j];
+
+        if (quote) {
+          if (char === '\\' && quote !== '\'') j++;
+          else if (char === quote[quote.length - 1]) quote = '';
+        } else if (char === '\\') {
+          j++;
+        } else if (char === '\'' || char === '"') {
+          quote = char === '\'' && text[j - 1] === '$' ? '$\'' : char;
+        } else if (char === '#' && (j === 0 || /[\s;]/.test(text[j - 1]))) {
+          break;
+        } else if (char === open) {
+          depth++;
+        } else if (char === close && --depth === 0) {
+          end = j;
+        }
+      }
+
+      body.push(end < 0 ? text : text.slice(0, end));
+
+      if (end >= 0) {
+        return { text: body.join('\n').trim().slice(1).trim(), end: i };
+      }
+    }
+
+    return { text: '', end: start };
+  }
+
+  private static unquote(value: string): string {
+    if (value.length >= 2 && (value[0] === '\'' || value[0] === '"') && value.endsWith(value[0])) {
+      return value.slice(1, -1);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Chezmoi Functions
+ * Template functions chezmoi adds to text/template (its own and the
+ * commonly used sprig ones), for rendering templates in the simulation
+ */
+
+import path from 'path';
+import { Platform } from '../types';
+import { formatValue, isTrue, Stubbed, TemplateFunction, UnknownValue } from './gotemplate/Evaluator';
+
+export interface ChezmoiFunctionContext {
+  platform: Platform;
+  /** Source files loaded ahead of rendering, by path relative to the source directory */
+  files: Map<string, string>;
+}
+
+/**
+ * sprig's string conversion: strings as-is, anything else as %v
+ */
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : formatValue(value);
+}
+
+function asObject(value: unknown, fn: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${fn} expects a dict, got ${formatValue(value)}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Characters repeat and indent may produce, so a huge count cannot exhaust memory
+ */
+const MAX_OUTPUT_LENGTH = 1_000_000;
+
+/**
+ * Repeat text, refusing results longer than MAX_OUTPUT_LENGTH
+ */
+function repeatText(text: string, count: unknown, fn: string): string {
+  const times = Math.max(0, Math.trunc(Number(count)) || 0);
+  if (text.length * times > MAX_OUTPUT_LENGTH) {
+    throw new Error(`${fn} output would exceed ${MAX_OUTPUT_LENGTH} characters`);
+  }
+  return text.repeat(times);
+}
+
+function indentLines(spaces: unknown, text: string, fn: string): string {
+  const lines = text.split('\n');
+  const padding = repeatText(' ', spaces, fn);
+  if (text.length + padding.length * lines.length > MAX_OUTPUT_LENGTH) {
+    throw new Error(`${fn} output would exceed ${MAX_OUTPUT_LENGTH} characters`);
+  }
+  return lines.map(line => padding + line).join('\n');
+}
+
+/**
+ * Functions whose result depends on the machine chezmoi runs on
+ */
+const MACHINE_DEPENDENT = ['env', 'output', 'stat', 'glob', 'hostname', 'isExecutable'];
+
+export class ChezmoiFunctions {
+  /**
+   * Build the function map for one render
+   */
+  static create(context: ChezmoiFunctionContext): Record<string, TemplateFunction> {
+    const pathModule = context.platform === 'windows' ? path.win32 : path.posix;
+
+    const functions: Record<string, TemplateFunction> = {
+      // ----- chezmoi -----
+      include: (file) => {
+        const filePath = str(file).replace(/^\.\//, '');
+        const content = context.files.get(filePath);
+        return content ?? new UnknownValue(`include "${filePath}": file is not available`);
+      },
+      joinPath: (...elements) => pathModule.join(...elements.map(str)),
+      lookPath: (file) => new Stubbed(
+        context.platform === 'windows' ? `C:\\Windows\\System32\\${str(file)}.exe` : `/usr/bin/${str(file)}`,
+        `lookPath "${str(file)}" is stubbed: assuming it is installed`
+      ),
+      comment: (prefix, text) => str(text)
+        .split('\n')
+        .map((line, i, lines) => (i === lines.length - 1 && line === '' ? line : `${str(prefix)}${line}`))
+        .join('\n'),
+      fromJson: (text) => JSON.parse(str(text)),
+      toJson: (value) => JSON.stringify(value),
+
+      // ----- sprig: defaults and logic -----
+      default: (fallback, ...given) => (given.length > 0 && isTrue(given[0]) ? given[0] : fallback),
+      empty: (value) => !isTrue(value),
+      coalesce: (...values) => values.find(isTrue) ?? null,
+      ternary: (whenTrue, whenFalse, condition) => (isTrue(condition) ? whenTrue : whenFalse),
+
+      // ----- sprig: dicts and lists -----
+      hasKey: (dict, key) => Object.hasOwn(asObject(dict, 'hasKey'), str(key)),
+      get: (dict, key) => {
+        const object = asObject(dict, 'get');
+        return Object.hasOwn(object, str(key)) ? object[str(key)] ?? '' : '';
+      },
+      keys: (...dicts) => dicts.flatMap(dict => Object.keys(asObject(dict, 'keys'))),
+      dict: (...pairs) => {
+        const dict: Record<string, unknown> = {};
+        for (let i = 0; i < pairs.length; i += 2) {
+          dict[str(pairs[i])] = pairs[i + 1] ?? '';
+        }
+        return dict;
+      },
+      list: (...items) => items,
+      has: (needle, haystack) => Array.isArray(haystack) && haystack.includes(needle),
+      join: (separator, items) => (Array.isArray(items) ? items.map(str) : [str(items)]).join(str(separator)),
+      splitList: (separator, text) => str(text).split(str(separator)),
+
+      // ----- sprig: strings -----
+      quote: (...values) => values.filter(v => v !== null && v !== undefined).map(v => JSON.stringify(str(v))).join(' '),
+      squote: (...values) => values.filter(v => v !== null && v !== undefined).map(v => `'${str(v)}'`).join(' '),
+      upper: (text) => str(text).toUpperCase(),
+      lower: (text) => str(text).toLowerCase(),
+      title: (text) => str(text).replace(/\b\w/g, c => c.toUpperCase()),
+      trim: (text) => str(text).trim(),
+      trimAll: (cutset, text) => {
+        const chars = new Set(str(cutset));
+        const value = str(text);
+        let start = 0;
+        let end = value.length;
+        while (start < end && chars.has(value[start])) start++;
+        while (end > start && chars.has(value[end - 1])) end--;
+        return value.slice(start, end);
+      },
+      trimPrefix: (prefix, text) => (str(text).startsWith(str(prefix)) ? str(text).slice(str(prefix).length) : str(text)),
+      trimSuffix: (suffix, text) => (str(suffix) && str(text).endsWith(str(suffix)) ? str(text).slice(0, -str(suffix).length) : str(text)),
+      replace: (search, replacement, text) => str(text).split(str(search)).join(str(replacement)),
+      contains: (substring, text) => str(text).includes(str(substring)),
+      hasPrefix: (prefix, text) => str(text).startsWith(str(prefix)),
+      hasSuffix: (suffix, text) => str(text).endsWith(str(suffix)),
+      repeat: (count, text) => repeatText(str(text), count, 'repeat'),
+      indent: (spaces, text) => indentLines(spaces, str(text), 'indent'),
+      nindent: (spaces, text) => `\n${indentLines(spaces, str(text), 'nindent')}`,
+      toString: (value: unknown) => str(value),
+    };
+
+    for (const name of MACHINE_DEPENDENT) {
+      functions[name] = () => new UnknownValue(`${name} depends on the target machine`);
+    }
+
+    return functions;
+  }
+}
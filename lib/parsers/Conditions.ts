@@ -0,0 +1,350 @@
+/**
+ * Conditions
+ * Boolean conditions over the platform and template data, built from Go
+ * template pipelines by static analysis, e.g. `shell.enabled && os != windows`
+ */
+
+import type { CommandNode, OperandNode, PipelineNode } from './gotemplate/ast';
+import type { Platform } from '../types';
+
+export type Condition =
+  | { type: 'const'; value: boolean }
+  /** `.chezmoi.os` is this platform */
+  | { type: 'os'; platform: Platform }
+  /** A template data value is truthy, e.g. `modules.shell.enabled` */
+  | { type: 'data'; path: string }
+  /** An expression static analysis cannot follow; evaluates to false like in the renderer */
+  | { type: 'unknown'; source: string }
+  | { type: 'not'; operand: Condition }
+  | { type: 'and' | 'or'; operands: Condition[] };
+
+const PLATFORMS: Platform[] = ['linux', 'darwin', 'windows'];
+
+const TRUE: Condition = { type: 'const', value: true };
+const FALSE: Condition = { type: 'const', value: false };
+
+export class Conditions {
+  static readonly TRUE = TRUE;
+  static readonly FALSE = FALSE;
+
+  static os(platform: Platform): Condition {
+    return { type: 'os', platform };
+  }
+
+  static data(path: string): Condition {
+    return { type: 'data', path };
+  }
+
+  static unknown(source: string): Condition {
+    return { type: 'unknown', source };
+  }
+
+  static not(operand: Condition): Condition {
+    if (operand.type === 'const') return operand.value ? FALSE : TRUE;
+    if (operand.type === 'not') return operand.operand;
+    return { type: 'not', operand };
+  }
+
+  /**
+   * Conjunction, flattened and folded: constants, duplicates, `x && !x` and
+   * contradicting platforms are simplified away
+   */
+  static and(...operands: Condition[]): Condition {
+    const terms = this.flatten('and', operands);
+    if (terms.some(term => term.type === 'const' && !term.value)) return FALSE;
+
+    let unique = this.dedupe(terms.filter(term => term.type !== 'const'));
+    if (this.hasComplement(unique)) return FALSE;
+
+    const platforms = new Set(unique.filter(term => term.type === 'os').map(term => term.platform));
+    if (platforms.size > 1) return FALSE;
+
+    if (platforms.size === 1) {
+      const [platform] = platforms;
+      // `os == linux` makes every `os != x` redundant
+      unique = unique.filter(term => !(term.type === 'not' && term.operand.type === 'os' && term.operand.platform !== platform));
+    }
+
+    if (unique.length === 0) return TRUE;
+    if (unique.length === 1) return unique[0];
+    return { type: 'and', operands: unique };
+  }
+
+  /**
+   * Disjunction, flattened and folded like and()
+   */
+  static or(...operands: Condition[]): Condition {
+    const terms = this.flatten('or', operands);
+    if (terms.some(term => term.type === 'const' && term.value)) return TRUE;
+
+    const unique = this.dedupe(terms.filter(term => term.type !== 'const'));
+    if (this.hasComplement(unique)) return TRUE;
+
+    if (unique.length === 0) return FALSE;
+    if (unique.length === 1) return unique[0];
+    return { type: 'or', operands: unique };
+  }
+
+  /**
+   * Translate an `if` pipeline; whatever is not understood becomes unknown
+   * Understood: data fields, `.chezmoi.os` comparisons with eq/ne,
+   * not/and/or, literals and parentheses
+   */
+  static fromPipeline(pipeline: PipelineNode): Condition {
+    if (pipeline.declarations.length > 0 || pipeline.commands.length !== 1) {
+      return this.unknown(pipeline.source);
+    }
+
+    return this.fromCommand(pipeline.commands[0]) ?? this.unknown(pipeline.source);
+  }
+
+  /**
+   * Evaluate with the platform and template data (config.data)
+   */
+  static evaluate(condition: Condition, platform: Platform, data: Record<string, unknown>): boolean {
+    switch (condition.type) {
+      case 'const':
+        return condition.value;
+      case 'os':
+        return condition.platform === platform;
+      case 'data':
+        return this.truthy(this.lookup(data, condition.path));
+      case 'unknown':
+        return false;
+      case 'not':
+        return !this.evaluate(condition.operand, platform, data);
+      case 'and':
+        return condition.operands.every(operand => this.evaluate(operand, platform, data));
+      case 'or':
+        return condition.operands.some(operand => this.evaluate(operand, platform, data));
+    }
+  }
+
+  /**
+   * Replace every `.chezmoi.os` test with its value on a platform
+   */
+  static onPlatform(condition: Condition, platform: Platform): Condition {
+    return this.replace(condition, atom =>
+      atom.type === 'os' ? (atom.platform === platform ? TRUE : FALSE) : atom
+    );
+  }
+
+  /**
+   * Platforms on which the condition can hold
+   */
+  static platforms(condition: Condition): Platform[] {
+    return PLATFORMS.filter(platform => !this.isFalse(this.onPlatform(condition, platform)));
+  }
+
+  /**
+   * Modules the condition cannot hold without: turning off every
+   * `modules.<name>.*` value makes it false
+   */
+  static requiredModules(condition: Condition): string[] {
+    const modules = new Set<string>();
+    for (const atom of this.atoms(condition)) {
+      const match = atom.type === 'data' ? /^modules\.([^.]+)\./.exec(atom.path) : null;
+      if (match) modules.add(match[1]);
+    }
+
+    return [...modules].filter(module => this.isFalse(this.replace(condition, atom =>
+      atom.type === 'data' && atom.path.startsWith(`modules.${module}.`) ? FALSE : atom
+    )));
+  }
+
+  /**
+   * The distinct os, data and unknown tests a condition is made of
+   */
+  static atoms(condition: Condition): Condition[] {
+    const atoms = new Map<string, Condition>();
+    this.replace(condition, atom => {
+      if (atom.type !== 'const') atoms.set(this.format(atom), atom);
+      return atom;
+    });
+    return [...atoms.values()];
+  }
+
+  static isTrue(condition: Condition): boolean {
+    return condition.type === 'const' && condition.value;
+  }
+
+  static isFalse(condition: Condition): boolean {
+    return condition.type === 'const' && !condition.value;
+  }
+
+  /**
+   * Readable form; the platform part is factored out when the rest is the
+   * same on every platform, e.g. `shell.enabled && os != windows`
+   */
+  static describe(condition: Condition): string {
+    const platforms = this.platforms(condition);
+    if (platforms.length === 0) return 'never';
+
+    const rests = platforms.map(platform => this.onPlatform(condition, platform));
+    const rest = this.format(rests[0], 'and');
+    if (!rests.every(other => this.format(other, 'and') === rest)) {
+      return this.format(condition);
+    }
+
+    if (platforms.length === PLATFORMS.length) {
+      return this.isTrue(rests[0]) ? 'always' : this.format(rests[0]);
+    }
+
+    const parts = this.isTrue(rests[0]) ? [] : [rest];
+    if (platforms.length === 1) {
+      parts.push(`os == ${platforms[0]}`);
+    } else {
+      parts.push(...PLATFORMS.filter(p => !platforms.includes(p)).map(p => `os != ${p}`));
+    }
+
+    return parts.join(' && ');
+  }
+
+  /**
+   * Format with `&&`, `||` and `!`; `modules.` is left out of data paths
+   */
+  static format(condition: Condition, context: 'and' | 'or' | 'top' = 'top'): string {
+    switch (condition.type) {
+      case 'const':
+        return condition.value ? 'true' : 'false';
+      case 'os':
+        return `os == ${condition.platform}`;
+      case 'data':
+        return condition.path.replace(/^modules\./, '');
+      case 'unknown':
+        return `[${condition.source}]`;
+      case 'not': {
+        const { operand } = condition;
+        if (operand.type === 'os') return `os != ${operand.platform}`;
+        if (operand.type === 'data' || operand.type === 'unknown') return `!${this.format(operand)}`;
+        return `!(${this.format(operand)})`;
+      }
+      case 'and':
+      case 'or': {
+        const text = condition.operands
+          .map(operand => this.format(operand, condition.type))
+          .join(condition.type === 'and' ? ' && ' : ' || ');
+        return context !== 'top' && context !== condition.type ? `(${text})` : text;
+      }
+    }
+  }
+
+  private static fromCommand(command: CommandNode): Condition | null {
+    const [head, ...args] = command.args;
+
+    if (head.type !== 'identifier') {
+      return args.length === 0 ? this.fromOperand(head) : null;
+    }
+
+    const operands = args.map(arg => this.fromOperand(arg));
+    const known = operands.every((operand): operand is Condition => operand !== null);
+
+    switch (head.name) {
+      case 'not':
+        return known && operands.length === 1 ? this.not(operands[0]) : null;
+      case 'and':
+        return known && operands.length > 0 ? this.and(...operands) : null;
+      case 'or':
+        return known && operands.length > 0 ? this.or(...operands) : null;
+      case 'eq':
+        return this.compareOs(args);
+      case 'ne': {
+        const equal = this.compareOs(args);
+        return equal && args.length === 2 ? this.not(equal) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static fromOperand(operand: OperandNode): Condition | null {
+    switch (operand.type) {
+      case 'field':
+        if (operand.path[0] === 'chezmoi') {
+          // .chezmoi.os is never empty; other .chezmoi values depend on the machine
+          return operand.path.length === 2 && operand.path[1] === 'os'
+            ? TRUE
+            : this.unknown(`.${operand.path.join('.')}`);
+        }
+        return this.data(operand.path.join('.'));
+      case 'bool':
+        return operand.value ? TRUE : FALSE;
+      case 'string':
+        return operand.value !== '' ? TRUE : FALSE;
+      case 'subpipeline':
+        return operand.path.length === 0 ? this.fromPipeline(operand.pipeline) : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * `eq .chezmoi.os "a" "b"`: the platform is any of the strings
+   */
+  private static compareOs(args: OperandNode[]): Condition | null {
+    if (args.length < 2) return null;
+
+    const isOs = (arg: OperandNode) => arg.type === 'field' && arg.path.join('.') === 'chezmoi.os';
+    const [first, ...rest] = args;
+    const values = isOs(first) ? rest : isOs(rest[0]) && args.length === 2 ? [first] : null;
+
+    if (!values || !values.every(value => value.type === 'string')) {
+      return null;
+    }
+
+    return this.or(...values.map(value => {
+      const name = value.type === 'string' ? value.value : '';
+      return (PLATFORMS as string[]).includes(name) ? this.os(name as Platform) : FALSE;
+    }));
+  }
+
+  private static replace(condition: Condition, atom: (condition: Condition) => Condition): Condition {
+    switch (condition.type) {
+      case 'not':
+        return this.not(this.replace(condition.operand, atom));
+      case 'and':
+        return this.and(...condition.operands.map(operand => this.replace(operand, atom)));
+      case 'or':
+        return this.or(...condition.operands.map(operand => this.replace(operand, atom)));
+      default:
+        return atom(condition);
+    }
+  }
+
+  private static flatten(type: 'and' | 'or', operands: Condition[]): Condition[] {
+    return operands.flatMap(operand => (operand.type === type ? operand.operands : [operand]));
+  }
+
+  private static dedupe(terms: Condition[]): Condition[] {
+    const seen = new Set<string>();
+    return terms.filter(term => {
+      const key = this.format(term);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private static hasComplement(terms: Condition[]): boolean {
+    const keys = new Set(terms.map(term => this.format(term)));
+    return terms.some(term => term.type === 'not' && keys.has(this.format(term.operand)));
+  }
+
+  private static lookup(data: Record<string, unknown>, path: string): unknown {
+    let value: unknown = data;
+    for (const key of path.split('.')) {
+      if (value === null || typeof value !== 'object') return undefined;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  /**
+   * Go template truthiness
+   */
+  private static truthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value !== null && typeof value === 'object') return Object.keys(value).length > 0;
+    return Boolean(value);
+  }
+}
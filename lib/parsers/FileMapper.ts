@@ -3,152 +3,162 @@
  * Maps chezmoi source files to their deployed paths
  */
 
-import { FileMapping, Platform } from '../types';
+import { FileMapping, Platform, SourceAttribute, TargetKind } from '../types';
+import { IgnoreParser } from './IgnoreParser';
+
+/**
+ * Attribute prefixes each kind of source name may carry after its kind
+ * prefix, in the order chezmoi requires; alternatives share a slot
+ */
+const PREFIX_SLOTS: Record<'file' | 'create' | 'modify' | 'script' | 'dir', SourceAttribute[][]> = {
+  file: [['encrypted'], ['private'], ['readonly'], ['empty'], ['executable']],
+  create: [['encrypted'], ['private'], ['readonly'], ['empty'], ['executable']],
+  modify: [['encrypted'], ['private'], ['readonly'], ['executable']],
+  script: [['once', 'onchange'], ['before', 'after']],
+  dir: [['external'], ['exact'], ['private'], ['readonly']],
+};
+
+/**
+ * Suffixes of encrypted files, stripped from the target name
+ */
+const ENCRYPTED_SUFFIXES = ['.age', '.asc'];
+
+/**
+ * A source file or directory name decoded into its target name
+ */
+export interface ParsedSourceName {
+  name: string;
+  kind: TargetKind;
+  attributes: SourceAttribute[];
+}
 
 export class FileMapper {
   /**
    * Map a single source file to its deployment information
    */
   static mapFile(sourcePath: string): Partial<FileMapping> {
-    let deployPath = sourcePath;
-    let isExecutable = false;
-    let isTemplate = false;
-
-    // Get the filename from the path
-    const pathParts = sourcePath.split('/');
-    let filename = pathParts[pathParts.length - 1];
-    const dirPath = pathParts.slice(0, -1);
-
-    // Handle executable_ prefix
-    if (filename.startsWith('executable_')) {
-      isExecutable = true;
-      filename = filename.replace(/^executable_/, '');
-    }
+    const parts = sourcePath.split('/');
+    const file = this.parseSourceName(parts[parts.length - 1]);
+    let dirParts = parts.slice(0, -1);
 
-    // Handle .tmpl suffix
-    if (filename.endsWith('.tmpl')) {
-      isTemplate = true;
-      filename = filename.replace(/\.tmpl$/, '');
+    // Scripts in .chezmoiscripts/ run as if they were at the top level
+    if (file.kind === 'script' && dirParts[0] === '.chezmoiscripts') {
+      dirParts = dirParts.slice(1);
     }
 
-    // Reconstruct the path with modified filename
-    const modifiedPath = [...dirPath, filename].join('/');
-
-    // Handle dot_ prefix in directory names and filename
-    deployPath = modifiedPath
-      .split('/')
-      .map(part => part.replace(/^dot_/, '.'))
-      .join('/');
-
-    // Prepend home directory for root-level files
-    if (!deployPath.startsWith('/') && !deployPath.startsWith('.')) {
-      deployPath = `~/${deployPath}`;
-    } else if (deployPath.startsWith('.')) {
-      deployPath = `~/${deployPath}`;
-    }
+    const dirNames = dirParts.map(part => this.parseSourceName(part, true).name);
 
     return {
       sourcePath,
-      deployPath,
-      isTemplate,
-      isExecutable,
+      deployPath: `~/${[...dirNames, file.name].join('/')}`,
+      targetKind: file.kind,
+      attributes: file.attributes,
+      isTemplate: file.attributes.includes('template'),
+      isExecutable: file.attributes.includes('executable'),
     };
   }
 
   /**
-   * Infer which modules are required for a file
+   * Decode the attributes of one source name, following chezmoi's grammar:
+   * a kind prefix (create_, modify_, remove_, run_, symlink_), attribute
+   * prefixes in a fixed order, dot_, then .tmpl (and .age/.asc when
+   * encrypted). literal_ and .literal stop attribute parsing.
+   * Prefixes out of order are part of the name, as in chezmoi.
    */
-  static inferModules(sourcePath: string): string[] {
-    const modules: string[] = [];
-
-    // Check path patterns
-    if (sourcePath.includes('shell/') || sourcePath.includes('dot_bashrc') || sourcePath.includes('dot_zshrc')) {
-      modules.push('shell');
-    }
+  static parseSourceName(sourceName: string, isDirectory: boolean = false): ParsedSourceName {
+    let name = sourceName;
+    let kind: TargetKind = isDirectory ? 'dir' : 'file';
+    let literal = false;
+    const attributes: SourceAttribute[] = [];
+
+    const take = (prefix: string): boolean => {
+      if (!name.startsWith(prefix)) return false;
+      name = name.slice(prefix.length);
+      return true;
+    };
+    const takeLiteral = (): boolean => {
+      if (literal || !take('literal_')) return literal;
+      attributes.push('literal');
+      literal = true;
+      return true;
+    };
 
-    if (sourcePath.includes('Code/User/')) {
-      modules.push('vscode');
+    // Kind prefix
+    let slots = PREFIX_SLOTS.file;
+    if (takeLiteral()) {
+      slots = [];
+    } else if (isDirectory) {
+      kind = take('remove_') ? 'remove' : 'dir';
+      slots = kind === 'remove' ? [] : PREFIX_SLOTS.dir;
+    } else if (take('create_')) {
+      attributes.push('create');
+      slots = PREFIX_SLOTS.create;
+    } else if (take('modify_')) {
+      kind = 'modify';
+      slots = PREFIX_SLOTS.modify;
+    } else if (take('remove_')) {
+      kind = 'remove';
+      slots = [];
+    } else if (take('run_')) {
+      kind = 'script';
+      slots = PREFIX_SLOTS.script;
+    } else if (take('symlink_')) {
+      kind = 'symlink';
+      slots = [];
     }
 
-    if (sourcePath.includes('PowerShell/')) {
-      modules.push('powershell');
-    }
+    // Attribute prefixes, each at most once and in order
+    for (const slot of slots) {
+      if (takeLiteral()) break;
 
-    if (sourcePath.includes('start_menu')) {
-      modules.push('start_menu');
+      const attribute = slot.find(candidate => name.startsWith(`${candidate}_`));
+      if (attribute) {
+        take(`${attribute}_`);
+        attributes.push(attribute);
+      }
     }
 
-    if (sourcePath.includes('gitconfig')) {
-      modules.push('git');
+    // Scripts are not targets, so they have no dot_
+    if (!takeLiteral() && kind !== 'script' && take('dot_')) {
+      name = `.${name}`;
     }
 
-    if (sourcePath.includes('smart-search') || sourcePath.includes('smart_search')) {
-      modules.push('smart_search');
+    if (isDirectory) {
+      return { name, kind, attributes };
     }
 
-    // If no specific module found, might be a general file
-    return modules;
-  }
-
-  /**
-   * Infer which platforms support this file
-   */
-  static inferPlatforms(sourcePath: string): Platform[] {
-    // PowerShell = Windows only
-    if (sourcePath.includes('PowerShell/')) {
-      return ['windows'];
-    }
-
-    // Most shell configs = Unix-like
-    if (sourcePath.includes('dot_bashrc') || sourcePath.includes('dot_zshrc')) {
-      return ['linux', 'darwin'];
-    }
-
-    // VS Code paths differ between platforms
-    if (sourcePath.includes('Code/User/')) {
-      // On Windows it's in AppData, but the config is the same
-      return ['linux', 'darwin', 'windows'];
-    }
+    // Suffixes
+    if (name.endsWith('.literal')) {
+      name = name.slice(0, -'.literal'.length);
+    } else {
+      if (attributes.includes('encrypted')) {
+        const suffix = ENCRYPTED_SUFFIXES.find(candidate => name.endsWith(candidate));
+        if (suffix) {
+          name = name.slice(0, -suffix.length);
+        }
+      }
 
-    // Scripts in bin/ are typically Unix
-    if (sourcePath.includes('bin/executable_') || sourcePath.includes('scripts/')) {
-      return ['linux', 'darwin'];
+      if (kind !== 'remove' && name.endsWith('.tmpl')) {
+        name = name.slice(0, -'.tmpl'.length);
+        attributes.push('template');
+      }
     }
 
-    // Default: all platforms
-    return ['linux', 'darwin', 'windows'];
+    return { name, kind, attributes };
   }
 
   /**
    * Check if a path should be ignored based on patterns
+   * @deprecated Use IgnoreParser.shouldIgnore, which this delegates to
    */
   static shouldIgnore(path: string, patterns: string[]): boolean {
-    return patterns.some(pattern => {
-      // Convert glob pattern to regex
-      // ** matches anything including /
-      // * matches anything except /
-      let regexPattern = pattern
-        .replace(/\*\*/g, '___DOUBLESTAR___')
-        .replace(/\*/g, '[^/]*')
-        .replace(/___DOUBLESTAR___/g, '.*')
-        .replace(/\?/g, '.')
-        .replace(/\./g, '\\.');
-
-      // Anchor the pattern
-      regexPattern = `^${regexPattern}$`;
-
-      try {
-        const regex = new RegExp(regexPattern);
-        return regex.test(path);
-      } catch (e) {
-        console.warn(`Invalid ignore pattern: ${pattern}`);
-        return false;
-      }
-    });
+    return IgnoreParser.shouldIgnore(path, patterns);
   }
 
   /**
    * Build complete FileMapping from source file
+   * Requirements come from RequirementAnalyzer; without them the file needs
+   * no module and applies to every platform
    */
   static buildFileMapping(
     sourcePath: string,
@@ -160,10 +170,12 @@ export class FileMapper {
     return {
       sourcePath,
       deployPath: baseMapping.deployPath || '',
+      targetKind: baseMapping.targetKind || 'file',
+      attributes: baseMapping.attributes || [],
       isTemplate: baseMapping.isTemplate || false,
       isExecutable: baseMapping.isExecutable || false,
-      requiredModules: requiredModules || this.inferModules(sourcePath),
-      platforms: platforms || this.inferPlatforms(sourcePath),
+      requiredModules: requiredModules || [],
+      platforms: platforms || ['linux', 'darwin', 'windows'],
     };
   }
 
@@ -182,6 +194,8 @@ export class FileMapper {
       // Remove leading ~/ from path
       const relativePath = file.deployPath.replace(/^~\//, '');
       const parts = relativePath.split('/');
+      // Source directory names carry the directory attributes (exact_, private_, ...)
+      const sourceParts = file.sourcePath.split('/');
 
       let currentNode = root;
 
@@ -200,6 +214,9 @@ export class FileMapper {
             type: isLastPart ? 'file' : 'directory',
             children: isLastPart ? undefined : [],
             fileInfo: isLastPart ? file : undefined,
+            attributes: isLastPart
+              ? undefined
+              : this.parseSourceName(sourceParts[i] ?? part, true).attributes,
           };
 
           if (!currentNode.children) {
@@ -225,4 +242,6 @@ export interface FileTreeNode {
   type: 'file' | 'directory';
   children?: FileTreeNode[];
   fileInfo?: FileMapping;
+  /** Directory attributes, from the first source directory seen for this node */
+  attributes?: SourceAttribute[];
 }
@@ -0,0 +1,191 @@
+/**
+ * Glob
+ * Path glob matching compatible with doublestar, the library chezmoi uses:
+ * `*`, `?`, `[...]` and `{a,b}` stay within a path segment, `**` as a whole
+ * segment matches any number of directories, `\` escapes
+ */
+
+/**
+ * Compiled patterns, shared across requests
+ */
+const compiled = new Map<string, RegExp>();
+
+const MAX_CACHED_PATTERNS = 1000;
+
+function escapeRegExp(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Escape a literal member of a character class, `-` included
+ */
+function escapeClassMember(char: string): string {
+  return char.replace(/[\]\\^-]/g, '\\$&');
+}
+
+export class Glob {
+  /**
+   * Whether a slash-separated path matches a pattern
+   * @throws Error for malformed patterns
+   */
+  static match(pattern: string, path: string): boolean {
+    return this.compile(pattern).test(path);
+  }
+
+  /**
+   * Check a pattern without matching anything
+   * Returns the problem, or null when the pattern is valid
+   */
+  static validate(pattern: string): string | null {
+    try {
+      this.compile(pattern);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Translate a pattern to an anchored regular expression
+   * @throws Error for malformed patterns
+   */
+  static compile(pattern: string): RegExp {
+    const cached = compiled.get(pattern);
+    if (cached) return cached;
+
+    const regex = new RegExp(`^${this.translate(pattern)}$`);
+
+    if (compiled.size >= MAX_CACHED_PATTERNS) {
+      compiled.clear();
+    }
+    compiled.set(pattern, regex);
+
+    return regex;
+  }
+
+  private static translate(pattern: string): string {
+    let regex = '';
+    let braceDepth = 0;
+    let i = 0;
+
+    while (i < pattern.length) {
+      const char = pattern[i];
+
+      if (char === '*' && pattern[i + 1] === '*') {
+        const segmentStart = i === 0 || pattern[i - 1] === '/';
+        const segmentEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+
+        if (segmentStart && segmentEnd) {
+          if (i + 2 === pattern.length) {
+            // Trailing **: everything below (and, alone, everything)
+            regex += '.*';
+            i += 2;
+          } else {
+            // **/: zero or more directories
+            regex += '(?:[^/]+/)*';
+            i += 3;
+          }
+          continue;
+        }
+
+        // ** inside a segment is just *
+        regex += '[^/]*';
+        i += 2;
+        continue;
+      }
+
+      switch (char) {
+        case '*':
+          regex += '[^/]*';
+          break;
+        case '?':
+          regex += '[^/]';
+          break;
+        case '\\':
+          if (i + 1 >= pattern.length) {
+            throw new Error(`bad pattern ${pattern}: trailing backslash`);
+          }
+          regex += escapeRegExp(pattern[++i]);
+          break;
+        case '[': {
+          const end = this.findClassEnd(pattern, i);
+          if (end === -1) {
+            throw new Error(`bad pattern ${pattern}: unclosed [`);
+          }
+          regex += this.translateClass(pattern.slice(i + 1, end));
+          i = end;
+          break;
+        }
+        case '{':
+          braceDepth++;
+          regex += '(?:';
+          break;
+        case '}':
+          if (braceDepth === 0) {
+            regex += '\\}';
+          } else {
+            braceDepth--;
+            regex += ')';
+          }
+          break;
+        case ',':
+          regex += braceDepth > 0 ? '|' : ',';
+          break;
+        default:
+          regex += escapeRegExp(char);
+      }
+
+      i++;
+    }
+
+    if (braceDepth > 0) {
+      throw new Error(`bad pattern ${pattern}: unclosed {`);
+    }
+
+    return regex;
+  }
+
+  /**
+   * Index of the `]` closing the class opened at `start`, or -1
+   * A `]` right after `[`, `[!` or `[^` is part of the class
+   */
+  private static findClassEnd(pattern: string, start: number): number {
+    let i = start + 1;
+    if (pattern[i] === '!' || pattern[i] === '^') i++;
+    if (pattern[i] === ']') i++;
+
+    for (; i < pattern.length; i++) {
+      if (pattern[i] === '\\') {
+        i++;
+      } else if (pattern[i] === ']') {
+        return i;
+      }
+    }
+
+    return -1;
+  }
+
+  private static translateClass(body: string): string {
+    let negated = false;
+    let rest = body;
+
+    if (rest.startsWith('!') || rest.startsWith('^')) {
+      negated = true;
+      rest = rest.slice(1);
+    }
+
+    let members = '';
+    for (let i = 0; i < rest.length; i++) {
+      if (rest[i] === '\\' && i + 1 < rest.length) {
+        members += escapeClassMember(rest[++i]);
+      } else if (rest[i] === '-' && i > 0 && i < rest.length - 1) {
+        members += '-';
+      } else {
+        members += escapeClassMember(rest[i]);
+      }
+    }
+
+    // Classes never match the separator
+    return negated ? `[^/${members}]` : `(?!/)[${members}]`;
+  }
+}
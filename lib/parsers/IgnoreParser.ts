@@ -1,9 +1,52 @@
 /**
  * Ignore Parser
  * Parses .chezmoiignore file with Go template conditionals
+ *
+ * Patterns are anchored at the target directory, as in chezmoi: `*.txt`
+ * ignores `a.txt` but not `dir/a.txt`, which needs a leading `**` segment.
+ * There is no gitignore-style basename matching.
  */
 
-import { DotfilesConfig, Platform } from '../types';
+import { DotfilesConfig, IgnoreMatch, Platform, TemplateDiagnostic } from '../types';
+import { TemplateParser } from './TemplateParser';
+import { ChezmoiFunctions } from './ChezmoiFunctions';
+import { Glob } from './Glob';
+import { Conditions, type Condition } from './Conditions';
+import { Parser } from './gotemplate/Parser';
+import type { ListNode } from './gotemplate/ast';
+
+/**
+ * One pattern line of .chezmoiignore
+ */
+export interface IgnoreRule {
+  /** The pattern as written */
+  pattern: string;
+  /** `!pattern`: what it matches is never ignored, whatever other rules say */
+  exclude: boolean;
+  /** `pattern/`: only matches directories */
+  directoryOnly: boolean;
+  /** The glob without `!` and the trailing slash */
+  glob: string;
+  /** Line of .chezmoiignore (0 when unknown) */
+  line: number;
+}
+
+/**
+ * A rule together with the template condition under which it is emitted
+ */
+export interface ConditionalIgnoreRule {
+  rule: IgnoreRule;
+  /** The conjunction of `enclosing` */
+  condition: Condition;
+  /** Tests of the enclosing blocks, outermost first (negated in else branches) */
+  enclosing: Condition[];
+}
+
+export interface IgnoreParseResult {
+  patterns: string[];
+  rules: IgnoreRule[];
+  diagnostics: TemplateDiagnostic[];
+}
 
 export class IgnoreParser {
   /**
@@ -15,192 +58,219 @@ export class IgnoreParser {
     config: DotfilesConfig,
     platform: Platform
   ): string[] {
-    const lines = ignoreContent.split('\n');
-    const patterns: string[] = [];
+    return this.parseWithDiagnostics(ignoreContent, config, platform).patterns;
+  }
 
-    // State stack for nested conditionals
-    const conditionStack: boolean[] = [true]; // Start with "include" state
+  /**
+   * Parse .chezmoiignore and report template expressions that could not be
+   * evaluated and patterns that are not valid globs
+   *
+   * Like chezmoi, the whole file is executed as a template first and the
+   * output is read as patterns. Conditions that cannot be evaluated count
+   * as false. If the template does not parse, lines outside actions are used.
+   */
+  static parseWithDiagnostics(
+    ignoreContent: string,
+    config: DotfilesConfig,
+    platform: Platform
+  ): IgnoreParseResult {
+    // No source files are loaded here, so include() is unknown
+    const functions = ChezmoiFunctions.create({ platform, files: new Map() });
+    const rendered = TemplateParser.render(ignoreContent, config, platform, functions);
+    const hasSyntaxError = rendered.diagnostics.some(d => d.severity === 'error');
 
-    for (const line of lines) {
-      const trimmed = line.trim();
+    const lines = hasSyntaxError
+      ? ignoreContent.split('\n')
+        .map((text, i) => ({ text, line: i + 1 }))
+        .filter(({ text }) => !text.includes('{{'))
+      : rendered.output.split('\n').map((text, i) => ({ text, line: rendered.sourceLines[i] ?? 0 }));
 
-      // Skip empty lines
-      if (!trimmed) {
-        continue;
-      }
+    const rules: IgnoreRule[] = [];
+    const diagnostics = [...rendered.diagnostics];
 
-      // Handle conditional blocks
-      if (trimmed.startsWith('{{-')) {
-        this.handleConditional(trimmed, conditionStack, config, platform);
-        continue;
-      }
+    for (const { text, line } of lines) {
+      const rule = this.parseRule(text, line);
+      if (!rule) continue;
 
-      // Skip comments
-      if (trimmed.startsWith('#')) {
+      const problem = Glob.validate(rule.glob);
+      if (problem) {
+        diagnostics.push({ severity: 'warning', message: `pattern skipped: ${problem}`, line, column: 1 });
         continue;
       }
 
-      // Current state is top of stack
-      const currentlyIncluded = conditionStack[conditionStack.length - 1];
-
-      // Add pattern if we're in an included block
-      if (currentlyIncluded && trimmed) {
-        patterns.push(trimmed);
-      }
+      rules.push(rule);
     }
 
-    return patterns;
+    return { patterns: rules.map(rule => rule.pattern), rules, diagnostics };
   }
 
   /**
-   * Handle conditional template syntax
+   * Get ignore patterns for a specific platform and config
    */
-  private static handleConditional(
-    line: string,
-    stack: boolean[],
+  static getIgnorePatterns(
+    ignoreContent: string,
     config: DotfilesConfig,
     platform: Platform
-  ): void {
-    const trimmed = line.trim();
-
-    // {{- if ... }}
-    if (trimmed.includes('{{- if ')) {
-      const condition = this.extractCondition(trimmed);
-      const result = this.evaluateCondition(condition, config, platform);
-      const parentState = stack[stack.length - 1];
-      stack.push(parentState && result);
-    }
-    // {{- else }}
-    else if (trimmed.includes('{{- else')) {
-      if (stack.length > 1) {
-        const parentState = stack[stack.length - 2];
-        const currentState = stack.pop()!;
-        stack.push(parentState && !currentState);
-      }
-    }
-    // {{- end }}
-    else if (trimmed.includes('{{- end')) {
-      if (stack.length > 1) {
-        stack.pop();
-      }
-    }
+  ): string[] {
+    return this.parse(ignoreContent, config, platform);
   }
 
   /**
-   * Extract condition from template syntax
+   * Get ignore rules, with their lines, for a specific platform and config
    */
-  private static extractCondition(line: string): string {
-    const match = line.match(/\{\{-?\s*if\s+(.+?)\s*\}\}/);
-    return match ? match[1].trim() : '';
+  static getIgnoreRules(
+    ignoreContent: string,
+    config: DotfilesConfig,
+    platform: Platform
+  ): IgnoreRule[] {
+    return this.parseWithDiagnostics(ignoreContent, config, platform).rules;
   }
 
   /**
-   * Evaluate a condition
+   * Parse one line of (rendered) .chezmoiignore
+   * `#` starts a comment anywhere on the line, as in chezmoi
    */
-  private static evaluateCondition(
-    condition: string,
-    config: DotfilesConfig,
-    platform: Platform
-  ): boolean {
-    // Handle: eq .chezmoi.os "platform"
-    if (condition.includes('eq .chezmoi.os')) {
-      const platformMatch = condition.match(/eq\s+\.chezmoi\.os\s+"(\w+)"/);
-      if (platformMatch) {
-        const targetPlatform = platformMatch[1];
-        return platform === targetPlatform;
-      }
-    }
+  static parseRule(text: string, line: number = 0): IgnoreRule | null {
+    const pattern = text.replace(/#.*$/, '').trim();
+    if (!pattern) return null;
 
-    // Handle: not .modules.X.Y (nested properties like .modules.shell.zsh_extras)
-    if (condition.includes('not .modules.') && !condition.includes('.enabled')) {
-      const propertyMatch = condition.match(/not\s+\.modules\.(\w+)\.(\w+)/);
-      if (propertyMatch) {
-        const moduleName = propertyMatch[1];
-        const propertyName = propertyMatch[2];
-        const moduleConfig = config.data.modules[moduleName];
-        if (moduleConfig && typeof moduleConfig === 'object') {
-          return !((moduleConfig as any)[propertyName]);
-        }
-        return true;
-      }
-    }
+    const exclude = pattern.startsWith('!');
+    let glob = exclude ? pattern.slice(1) : pattern;
+    const directoryOnly = glob.length > 1 && glob.endsWith('/');
 
-    // Handle: not .modules.X.enabled
-    if (condition.includes('not .modules.')) {
-      const moduleMatch = condition.match(/not\s+\.modules\.(\w+)\.enabled/);
-      if (moduleMatch) {
-        const moduleName = moduleMatch[1];
-        const moduleConfig = config.data.modules[moduleName];
-        return !(moduleConfig && moduleConfig.enabled);
-      }
-    }
+    glob = glob.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+    if (!glob) return null;
 
-    // Handle: .modules.X.Y (nested properties)
-    if (condition.includes('.modules.') && !condition.includes('.enabled')) {
-      const propertyMatch = condition.match(/\.modules\.(\w+)\.(\w+)/);
-      if (propertyMatch) {
-        const moduleName = propertyMatch[1];
-        const propertyName = propertyMatch[2];
-        const moduleConfig = config.data.modules[moduleName];
-        if (moduleConfig && typeof moduleConfig === 'object') {
-          return !!((moduleConfig as any)[propertyName]);
-        }
-        return false;
-      }
+    return { pattern, exclude, directoryOnly, glob, line };
+  }
+
+  /**
+   * Every rule .chezmoiignore can produce, with the condition on the
+   * platform and template data under which it does, without evaluating
+   * anything (see Conditions for what static analysis understands)
+   * Text sharing a line with an action is computed and left out.
+   */
+  static getConditionalRules(ignoreContent: string): ConditionalIgnoreRule[] {
+    const rules: ConditionalIgnoreRule[] = [];
+
+    try {
+      this.collectRules(Parser.parse(ignoreContent).root, [], false, rules);
+    } catch {
+      // Same fallback as parseWithDiagnostics: lines outside actions
+      ignoreContent.split('\n').forEach((text, i) => {
+        const rule = text.includes('{{') ? null : this.parseRule(text, i + 1);
+        if (rule) rules.push({ rule, condition: Conditions.TRUE, enclosing: [] });
+      });
     }
 
-    // Handle: .modules.X.enabled
-    if (condition.includes('.modules.')) {
-      const moduleMatch = condition.match(/\.modules\.(\w+)\.enabled/);
-      if (moduleMatch) {
-        const moduleName = moduleMatch[1];
-        const moduleConfig = config.data.modules[moduleName];
-        return !!(moduleConfig && moduleConfig.enabled);
-      }
+    return rules.filter(({ rule }) => !Glob.validate(rule.glob));
+  }
+
+  /**
+   * The condition under which a target path is ignored; mirrors explain()
+   */
+  static ignoreCondition(targetPath: string, rules: ConditionalIgnoreRule[]): Condition {
+    const parts = targetPath.split('/').filter(Boolean);
+    const levels: Condition[] = [];
+
+    for (let depth = 1; depth <= parts.length; depth++) {
+      const path = parts.slice(0, depth).join('/');
+      const isDirectory = depth < parts.length;
+      const when = (exclude: boolean) => Conditions.or(...rules
+        .filter(({ rule }) => rule.exclude === exclude &&
+          (isDirectory || !rule.directoryOnly) && Glob.match(rule.glob, path))
+        .map(({ condition }) => condition));
+
+      levels.push(Conditions.and(when(false), Conditions.not(when(true))));
     }
 
-    // Default: true (include)
-    console.warn(`Unknown condition: ${condition}`);
-    return true;
+    return Conditions.or(...levels);
   }
 
   /**
-   * Get ignore patterns for a specific platform and config
+   * Walk the template, tracking the condition each text node is emitted under
+   * Inside with/range, `.` is rebound, so conditions there are not followed
    */
-  static getIgnorePatterns(
-    ignoreContent: string,
-    config: DotfilesConfig,
-    platform: Platform
-  ): string[] {
-    return this.parse(ignoreContent, config, platform);
+  private static collectRules(
+    list: ListNode,
+    enclosing: Condition[],
+    rebound: boolean,
+    rules: ConditionalIgnoreRule[]
+  ): void {
+    list.nodes.forEach((node, index) => {
+      switch (node.type) {
+        case 'text': {
+          const inline = (neighbour?: ListNode['nodes'][number]) =>
+            neighbour?.type === 'action' || neighbour?.type === 'template';
+          const lines = node.text.split('\n');
+
+          lines.forEach((text, i) => {
+            if (i === 0 && inline(list.nodes[index - 1])) return;
+            if (i === lines.length - 1 && inline(list.nodes[index + 1])) return;
+
+            const rule = this.parseRule(text, node.pos.line + i);
+            if (rule) rules.push({ rule, condition: Conditions.and(...enclosing), enclosing });
+          });
+          break;
+        }
+        case 'if':
+        case 'with':
+        case 'range': {
+          const test = rebound
+            ? Conditions.unknown(node.pipeline.source)
+            : Conditions.fromPipeline(node.pipeline);
+
+          this.collectRules(node.list, [...enclosing, test], rebound || node.type !== 'if', rules);
+          if (node.elseList) {
+            this.collectRules(node.elseList, [...enclosing, Conditions.not(test)], rebound, rules);
+          }
+          break;
+        }
+      }
+    });
   }
 
   /**
-   * Check if a file should be ignored
+   * Check if a file should be ignored; patterns are anchored (see explain())
    */
   static shouldIgnore(
     filePath: string,
     ignorePatterns: string[]
   ): boolean {
-    return ignorePatterns.some(pattern => {
-      // Convert glob pattern to regex
-      let regexPattern = pattern
-        .replace(/\*\*/g, '___DOUBLESTAR___')
-        .replace(/\*/g, '[^/]*')
-        .replace(/___DOUBLESTAR___/g, '.*')
-        .replace(/\?/g, '.')
-        .replace(/\./g, '\\.');
-
-      // Anchor the pattern
-      regexPattern = `^${regexPattern}`;
-
-      try {
-        const regex = new RegExp(regexPattern);
-        return regex.test(filePath);
-      } catch (e) {
-        console.warn(`Invalid ignore pattern: ${pattern}`);
-        return false;
+    const rules = ignorePatterns
+      .map(pattern => this.parseRule(pattern))
+      .filter((rule): rule is IgnoreRule => rule !== null && !Glob.validate(rule.glob));
+
+    return this.explain(filePath, rules) !== null;
+  }
+
+  /**
+   * Find the rule that ignores a target path, or null if it is not ignored
+   *
+   * Follows chezmoi: patterns are doublestar globs matched against whole
+   * target paths (a pattern without `/` only matches top-level names);
+   * exclusions beat every inclusion; and an ignored directory hides
+   * everything below it, whatever the exclusions say about its contents.
+   */
+  static explain(targetPath: string, rules: IgnoreRule[]): IgnoreMatch | null {
+    const parts = targetPath.split('/').filter(Boolean);
+
+    for (let depth = 1; depth <= parts.length; depth++) {
+      const path = parts.slice(0, depth).join('/');
+      const isDirectory = depth < parts.length;
+      const matches = (rule: IgnoreRule) =>
+        (isDirectory || !rule.directoryOnly) && Glob.match(rule.glob, path);
+
+      if (rules.some(rule => rule.exclude && matches(rule))) {
+        continue;
       }
-    });
+
+      const rule = rules.find(candidate => !candidate.exclude && matches(candidate));
+      if (rule) {
+        return { pattern: rule.pattern, line: rule.line, matchedPath: path };
+      }
+    }
+
+    return null;
   }
 }
@@ -0,0 +1,371 @@
+/**
+ * Markdown Parser
+ * Splits MODULES.md into blocks and pulls each module's section out of it:
+ * description, dependencies, platforms, startup impact, alias tables and
+ * function usage blocks
+ */
+
+import { AliasExtractor } from './AliasExtractor';
+import type { Alias, FunctionInfo, MarkdownBlock, ModuleDoc, Platform } from '../types';
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * `**Label:** value` lines that describe a module
+ */
+const FIELDS: Array<[RegExp, 'dependencies' | 'platforms' | 'startupImpact']> = [
+  [/^(?:dependencies|depends on|requires|required modules)$/i, 'dependencies'],
+  [/^(?:platforms?|os|supported (?:platforms|os))$/i, 'platforms'],
+  [/^(?:startup(?: impact| time| cost)?|shell startup|performance)$/i, 'startupImpact'],
+];
+
+const PLATFORM_NAMES: Record<string, Platform[]> = {
+  linux: ['linux'],
+  macos: ['darwin'],
+  mac: ['darwin'],
+  osx: ['darwin'],
+  darwin: ['darwin'],
+  windows: ['windows'],
+  win: ['windows'],
+  all: ['linux', 'darwin', 'windows'],
+  any: ['linux', 'darwin', 'windows'],
+};
+
+/**
+ * A module the sections can be about
+ */
+export interface DocumentedModule {
+  id: string;
+  name: string;
+}
+
+export class MarkdownParser {
+  /**
+   * Headings, paragraphs, lists, fenced code and tables, in order
+   */
+  static blocks(content: string): MarkdownBlock[] {
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: MarkdownBlock[] = [];
+    let paragraph: string[] = [];
+    let list: string[] | null = null;
+
+    const flush = () => {
+      if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      if (list) blocks.push({ type: 'list', items: list });
+      paragraph = [];
+      list = null;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const fence = FENCE.exec(line);
+      if (fence) {
+        flush();
+        const body: string[] = [];
+        const marker = fence[1];
+        for (i++; i < lines.length && !lines[i].trim().startsWith(marker); i++) {
+          body.push(lines[i]);
+        }
+        blocks.push({ type: 'code', language: fence[2], text: body.join('\n') });
+        continue;
+      }
+
+      const heading = HEADING.exec(line);
+      if (heading) {
+        flush();
+        blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+        continue;
+      }
+
+      if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+        flush();
+        const header = this.cells(line);
+        const rows: string[][] = [];
+        for (i += 2; i < lines.length && lines[i].includes('|'); i++) {
+          rows.push(this.cells(lines[i]));
+        }
+        i--;
+        blocks.push({ type: 'table', header, rows });
+        continue;
+      }
+
+      if (line.trim() === '') {
+        flush();
+        continue;
+      }
+
+      const item = LIST_ITEM.exec(line);
+      if (item) {
+        if (paragraph.length > 0) flush();
+        list = list ?? [];
+        list.push(item[1].trim());
+      } else if (list && /^\s+/.test(line)) {
+        // Continuation of the last item
+        list[list.length - 1] += ` ${line.trim()}`;
+      } else {
+        if (list) flush();
+        paragraph.push(line.trim());
+      }
+    }
+
+    flush();
+    return blocks;
+  }
+
+  /**
+   * The sections of known modules; a section starts at a heading naming the
+   * module (`## Shell Environment`, `## shell`, ``## Shell (`shell`)``)
+   * and ends at the next heading of the same or a higher level
+   */
+  static parseModules(content: string, modules: DocumentedModule[]): ModuleDoc[] {
+    const blocks = this.blocks(content);
+    const docs: ModuleDoc[] = [];
+
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i];
+      if (block.type !== 'heading') continue;
+
+      const documented = this.moduleFor(block.text, modules);
+      if (!documented || docs.some(doc => doc.id === documented.id)) continue;
+
+      let end = i + 1;
+      while (end < blocks.length) {
+        const next = blocks[end];
+        if (next.type === 'heading' && next.level <= block.level) break;
+        end++;
+      }
+
+      docs.push(this.section(documented.id, block.text, blocks.slice(i + 1, end), modules));
+      i = end - 1;
+    }
+
+    return docs;
+  }
+
+  /**
+   * Markdown inline formatting removed: `code`, **bold**, _emphasis_, links
+   */
+  static plain(text: string): string {
+    return text
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__)(.*?)\1/g, '$2')
+      .replace(/(^|\W)[*_]([^*_]+)[*_](?=\W|$)/g, '$1$2')
+      .trim();
+  }
+
+  private static section(
+    id: string,
+    title: string,
+    blocks: MarkdownBlock[],
+    modules: DocumentedModule[]
+  ): ModuleDoc {
+    const doc: ModuleDoc = { id, title: this.plain(title), aliases: [], functions: [], blocks };
+    const description: string[] = [];
+    // Subheading the block is under, e.g. "Aliases" or "`mkcd`"
+    let context = '';
+    let functionName: string | null = null;
+    let functionDescription: string[] = [];
+
+    const field = (line: string): boolean => {
+      const match = /^([^:]{2,30}):\s*(.+)$/.exec(this.plain(line));
+      const known = match && FIELDS.find(([pattern]) => pattern.test(match[1].trim()));
+      if (!match || !known) return false;
+
+      const value = match[2].trim();
+      if (known[1] === 'dependencies') doc.dependencies = this.dependencies(value, modules);
+      else if (known[1] === 'platforms') doc.platforms = this.platforms(value);
+      else doc.startupImpact = value;
+      return true;
+    };
+
+    for (const block of blocks) {
+      if (block.type === 'heading') {
+        context = block.text;
+        functionName = this.functionName(block.text);
+        functionDescription = [];
+        continue;
+      }
+
+      if (block.type === 'paragraph') {
+        const text = block.text.split('\n').filter(line => !field(line)).join(' ');
+        if (!text) continue;
+        if (functionName) functionDescription.push(this.plain(text));
+        else if (!context && !/^usage:?$/i.test(this.plain(text))) description.push(this.plain(text));
+      } else if (block.type === 'list') {
+        const rest = block.items.filter(item => !field(item));
+        if (/function/i.test(context)) {
+          doc.functions.push(...this.functionList(rest, id));
+        }
+      } else if (block.type === 'table') {
+        doc.aliases.push(...this.aliasTable(block, context, id));
+        doc.functions.push(...this.functionTable(block, id));
+      } else if (block.type === 'code') {
+        if (functionName) {
+          doc.functions.push({
+            name: functionName,
+            description: functionDescription.join(' '),
+            usage: block.text.trim(),
+            requiresModule: id,
+          });
+          functionName = null;
+        } else if (/function|usage/i.test(context)) {
+          doc.functions.push(...this.usageBlock(block.text, id));
+        }
+      }
+    }
+
+    if (description.length > 0) doc.description = description.join('\n\n');
+    return doc;
+  }
+
+  /**
+   * Rows of a table whose header has an Alias column
+   */
+  private static aliasTable(table: Extract<MarkdownBlock, { type: 'table' }>, context: string, id: string): Alias[] {
+    const header = table.header.map(cell => this.plain(cell).toLowerCase());
+    let name = header.findIndex(cell => /^alias(es)?$/.test(cell));
+    if (name === -1 && /alias/i.test(context) && !header.some(cell => /^function/.test(cell))) name = 0;
+    const command = header.findIndex((cell, i) => i !== name && /command|expands|runs|expansion|definition|does/.test(cell));
+    const description = header.findIndex(cell => /description|purpose|notes?/.test(cell));
+    if (name === -1 || command === -1) return [];
+
+    return table.rows
+      .filter(row => this.plain(row[name] ?? '') && this.plain(row[command] ?? ''))
+      .map(row => {
+        const aliasCommand = this.plain(row[command]);
+        return {
+          name: this.plain(row[name]),
+          command: aliasCommand,
+          category: AliasExtractor.category(aliasCommand),
+          requiresModule: id,
+          description: description === -1 ? undefined : this.plain(row[description] ?? '') || undefined,
+        };
+      });
+  }
+
+  /**
+   * Rows of a table whose header has a Function column
+   */
+  private static functionTable(table: Extract<MarkdownBlock, { type: 'table' }>, id: string): FunctionInfo[] {
+    const header = table.header.map(cell => this.plain(cell).toLowerCase());
+    const name = header.findIndex(cell => /^functions?$/.test(cell));
+    const usage = header.findIndex(cell => /usage|example|syntax/.test(cell));
+    const description = header.findIndex(cell => /description|purpose|does/.test(cell));
+    if (name === -1) return [];
+
+    return table.rows
+      .filter(row => this.plain(row[name] ?? ''))
+      .map(row => {
+        const fnName = this.plain(row[name]).replace(/\(\)$/, '');
+        return {
+          name: fnName,
+          description: description === -1 ? '' : this.plain(row[description] ?? ''),
+          usage: usage === -1 ? fnName : this.plain(row[usage] ?? '') || fnName,
+          requiresModule: id,
+        };
+      });
+  }
+
+  /**
+   * ``- `mkcd <dir>` - Create a directory and enter it``
+   */
+  private static functionList(items: string[], id: string): FunctionInfo[] {
+    return items.flatMap(item => {
+      const match = /^`([^`]+)`\s*(?:[-–—:]\s*)?(.*)$/.exec(item);
+      if (!match) return [];
+
+      const usage = match[1].replace(/\(\)$/, '').trim();
+      return [{
+        name: usage.split(/\s+/)[0],
+        description: this.plain(match[2]),
+        usage,
+        requiresModule: id,
+      }];
+    });
+  }
+
+  /**
+   * A code block of example calls, each one optionally explained by the
+   * comment above it
+   */
+  private static usageBlock(text: string, id: string): FunctionInfo[] {
+    const functions: FunctionInfo[] = [];
+    let comment = '';
+
+    for (const line of text.split('\n').map(l => l.trim())) {
+      if (line.startsWith('#')) {
+        comment = line.replace(/^#+\s*/, '');
+      } else if (line) {
+        const name = line.replace(/^\$\s+/, '').split(/\s+/)[0];
+        if (!functions.some(fn => fn.name === name)) {
+          functions.push({ name, description: comment, usage: line.replace(/^\$\s+/, ''), requiresModule: id });
+        }
+        comment = '';
+      }
+    }
+
+    return functions;
+  }
+
+  /**
+   * Function named by a subheading: ``#### `mkcd` `` or `#### mkcd()`
+   */
+  private static functionName(heading: string): string | null {
+    const code = /^`([\w.:-]+)(?:\(\))?`/.exec(heading.trim());
+    if (code) return code[1];
+
+    const call = /^([\w.:-]+)\(\)/.exec(heading.trim());
+    return call ? call[1] : null;
+  }
+
+  private static moduleFor(heading: string, modules: DocumentedModule[]): DocumentedModule | undefined {
+    const codes = [...heading.matchAll(/`(?:modules\.)?([\w-]+)(?:\.enabled)?`/g)].map(m => m[1]);
+    const byCode = modules.find(m => codes.includes(m.id));
+    if (byCode) return byCode;
+
+    const text = this.plain(heading).replace(/[^\p{L}\p{N}_ -]/gu, '').trim().toLowerCase();
+    const words = text.replace(/\s+module$/, '');
+    return modules.find(m =>
+      [m.id, m.id.replace(/_/g, ' '), m.name.toLowerCase()].some(candidate => candidate === text || candidate === words)
+    );
+  }
+
+  private static dependencies(value: string, modules: DocumentedModule[]): string[] {
+    if (/^(none|-|n\/a)$/i.test(value.trim())) return [];
+
+    return value
+      .split(/,|;|\band\b/)
+      .map(part => this.plain(part).replace(/^modules\./, '').replace(/\.enabled$/, '').trim())
+      .filter(Boolean)
+      .map(part => {
+        const known = modules.find(m => m.id === part || m.name.toLowerCase() === part.toLowerCase());
+        return known?.id ?? part.toLowerCase().replace(/[\s-]+/g, '_');
+      });
+  }
+
+  private static platforms(value: string): Platform[] {
+    const platforms = this.plain(value)
+      .toLowerCase()
+      .split(/[\s,;/+]+|\band\b/)
+      .flatMap(word => PLATFORM_NAMES[word.replace(/[^a-z]/g, '')] ?? []);
+
+    return [...new Set(platforms)];
+  }
+
+  /**
+   * Cells of a `| a | b |` row
+   */
+  private static cells(line: string): string[] {
+    return line
+      .trim()
+      .replace(/^\|/, '')
+      .replace(/\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => cell.trim().replace(/\\\|/g, '|'));
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * PowerShell Parser
+ * Extracts aliases, functions and environment variables from PowerShell
+ * profiles and templates, with the template condition each one sits under
+ */
+
+import { AliasExtractor, type ShellDefinition, type ShellLine } from './AliasExtractor';
+
+const ALIAS_LINE = /^\s*(?:Set-Alias|New-Alias|sal|nal)\s+(.*)$/i;
+const FUNCTION_LINE = /^\s*(?:function|filter)\s+(?:(?:global|script|local|private):)?([\w.-]+)\s*(.*)$/i;
+const ENV_LINE = /^\s*\$env:([\w.]+)\s*=\s*(.+?)\s*;?\s*$/i;
+const COMMENT = /^\s*#(?!>)\s?(.*)$/;
+
+/**
+ * Parameters of Set-Alias/New-Alias that take no value
+ */
+const SWITCHES = ['-force', '-passthru', '-whatif', '-confirm'];
+
+/**
+ * Comment-based help, inside a function or right above it
+ */
+interface Help {
+  synopsis?: string;
+  description?: string;
+  example?: string;
+}
+
+export class PowerShellParser {
+  /**
+   * Aliases, functions and `$env:` assignments of a PowerShell source;
+   * template blocks are followed statically, like for bash and zsh
+   */
+  static parse(content: string, isTemplate: boolean): ShellDefinition[] {
+    const lines = AliasExtractor.lines(content, isTemplate);
+    const definitions: ShellDefinition[] = [];
+    let comment: string[] = [];
+    let help: Help | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+      const { text, line, condition } = lines[i];
+
+      if (/^\s*<#/.test(text)) {
+        const block = this.blockComment(lines, i);
+        help = this.help(block.text);
+        i = block.end;
+        continue;
+      }
+
+      const commentMatch = COMMENT.exec(text);
+      if (commentMatch) {
+        comment.push(commentMatch[1].trim());
+        continue;
+      }
+
+      const above = help?.synopsis ?? help?.description ?? (comment.filter(Boolean).join(' ') || undefined);
+      const aboveHelp = help;
+      comment = [];
+      help = null;
+
+      const alias = ALIAS_LINE.exec(text);
+      if (alias) {
+        const parsed = this.aliasArguments(alias[1]);
+        if (parsed) {
+          definitions.push({
+            kind: 'alias',
+            name: parsed.name,
+            command: parsed.value,
+            description: parsed.description ?? above,
+            line,
+            condition,
+          });
+        }
+        continue;
+      }
+
+      const env = ENV_LINE.exec(text);
+      if (env) {
+        definitions.push({ kind: 'variable', name: env[1], command: this.unquote(env[2]), description: above, line, condition });
+        continue;
+      }
+
+      const fn = FUNCTION_LINE.exec(text);
+      if (fn) {
+        const body = this.functionBody(fn[2], lines, i);
+        const inner = this.innerHelp(body.text);
+        const functionHelp = inner ?? aboveHelp;
+        const description = functionHelp?.synopsis ?? functionHelp?.description ?? above;
+        const usage = functionHelp?.example ?? this.usage(fn[1], fn[2], body.text);
+
+        definitions.push({ kind: 'function', name: fn[1], command: body.text, description, usage, line, condition });
+        i = body.end;
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * `Set-Alias ll Get-ChildItem` or `Set-Alias -Name ll -Value Get-ChildItem -Description '...'`
+   */
+  private static aliasArguments(rest: string): { name: string; value: string; description?: string } | null {
+    const tokens = [...rest.replace(/\s+#.*$/, '').matchAll(/'[^']*'|"(?:[^"`]|`.)*"|[^\s;]+/g)].map(m => m[0]);
+    const named: Record<string, string> = {};
+    const positional: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.startsWith('-') && token.length > 1) {
+        // `-Name value`, `-Name: value` or `-Name:value`
+        const [, parameter, attached] = /^([^:]*)(?::(.+))?/.exec(token)!;
+        const key = parameter.toLowerCase();
+        if (attached !== undefined) {
+          named[key] = this.unquote(attached);
+        } else if (!SWITCHES.includes(key) && i + 1 < tokens.length) {
+          named[key] = this.unquote(tokens[++i]);
+        }
+      } else {
+        positional.push(this.unquote(token));
+      }
+    }
+
+    const name = named['-name'] ?? positional.shift();
+    const value = named['-value'] ?? positional.shift();
+    if (!name || !value) return null;
+
+    return { name, value, description: named['-description'] };
+  }
+
+  /**
+   * `<# ... #>`, possibly spanning lines, and the index of its last line
+   */
+  private static blockComment(lines: ShellLine[], start: number): { text: string; end: number } {
+    const body: string[] = [];
+
+    for (let i = start; i < lines.length; i++) {
+      body.push(lines[i].text);
+      if (lines[i].text.includes('#>')) {
+        return { text: body.join('\n').replace(/^\s*<#/, '').replace(/#>[\s\S]*$/, ''), end: i };
+      }
+    }
+
+    return { text: body.join('\n').replace(/^\s*<#/, ''), end: lines.length - 1 };
+  }
+
+  /**
+   * `.SYNOPSIS`, `.DESCRIPTION` and the first `.EXAMPLE` of comment-based help
+   */
+  private static help(text: string): Help | null {
+    const sections: Record<string, string[]> = {};
+    let current: string | null = null;
+
+    for (const line of text.split('\n')) {
+      const keyword = /^\s*\.([A-Za-z]+)\b/.exec(line);
+      if (keyword) {
+        current = keyword[1].toUpperCase();
+        if (sections[current]) current = null;
+        else sections[current] = [];
+      } else if (current && line.trim() !== '') {
+        sections[current].push(line.trim());
+      }
+    }
+
+    if (!sections.SYNOPSIS && !sections.DESCRIPTION && !sections.EXAMPLE) return null;
+
+    return {
+      synopsis: sections.SYNOPSIS?.join(' '),
+      description: sections.DESCRIPTION?.join(' '),
+      // The example's first line is the command; the rest explains it
+      example: sections.EXAMPLE?.[0]?.replace(/^PS\s*[^>]*>\s*/, ''),
+    };
+  }
+
+  /**
+   * Help placed at the top of the function body
+   */
+  private static innerHelp(body: string): Help | null {
+    const match = /^\s*<#([\s\S]*?)#>/.exec(body);
+    return match ? this.help(match[1]) : null;
+  }
+
+  /**
+   * The name followed by its parameters, from `function Name($a, $b)` or a
+   * `param(...)` block
+   */
+  private static usage(name: string, signature: string, body: string): string {
+    const inline = /^\(([^)]*)\)/.exec(signature.trim());
+    const block = /\bparam\s*\(([\s\S]*?)\)\s*(?:\n|$)/i.exec(body);
+    const parameters = [...(inline?.[1] ?? block?.[1] ?? '').matchAll(/\$(\w+)/g)].map(m => `-${m[1]}`);
+
+    return [name, ...new Set(parameters)].join(' ');
+  }
+
+  /**
+   * The body between the braces of a function, and the index of the line
+   * it ends on; the opening brace may be on the next line
+   */
+  private static functionBody(rest: string, lines: ShellLine[], start: number): { text: string; end: number } {
+    const body: string[] = [];
+    let depth = 0;
+    let opened = false;
+
+    for (let i = start; i < lines.length; i++) {
+      // Skip an inline parameter list before the brace
+      const text = i === start ? rest.replace(/^\([^)]*\)\s*/, '') : lines[i].text;
+
+      if (!opened) {
+        const first = text.trim()[0];
+        if (first === undefined) continue;
+        if (first !== '{') break;
+        opened = true;
+      }
+
+      for (const char of text) {
+        if (char === '{') depth++;
+        else if (char === '}') depth--;
+      }
+
+      body.push(text);
+
+      if (depth <= 0) {
+        const joined = body.join('\n').trim();
+        return { text: joined.slice(1, joined.lastIndexOf('}')).trim(), end: i };
+      }
+    }
+
+    return { text: '', end: start };
+  }
+
+  private static unquote(value: string): string {
+    if (value.length >= 2 && (value[0] === '\'' || value[0] === '"') && value.endsWith(value[0])) {
+      return value.slice(1, -1);
+    }
+    return value;
+  }
+}
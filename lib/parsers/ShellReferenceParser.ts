@@ -0,0 +1,138 @@
+/**
+ * Shell Reference Parser
+ * Finds the files a bash/zsh source sources and the commands it runs, with
+ * the template condition each one sits under
+ */
+
+import { AliasExtractor } from './AliasExtractor';
+import type { Condition } from './Conditions';
+
+/**
+ * `source path` or `. path`
+ */
+export interface SourceReference {
+  /** Target path, `~/...` once variables are expanded; null when unknown */
+  path: string | null;
+  /** The argument as written */
+  raw: string;
+  /** Guarded by a file test or with errors silenced: a missing file is fine */
+  optional: boolean;
+  line: number;
+  condition: Condition;
+}
+
+/**
+ * A word in command position, which may be a function defined elsewhere
+ */
+export interface CommandReference {
+  name: string;
+  line: number;
+  condition: Condition;
+}
+
+export interface ShellReferences {
+  sources: SourceReference[];
+  commands: CommandReference[];
+}
+
+/**
+ * Variables that point into the home directory, and what they usually hold
+ */
+const HOME_VARIABLES: Array<[RegExp, string]> = [
+  [/^\$\{XDG_CONFIG_HOME:-[^}]*\}|^\$\{XDG_CONFIG_HOME\}|^\$XDG_CONFIG_HOME\b/, '~/.config'],
+  [/^\$\{XDG_DATA_HOME:-[^}]*\}|^\$\{XDG_DATA_HOME\}|^\$XDG_DATA_HOME\b/, '~/.local/share'],
+  [/^\$\{HOME\}|^\$HOME\b/, '~'],
+];
+
+/**
+ * Shell keywords that are followed by another command
+ */
+const KEYWORDS = ['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', 'time', 'exec', 'command', 'builtin'];
+
+const SOURCE = /(?:^|[;&|({]\s*|\bthen\s+|\bdo\s+|\belse\s+)(?:source|\.)\s+("[^"]*"|'[^']*'|[^\s;&|)]+)/g;
+const FUNCTION_HEAD = /^\s*(?:function\s+[\w.:@+-]+\s*(?:\(\s*\))?|[\w.:@+-]+\s*\(\s*\))\s*/;
+const FILE_TEST = /\[\[?\s+-[efrs]\s|\btest\s+-[efrs]\s/;
+const SILENCED = /2>\s*\/dev\/null|\|\|\s*(?:true|:)/;
+
+export class ShellReferenceParser {
+  static parse(content: string, isTemplate: boolean): ShellReferences {
+    const sources: SourceReference[] = [];
+    const commands: CommandReference[] = [];
+
+    for (const { text, line, condition } of AliasExtractor.lines(content, isTemplate)) {
+      // A function's name is not a call; a one-line body still counts
+      const code = this.stripComment(text).replace(FUNCTION_HEAD, '');
+      if (code.trim() === '' || /^\s*alias\s/.test(code)) continue;
+
+      for (const match of code.matchAll(SOURCE)) {
+        const raw = match[1].replace(/^["']|["']$/g, '');
+        sources.push({
+          path: this.resolvePath(raw),
+          raw,
+          optional: FILE_TEST.test(code) || SILENCED.test(code),
+          line,
+          condition,
+        });
+      }
+
+      for (const name of this.commandWords(code)) {
+        commands.push({ name, line, condition });
+      }
+    }
+
+    return { sources, commands };
+  }
+
+  /**
+   * `~/...` for paths in the home directory; null for anything relative,
+   * absolute outside home, or built from other variables or templates
+   */
+  static resolvePath(raw: string): string | null {
+    let path = raw;
+    for (const [pattern, replacement] of HOME_VARIABLES) {
+      path = path.replace(pattern, replacement);
+    }
+
+    if (path !== '~' && !path.startsWith('~/')) return null;
+    if (/[$`*?]|\{\{/.test(path)) return null;
+    return path.replace(/\/+$/, '');
+  }
+
+  /**
+   * Words where a command starts: the line start, and after `|`, `&&`,
+   * `||`, `;`, `$(` and keywords like `then`
+   */
+  private static commandWords(code: string): string[] {
+    const words: string[] = [];
+
+    for (const segment of code.split(/\|\|?|&&|;|\$\(|`|\(|\{/)) {
+      const tokens = segment.trim().split(/\s+/);
+      while (tokens.length > 0 && (KEYWORDS.includes(tokens[0]) || /^\w+=/.test(tokens[0]))) tokens.shift();
+
+      const word = tokens[0];
+      if (word && /^[A-Za-z_][\w.:-]*$/.test(word)) words.push(word);
+    }
+
+    return words;
+  }
+
+  /**
+   * Drop a trailing `# comment`, leaving `#` inside quotes and `$#` alone
+   */
+  private static stripComment(text: string): string {
+    let quote: string | null = null;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === '\'') {
+        quote = char;
+      } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+        return text.slice(0, i);
+      }
+    }
+
+    return text;
+  }
+}
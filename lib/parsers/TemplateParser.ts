@@ -3,171 +3,178 @@
  * Evaluates Go template conditionals for simulation
  */
 
-import { DotfilesConfig, Platform } from '../types';
+import { DotfilesConfig, Platform, TemplateDiagnostic } from '../types';
+import { Parser } from './gotemplate/Parser';
+import { TemplateSyntaxError } from './gotemplate/Lexer';
+import { Evaluator, partial, RenderResult, TemplateFunction } from './gotemplate/Evaluator';
+
+/**
+ * Result of evaluating a condition; `value` is null when it could not be evaluated
+ */
+export interface ConditionResult {
+  value: boolean | null;
+  diagnostics: TemplateDiagnostic[];
+}
 
 /**
  * Evaluates Go template expressions in the context of a dotfiles configuration
  *
- * Supports:
- * - .modules.X.enabled checks
- * - eq .chezmoi.os "platform" checks
- * - not operator
- * - and/or operators (basic support)
+ * Templates are parsed with the full text/template grammar chezmoi uses
+ * (if/else if/else, with, range, variables, pipelines, parentheses).
+ * The data is `.chezmoi.os` plus the config's `data` section; other
+ * `.chezmoi.*` facts and unsupported functions are reported as diagnostics.
  */
 export class TemplateParser {
+  /**
+   * Template data (`.`) for a configuration and platform
+   */
+  static templateData(config: DotfilesConfig, platform: Platform): Record<string, unknown> {
+    return {
+      ...config.data,
+      chezmoi: partial({ os: platform }),
+    };
+  }
+
   /**
    * Evaluate a Go template conditional expression
    *
    * @param expression - The expression inside {{- if ... }}
    * @param config - The dotfiles configuration
    * @param platform - The target platform
-   * @returns true if the condition evaluates to true
+   * @returns true if the condition evaluates to true; false if it is false
+   *          or cannot be evaluated (see evaluateConditionWithDiagnostics)
    */
   static evaluateCondition(
     expression: string,
     config: DotfilesConfig,
     platform: Platform
   ): boolean {
-    const trimmed = expression.trim();
-
-    // Handle: not EXPR
-    if (trimmed.startsWith('not ')) {
-      const innerExpr = trimmed.substring(4).trim();
-      return !this.evaluateCondition(innerExpr, config, platform);
-    }
-
-    // Handle: and EXPR1 EXPR2
-    if (trimmed.startsWith('and ')) {
-      const parts = this.splitExpression(trimmed.substring(4).trim());
-      return parts.every(part => this.evaluateCondition(part, config, platform));
-    }
+    return this.evaluateConditionWithDiagnostics(expression, config, platform).value ?? false;
+  }
 
-    // Handle: or EXPR1 EXPR2
-    if (trimmed.startsWith('or ')) {
-      const parts = this.splitExpression(trimmed.substring(3).trim());
-      return parts.some(part => this.evaluateCondition(part, config, platform));
+  /**
+   * Evaluate a conditional expression and report why it could not be evaluated
+   */
+  static evaluateConditionWithDiagnostics(
+    expression: string,
+    config: DotfilesConfig,
+    platform: Platform
+  ): ConditionResult {
+    try {
+      const pipeline = Parser.parseExpression(expression);
+      const evaluator = new Evaluator(this.templateData(config, platform));
+      const value = evaluator.evaluateCondition(pipeline);
+
+      return { value, diagnostics: evaluator.diagnostics };
+    } catch (error) {
+      return { value: null, diagnostics: [this.syntaxDiagnostic(error, expression)] };
     }
+  }
 
-    // Handle: eq .chezmoi.os "platform"
-    if (trimmed.includes('eq .chezmoi.os')) {
-      const platformMatch = trimmed.match(/eq\s+\.chezmoi\.os\s+"(\w+)"/);
-      if (platformMatch) {
-        const targetPlatform = platformMatch[1];
-        return platform === targetPlatform;
+  /**
+   * Execute a template for a configuration and platform
+   * A template with syntax errors renders as its unrendered source, marked
+   * as a whole, plus an error diagnostic
+   *
+   * @param functions - Template functions beyond text/template's built-ins
+   * @param templates - Named templates for {{ template "name" }}, as source
+   */
+  static render(
+    templateContent: string,
+    config: DotfilesConfig,
+    platform: Platform,
+    functions: Record<string, TemplateFunction> = {},
+    templates: Record<string, string> = {}
+  ): RenderResult {
+    const evaluator = new Evaluator(this.templateData(config, platform), functions);
+    const templateErrors: TemplateDiagnostic[] = [];
+
+    // A broken named template only breaks the calls to it
+    for (const [name, source] of Object.entries(templates)) {
+      try {
+        const tree = Parser.parse(source);
+        evaluator.define(name, tree.root);
+        for (const [nested, body] of Object.entries(tree.defines)) {
+          evaluator.define(nested, body);
+        }
+      } catch (error) {
+        const diagnostic = this.syntaxDiagnostic(error);
+        templateErrors.push({ ...diagnostic, message: `in template "${name}": ${diagnostic.message}` });
       }
     }
 
-    // Handle: .modules.X.enabled
-    if (trimmed.includes('.modules.')) {
-      const moduleMatch = trimmed.match(/\.modules\.(\w+)\.enabled/);
-      if (moduleMatch) {
-        const moduleName = moduleMatch[1];
-        return config.data.modules[moduleName as keyof typeof config.data.modules]?.enabled ?? false;
-      }
+    try {
+      const result = evaluator.render(Parser.parse(templateContent));
+      return { ...result, diagnostics: [...templateErrors, ...result.diagnostics] };
+    } catch (error) {
+      const diagnostic = this.syntaxDiagnostic(error);
+
+      return {
+        output: templateContent,
+        markers: [{ start: 0, end: templateContent.length, message: diagnostic.message }],
+        diagnostics: [diagnostic],
+        sourceLines: templateContent.split('\n').map((_, i) => i + 1),
+      };
     }
+  }
 
-    // Handle: .modules.X.Y (nested properties like .modules.shell.zsh_extras)
-    if (trimmed.startsWith('.modules.')) {
-      const propertyMatch = trimmed.match(/\.modules\.(\w+)\.(\w+)/);
-      if (propertyMatch) {
-        const moduleName = propertyMatch[1];
-        const propertyName = propertyMatch[2];
-        const module = config.data.modules[moduleName as keyof typeof config.data.modules];
-        if (module && typeof module === 'object') {
-          return (module as any)[propertyName] ?? false;
-        }
-      }
+  private static syntaxDiagnostic(error: unknown, expression?: string): TemplateDiagnostic {
+    if (error instanceof TemplateSyntaxError) {
+      return {
+        severity: 'error',
+        message: error.reason,
+        line: error.pos.line,
+        column: error.pos.column,
+        expression,
+      };
     }
 
-    // Default: true (allow everything we don't understand)
-    return true;
+    throw error;
   }
 
   /**
-   * Split expression into parts for and/or operators
-   * This is a simple implementation that doesn't handle nested parentheses
+   * Boolean options of every module as `module.option`, such as
+   * `shell.enabled` and `shell.zsh_extras`
    */
-  private static splitExpression(expr: string): string[] {
-    // For now, just split on common patterns
-    // A more robust implementation would use proper parsing
-    const parts: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < expr.length; i++) {
-      const char = expr[i];
-
-      if (char === '"') {
-        inQuotes = !inQuotes;
-        current += char;
-      } else if (char === ' ' && !inQuotes && current.trim()) {
-        // Check if this is the start of a new expression
-        if (current.startsWith('.') || current.startsWith('eq') || current.startsWith('not')) {
-          parts.push(current.trim());
-          current = '';
-        } else {
-          current += char;
+  static moduleOptions(config: DotfilesConfig): string[] {
+    const options: string[] = [];
+
+    for (const [moduleName, settings] of Object.entries(config.data.modules)) {
+      if (!settings || typeof settings !== 'object') continue;
+
+      for (const [option, value] of Object.entries(settings as Record<string, unknown>)) {
+        if (typeof value === 'boolean') {
+          options.push(`${moduleName}.${option}`);
         }
-      } else {
-        current += char;
       }
     }
 
-    if (current.trim()) {
-      parts.push(current.trim());
-    }
-
-    return parts.length > 0 ? parts : [expr];
+    return options;
   }
 
   /**
-   * Process a template file and determine if it should be included
-   * based on the configuration and platform
+   * Simulate changes to module options
    *
-   * @param templateContent - The full template file content
-   * @param config - The dotfiles configuration
-   * @param platform - The target platform
-   * @returns true if the file should be included
+   * @param baseConfig - The base configuration
+   * @param optionChanges - Option changes to apply { 'module.option': value }
+   * @returns A new configuration with changes applied
    */
-  static shouldIncludeTemplate(
-    templateContent: string,
-    config: DotfilesConfig,
-    platform: Platform
-  ): boolean {
-    const lines = templateContent.split('\n');
-    const conditionStack: boolean[] = [true];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      // Check for conditional start: {{- if ... }}
-      if (trimmed.match(/\{\{-?\s*if\s+/)) {
-        const match = trimmed.match(/\{\{-?\s*if\s+(.+?)\s*\}\}/);
-        if (match) {
-          const expression = match[1];
-          const parentCondition = conditionStack[conditionStack.length - 1];
-          const currentCondition = parentCondition && this.evaluateCondition(expression, config, platform);
-          conditionStack.push(currentCondition);
-        }
-      }
-      // Check for else: {{- else }}
-      else if (trimmed.match(/\{\{-?\s*else\s*\}\}/)) {
-        if (conditionStack.length > 1) {
-          const current = conditionStack.pop()!;
-          const parent = conditionStack[conditionStack.length - 1];
-          conditionStack.push(parent && !current);
-        }
-      }
-      // Check for end: {{- end }}
-      else if (trimmed.match(/\{\{-?\s*end\s*\}\}/)) {
-        if (conditionStack.length > 1) {
-          conditionStack.pop();
-        }
+  static applyOptionChanges(
+    baseConfig: DotfilesConfig,
+    optionChanges: Record<string, boolean>
+  ): DotfilesConfig {
+    const newConfig = JSON.parse(JSON.stringify(baseConfig)) as DotfilesConfig;
+
+    for (const [key, value] of Object.entries(optionChanges)) {
+      const [moduleName, option] = key.split('.');
+      const settings: unknown = newConfig.data.modules[moduleName];
+
+      if (option && settings && typeof settings === 'object') {
+        (settings as Record<string, unknown>)[option] = value;
       }
     }
 
-    // If we're in a false condition anywhere, the file should not be included
-    return conditionStack.every(cond => cond);
+    return newConfig;
   }
 
   /**
@@ -184,8 +191,15 @@ export class TemplateParser {
     const newConfig = JSON.parse(JSON.stringify(baseConfig)) as DotfilesConfig;
 
     for (const [moduleName, enabled] of Object.entries(moduleChanges)) {
-      if (moduleName in newConfig.data.modules) {
-        (newConfig.data.modules as any)[moduleName].enabled = enabled;
+      // Own keys only: the names come from request bodies
+      if (!Object.hasOwn(newConfig.data.modules, moduleName)) continue;
+
+      // A module written as `name:` with no settings is null, so give it some
+      const settings: unknown = newConfig.data.modules[moduleName];
+      if (settings && typeof settings === 'object' && !Array.isArray(settings)) {
+        newConfig.data.modules[moduleName].enabled = enabled;
+      } else {
+        newConfig.data.modules[moduleName] = { enabled };
       }
     }
 
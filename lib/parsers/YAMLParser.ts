@@ -4,7 +4,16 @@
  */
 
 import yaml from 'js-yaml';
-import { DotfilesConfig, ModuleConfiguration } from '../types';
+import {
+  DotfilesConfig,
+  ModuleCategory,
+  ModuleConfiguration,
+  ModuleMetadata,
+  MODULE_CATEGORIES,
+  Platform,
+} from '../types';
+
+const PLATFORMS: Platform[] = ['linux', 'darwin', 'windows'];
 
 export class YAMLParser {
   /**
@@ -59,7 +68,7 @@ export class YAMLParser {
    */
   static setModules(
     config: DotfilesConfig,
-    modules: Partial<ModuleConfiguration>
+    modules: ModuleConfiguration
   ): DotfilesConfig {
     return {
       ...config,
@@ -75,23 +84,16 @@ export class YAMLParser {
 
   /**
    * Validate module configuration
+   * Any module may appear; each needs an `enabled` flag
    */
   static validateModules(modules: ModuleConfiguration): boolean {
-    const requiredModules = ['shell', 'git', 'vscode', 'powershell', 'start_menu', 'modern_tools', 'smart_search'];
-
-    for (const moduleName of requiredModules) {
-      if (!(moduleName in modules)) {
-        console.warn(`Missing module in configuration: ${moduleName}`);
-        return false;
-      }
-
-      const module = modules[moduleName];
-      if (typeof module !== 'object' || module === null) {
+    for (const [moduleName, settings] of Object.entries(modules)) {
+      if (typeof settings !== 'object' || settings === null) {
         console.warn(`Invalid module structure: ${moduleName}`);
         return false;
       }
 
-      if (!('enabled' in module)) {
+      if (typeof settings.enabled !== 'boolean') {
         console.warn(`Module missing 'enabled' property: ${moduleName}`);
         return false;
       }
@@ -99,4 +101,48 @@ export class YAMLParser {
 
     return true;
   }
+
+  /**
+   * Parse a repository's module metadata file
+   * Unknown fields and values of the wrong type are dropped
+   */
+  static parseModuleMetadata(content: string): Record<string, Partial<ModuleMetadata>> {
+    let parsed: unknown;
+    try {
+      parsed = yaml.load(content);
+    } catch (error) {
+      throw new Error(`Module metadata parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const modules = parsed && typeof parsed === 'object'
+      ? (parsed as Record<string, unknown>).modules
+      : undefined;
+    if (!modules || typeof modules !== 'object') return {};
+
+    const metadata: Record<string, Partial<ModuleMetadata>> = {};
+
+    for (const [id, value] of Object.entries(modules as Record<string, unknown>)) {
+      if (!value || typeof value !== 'object') continue;
+      const fields = value as Record<string, unknown>;
+      const entry: Partial<ModuleMetadata> = {};
+
+      if (typeof fields.name === 'string') entry.name = fields.name;
+      if (typeof fields.description === 'string') entry.description = fields.description;
+      if (typeof fields.recommended === 'boolean') entry.recommended = fields.recommended;
+      if (typeof fields.startupImpact === 'string') entry.startupImpact = fields.startupImpact;
+      if (MODULE_CATEGORIES.includes(fields.category as ModuleCategory)) {
+        entry.category = fields.category as ModuleCategory;
+      }
+      if (Array.isArray(fields.dependencies)) {
+        entry.dependencies = fields.dependencies.filter((d): d is string => typeof d === 'string');
+      }
+      if (Array.isArray(fields.platforms)) {
+        entry.platforms = fields.platforms.filter((p): p is Platform => PLATFORMS.includes(p));
+      }
+
+      metadata[id] = entry;
+    }
+
+    return metadata;
+  }
 }
@@ -0,0 +1,734 @@
+/**
+ * Go Template Evaluator
+ * Executes a parsed template against data with Go's text/template semantics
+ *
+ * Values the simulation cannot know (an unsupported function, an unset
+ * `.chezmoi.*` fact, ...) evaluate to an UnknownValue. Unknown values
+ * propagate through functions, are reported once as a diagnostic, count as
+ * false in if/with/range, and render as their original action source.
+ * A missing map key has no value, as in Go, and is reported as well.
+ */
+
+import type { RenderMarker, TemplateDiagnostic } from '../../types';
+import type {
+  BranchNode,
+  CommandNode,
+  ListNode,
+  OperandNode,
+  PipelineNode,
+  Position,
+  TemplateCallNode,
+  TemplateTree,
+} from './ast';
+
+export type TemplateFunction = (...args: unknown[]) => unknown;
+
+export class UnknownValue {
+  constructor(readonly reason: string) {}
+}
+
+/**
+ * A stand-in result from a function that depends on the target machine
+ * (e.g. lookPath); the value is used and the note is reported
+ */
+export class Stubbed {
+  constructor(readonly value: unknown, readonly note: string) {}
+}
+
+/**
+ * Marks an object whose missing keys are unknown rather than absent
+ */
+const PARTIAL = Symbol('partial');
+
+/**
+ * Mark an object as partially known: looking up a key it does not have
+ * yields an UnknownValue instead of "no value"
+ */
+export function partial<T extends object>(value: T): T {
+  return Object.assign(value, { [PARTIAL]: true });
+}
+
+export interface RenderResult {
+  output: string;
+  /** Spans of the output that could not be rendered */
+  markers: RenderMarker[];
+  diagnostics: TemplateDiagnostic[];
+  /** Template line each output line came from (1-based; 0 when unknown) */
+  sourceLines: number[];
+}
+
+/**
+ * Nested template calls allowed before giving up (guards against recursion)
+ */
+const MAX_TEMPLATE_DEPTH = 100;
+
+/**
+ * Iterations allowed per range, so a huge generated range cannot hang a request
+ */
+const MAX_RANGE_ITERATIONS = 10_000;
+
+class BreakSignal {}
+class ContinueSignal {}
+
+/**
+ * Rendered text plus markers for the parts that could not be rendered
+ */
+class Output {
+  private parts: string[] = [];
+  private length = 0;
+  private origins: { start: number; end: number; line: number; verbatim: boolean }[] = [];
+  readonly markers: RenderMarker[] = [];
+
+  /**
+   * @param origin - Where the text comes from: verbatim template text, or
+   *                 the action that produced it
+   */
+  write(text: string, origin?: { pos: Position; verbatim: boolean }): void {
+    if (origin && text) {
+      this.origins.push({ start: this.length, end: this.length + text.length, line: origin.pos.line, verbatim: origin.verbatim });
+    }
+    this.parts.push(text);
+    this.length += text.length;
+  }
+
+  /**
+   * Record that output written since `start` came from `pos`, unless it
+   * already has more precise origins
+   */
+  attribute(start: number, pos: Position): void {
+    if (this.length > start) {
+      this.origins.push({ start, end: this.length, line: pos.line, verbatim: false });
+    }
+  }
+
+  get offset(): number {
+    return this.length;
+  }
+
+  /**
+   * Write text (possibly empty) flagged with a message
+   */
+  mark(text: string, message: string): void {
+    this.markers.push({ start: this.length, end: this.length + text.length, message });
+    this.write(text);
+  }
+
+  toString(): string {
+    return this.parts.join('');
+  }
+
+  /**
+   * Template line of each output line, judged by its first non-blank character
+   */
+  sourceLines(): number[] {
+    const text = this.toString();
+    const lines: number[] = [];
+    let lineStart = 0;
+
+    for (const line of text.split('\n')) {
+      const first = lineStart + line.search(/\S|$/);
+      const origin = this.origins.find(o => o.start <= first && first < o.end);
+
+      if (!origin) {
+        lines.push(0);
+      } else if (origin.verbatim) {
+        const newlines = text.slice(origin.start, first).split('\n').length - 1;
+        lines.push(origin.line + newlines);
+      } else {
+        lines.push(origin.line);
+      }
+
+      lineStart += line.length + 1;
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Go's notion of truth: false, 0, nil and empty strings, slices and maps are false
+ */
+export function isTrue(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === 0 || value === '') {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'object' && !(value instanceof UnknownValue)) {
+    return Object.keys(value).length > 0;
+  }
+  return true;
+}
+
+/**
+ * Format a value the way fmt's %v does
+ */
+export function formatValue(value: unknown): string {
+  if (value === undefined) return '<no value>';
+  if (value === null) return '<nil>';
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(' ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .map(key => `${key}:${formatValue((value as Record<string, unknown>)[key])}`);
+    return `map[${entries.join(' ')}]`;
+  }
+  return String(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof UnknownValue);
+}
+
+function basicKind(value: unknown): string {
+  if (value === undefined || value === null) return 'nil';
+  if (Array.isArray(value)) return 'slice';
+  return typeof value === 'object' ? 'map' : typeof value;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const kind = basicKind(a);
+  if (kind !== basicKind(b)) {
+    throw new Error('incompatible types for comparison');
+  }
+  if (kind !== 'number' && kind !== 'string') {
+    throw new Error(`invalid type for comparison: ${kind}`);
+  }
+  return (a as number | string) < (b as number | string) ? -1 : a === b ? 0 : 1;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  const kindA = basicKind(a);
+  const kindB = basicKind(b);
+
+  if (kindA === 'nil' || kindB === 'nil') {
+    return kindA === kindB;
+  }
+  if (kindA !== kindB) {
+    throw new Error('incompatible types for comparison');
+  }
+  if (kindA === 'slice' || kindA === 'map') {
+    throw new Error(`non-comparable type: ${kindA}`);
+  }
+  return a === b;
+}
+
+/**
+ * Minimal fmt.Sprintf: %v %s %d %q %t %x %f and %%
+ */
+function sprintf(format: unknown, ...args: unknown[]): string {
+  let next = 0;
+
+  return String(format).replace(/%([-+# 0]*\d*(?:\.\d+)?)([vsdqtxXf%])/g, (match, flags: string, verb: string) => {
+    if (verb === '%') return '%';
+    if (next >= args.length) return `%!${verb}(MISSING)`;
+
+    const arg = args[next++];
+    switch (verb) {
+      case 'q':
+        return JSON.stringify(String(arg));
+      case 'd':
+        return typeof arg === 'number' ? String(Math.trunc(arg)) : `%!d(${formatValue(arg)})`;
+      case 'x':
+      case 'X': {
+        const hex = typeof arg === 'number'
+          ? arg.toString(16)
+          : Buffer.from(String(arg)).toString('hex');
+        return verb === 'X' ? hex.toUpperCase() : hex;
+      }
+      case 'f': {
+        const precision = flags.match(/\.(\d+)/);
+        return typeof arg === 'number' ? arg.toFixed(precision ? Number(precision[1]) : 6) : `%!f(${formatValue(arg)})`;
+      }
+      default:
+        return formatValue(arg);
+    }
+  });
+}
+
+/**
+ * Functions predefined by text/template (`and`/`or` are evaluated lazily
+ * by the evaluator itself)
+ */
+const BUILTINS: Record<string, TemplateFunction> = {
+  not: (value) => !isTrue(value),
+  eq: (first, ...others) => {
+    if (others.length === 0) throw new Error('missing argument for comparison');
+    return others.some(other => equals(first, other));
+  },
+  ne: (a, b) => !equals(a, b),
+  lt: (a, b) => compare(a, b) < 0,
+  le: (a, b) => compare(a, b) <= 0,
+  gt: (a, b) => compare(a, b) > 0,
+  ge: (a, b) => compare(a, b) >= 0,
+  len: (value) => {
+    if (typeof value === 'string') return Buffer.byteLength(value);
+    if (Array.isArray(value)) return value.length;
+    if (isObject(value)) return Object.keys(value).length;
+    throw new Error(`len of type ${basicKind(value)}`);
+  },
+  index: (collection, ...keys) => {
+    let value = collection;
+    for (const key of keys) {
+      if (Array.isArray(value) || typeof value === 'string') {
+        if (typeof key !== 'number' || key < 0 || key >= value.length) {
+          throw new Error(`index out of range: ${formatValue(key)}`);
+        }
+        value = value[key];
+      } else if (isObject(value)) {
+        value = value[String(key)];
+      } else {
+        throw new Error(`can't index item of type ${basicKind(value)}`);
+      }
+    }
+    return value;
+  },
+  slice: (value, ...indexes) => {
+    if (typeof value !== 'string' && !Array.isArray(value)) {
+      throw new Error(`can't slice item of type ${basicKind(value)}`);
+    }
+    const [start = 0, end = value.length] = indexes as number[];
+    if (start < 0 || end > value.length || start > end) {
+      throw new Error(`slice index out of range: ${start}:${end}`);
+    }
+    return value.slice(start, end);
+  },
+  print: (...args) => args
+    .map((arg, i) => (i > 0 && typeof arg !== 'string' && typeof args[i - 1] !== 'string' ? ' ' : '') + formatValue(arg))
+    .join(''),
+  println: (...args) => `${args.map(formatValue).join(' ')}\n`,
+  printf: sprintf,
+  html: (...args) => args.map(formatValue).join('')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&#34;').replace(/'/g, '&#39;'),
+  js: (...args) => JSON.stringify(args.map(formatValue).join('')).slice(1, -1)
+    .replace(/'/g, "\\'").replace(/</g, '\\u003C').replace(/>/g, '\\u003E'),
+  urlquery: (...args) => encodeURIComponent(args.map(formatValue).join('')),
+};
+
+export class Evaluator {
+  private functions: Record<string, TemplateFunction>;
+  private defines: Record<string, ListNode> = {};
+  private scopes: Map<string, unknown>[] = [];
+  private dot: unknown;
+  private depth = 0;
+  private diagnosticList: TemplateDiagnostic[] = [];
+  private reported = new Set<string>();
+  /** Notes of stubbed functions called by the action being evaluated */
+  private stubNotes: string[] = [];
+
+  /**
+   * @param data - The template's `.` (and `$`)
+   * @param functions - Additional functions, e.g. chezmoi's template functions
+   */
+  constructor(data: unknown, functions: Record<string, TemplateFunction> = {}) {
+    this.dot = data;
+    this.functions = { ...BUILTINS, ...functions };
+    this.scopes = [new Map([['$', data]])];
+  }
+
+  get diagnostics(): TemplateDiagnostic[] {
+    return [...this.diagnosticList];
+  }
+
+  /**
+   * Register a named template for {{ template "name" }}
+   * (chezmoi loads these from .chezmoitemplates)
+   */
+  define(name: string, body: ListNode): void {
+    this.defines[name] = body;
+  }
+
+  /**
+   * Execute a template and collect its output
+   */
+  render(tree: TemplateTree): RenderResult {
+    const output = new Output();
+    this.defines = { ...this.defines, ...tree.defines };
+
+    try {
+      this.walkList(tree.root, output);
+    } catch (signal) {
+      if (!(signal instanceof BreakSignal || signal instanceof ContinueSignal)) {
+        throw signal;
+      }
+      this.report('{{break}} or {{continue}} outside range', tree.root.pos);
+    }
+
+    return {
+      output: output.toString(),
+      markers: output.markers,
+      diagnostics: this.diagnostics,
+      sourceLines: output.sourceLines(),
+    };
+  }
+
+  /**
+   * Evaluate a pipeline as a condition
+   * Returns null when the condition could not be evaluated
+   */
+  evaluateCondition(pipeline: PipelineNode): boolean | null {
+    const value = this.evalPipeline(pipeline);
+    return value instanceof UnknownValue ? null : isTrue(value);
+  }
+
+  // ----- Diagnostics -----
+
+  private report(message: string, pos: Position, expression?: string): void {
+    const key = `${pos.offset}:${message}`;
+    if (this.reported.has(key)) {
+      return;
+    }
+
+    this.reported.add(key);
+    this.diagnosticList.push({ severity: 'warning', message, line: pos.line, column: pos.column, expression });
+  }
+
+  private unknown(message: string, pos: Position, expression?: string): UnknownValue {
+    this.report(message, pos, expression);
+    return new UnknownValue(message);
+  }
+
+  // ----- Structure -----
+
+  private walkList(list: ListNode, output: Output): void {
+    for (const node of list.nodes) {
+      switch (node.type) {
+        case 'text':
+          output.write(node.text, this.depth === 0 ? { pos: node.pos, verbatim: true } : undefined);
+          break;
+        case 'action': {
+          this.stubNotes = [];
+          const value = this.evalPipeline(node.pipeline);
+          if (node.pipeline.declarations.length > 0) {
+            break;
+          }
+          if (value instanceof UnknownValue) {
+            output.mark(node.source, value.reason);
+          } else if (this.stubNotes.length > 0) {
+            // Output that depends on stand-in values is flagged too
+            output.mark(formatValue(value), this.stubNotes.join('; '));
+          } else {
+            output.write(formatValue(value), this.depth === 0 ? { pos: node.pos, verbatim: false } : undefined);
+          }
+          break;
+        }
+        case 'if':
+        case 'with':
+          this.walkBranch(node, output);
+          break;
+        case 'range':
+          this.walkRange(node, output);
+          break;
+        case 'template':
+          this.walkTemplateCall(node, output);
+          break;
+        case 'break':
+          throw new BreakSignal();
+        case 'continue':
+          throw new ContinueSignal();
+      }
+    }
+  }
+
+  private withScope(dot: unknown, body: () => void): void {
+    const savedDot = this.dot;
+    this.dot = dot;
+    this.scopes.push(new Map());
+
+    try {
+      body();
+    } finally {
+      this.scopes.pop();
+      this.dot = savedDot;
+    }
+  }
+
+  private walkBranch(node: BranchNode, output: Output): void {
+    // Variables declared in the condition are visible in both branches
+    this.withScope(this.dot, () => {
+      const value = this.evalPipeline(node.pipeline);
+
+      // Unknown conditions were reported where they arose; take the else branch
+      if (value instanceof UnknownValue) {
+        output.mark('', `{{${node.type} ${node.pipeline.source}}} treated as false: ${value.reason}`);
+      }
+
+      if (!(value instanceof UnknownValue) && isTrue(value)) {
+        if (node.type === 'with') {
+          this.dot = value;
+        }
+        this.walkList(node.list, output);
+      } else if (node.elseList) {
+        this.walkList(node.elseList, output);
+      }
+    });
+  }
+
+  private walkRange(node: BranchNode, output: Output): void {
+    const collection = this.evalPipeline({ ...node.pipeline, declarations: [] });
+    let items: [unknown, unknown][] = [];
+
+    if (collection instanceof UnknownValue) {
+      output.mark('', `{{range ${node.pipeline.source}}} treated as empty: ${collection.reason}`);
+    } else if (Array.isArray(collection)) {
+      items = collection.map((item, i) => [i, item]);
+    } else if (isObject(collection)) {
+      items = Object.keys(collection).sort().map(key => [key, collection[key]]);
+    } else if (typeof collection === 'number' && Number.isInteger(collection)) {
+      items = Array.from({ length: Math.max(0, collection) }, (_, i) => [i, i]);
+    } else if (collection !== undefined && collection !== null) {
+      this.report(`range can't iterate over ${formatValue(collection)}`, node.pos, node.pipeline.source);
+    }
+
+    if (items.length > MAX_RANGE_ITERATIONS) {
+      this.report(`range stopped after ${MAX_RANGE_ITERATIONS} iterations`, node.pos, node.pipeline.source);
+      items = items.slice(0, MAX_RANGE_ITERATIONS);
+    }
+
+    if (items.length === 0) {
+      if (node.elseList) {
+        this.withScope(this.dot, () => this.walkList(node.elseList!, output));
+      }
+      return;
+    }
+
+    const [first, second] = node.pipeline.declarations;
+
+    for (const [key, item] of items) {
+      try {
+        this.withScope(item, () => {
+          const scope = this.scopes[this.scopes.length - 1];
+          if (second) {
+            scope.set(first, key);
+            scope.set(second, item);
+          } else if (first) {
+            scope.set(first, item);
+          }
+          this.walkList(node.list, output);
+        });
+      } catch (signal) {
+        if (signal instanceof BreakSignal) break;
+        if (signal instanceof ContinueSignal) continue;
+        throw signal;
+      }
+    }
+  }
+
+  private walkTemplateCall(node: TemplateCallNode, output: Output): void {
+    const body = this.defines[node.name];
+    if (!body) {
+      this.report(`template "${node.name}" is not defined`, node.pos, node.source);
+      output.mark(node.source, `template "${node.name}" is not defined`);
+      return;
+    }
+
+    if (this.depth >= MAX_TEMPLATE_DEPTH) {
+      this.report(`template "${node.name}" nests too deeply`, node.pos, node.source);
+      return;
+    }
+
+    const dot = node.pipeline ? this.evalPipeline(node.pipeline) : undefined;
+    const savedScopes = this.scopes;
+
+    // A called template sees only its own $ (its dot), not the caller's variables
+    this.scopes = [new Map([['$', dot]])];
+    const start = output.offset;
+    this.depth++;
+    try {
+      this.withScope(dot, () => this.walkList(body, output));
+    } finally {
+      this.depth--;
+      this.scopes = savedScopes;
+    }
+
+    // Output of a called template traces back to the call
+    if (this.depth === 0) {
+      output.attribute(start, node.pos);
+    }
+  }
+
+  // ----- Pipelines -----
+
+  private evalPipeline(pipeline: PipelineNode): unknown {
+    let value: unknown = undefined;
+
+    pipeline.commands.forEach((command, i) => {
+      value = this.evalCommand(command, pipeline, i > 0, value);
+    });
+
+    for (const name of pipeline.declarations) {
+      if (pipeline.isAssign) {
+        const scope = [...this.scopes].reverse().find(s => s.has(name));
+        if (!scope) {
+          this.report(`undefined variable: ${name}`, pipeline.pos, pipeline.source);
+        } else {
+          scope.set(name, value);
+        }
+      } else {
+        this.scopes[this.scopes.length - 1].set(name, value);
+      }
+    }
+
+    return value;
+  }
+
+  private evalCommand(command: CommandNode, pipeline: PipelineNode, piped: boolean, pipedValue: unknown): unknown {
+    const [first, ...rest] = command.args;
+
+    if (first.type === 'identifier') {
+      return this.call(first.name, rest, piped, pipedValue, command.pos, pipeline.source);
+    }
+
+    if (rest.length > 0 || piped) {
+      return this.unknown(`can't give argument to non-function ${this.describe(first)}`, command.pos, pipeline.source);
+    }
+
+    return this.evalOperand(first);
+  }
+
+  private call(
+    name: string,
+    argNodes: OperandNode[],
+    piped: boolean,
+    pipedValue: unknown,
+    pos: Position,
+    source: string
+  ): unknown {
+    // and/or evaluate their arguments lazily and return one of them
+    if (name === 'and' || name === 'or') {
+      const argCount = argNodes.length + (piped ? 1 : 0);
+      if (argCount === 0) {
+        return this.unknown(`wrong number of args for ${name}: want at least 1 got 0`, pos, source);
+      }
+
+      let unknownArg: UnknownValue | null = null;
+      let value: unknown = undefined;
+
+      for (let i = 0; i < argCount; i++) {
+        value = i < argNodes.length ? this.evalOperand(argNodes[i]) : pipedValue;
+
+        if (value instanceof UnknownValue) {
+          unknownArg ??= value;
+        } else if (isTrue(value) === (name === 'or')) {
+          return value;
+        }
+      }
+
+      return unknownArg ?? value;
+    }
+
+    const fn = this.functions[name];
+    if (!fn) {
+      return this.unknown(`function "${name}" is not supported`, pos, source);
+    }
+
+    const args = argNodes.map(arg => this.evalOperand(arg));
+    if (piped) {
+      args.push(pipedValue);
+    }
+
+    const unknownArg = args.find(arg => arg instanceof UnknownValue);
+    if (unknownArg) {
+      return unknownArg;
+    }
+
+    try {
+      const result = fn(...args);
+
+      if (result instanceof UnknownValue) {
+        return this.unknown(result.reason, pos, source);
+      }
+      if (result instanceof Stubbed) {
+        this.report(result.note, pos, source);
+        this.stubNotes.push(result.note);
+        return result.value;
+      }
+
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.unknown(`error calling ${name}: ${message}`, pos, source);
+    }
+  }
+
+  private evalOperand(node: OperandNode): unknown {
+    switch (node.type) {
+      case 'dot':
+        return this.dot;
+      case 'field':
+        return this.resolvePath(this.dot, node.path, node.pos, '');
+      case 'variable': {
+        const scope = [...this.scopes].reverse().find(s => s.has(node.name));
+        if (!scope) {
+          return this.unknown(`undefined variable: ${node.name}`, node.pos, node.name);
+        }
+        return this.resolvePath(scope.get(node.name), node.path, node.pos, node.name);
+      }
+      case 'identifier':
+        // A bare function name as an argument is a call without arguments
+        return this.call(node.name, [], false, undefined, node.pos, node.name);
+      case 'string':
+      case 'number':
+      case 'bool':
+        return node.value;
+      case 'nil':
+        return null;
+      case 'subpipeline': {
+        const value = this.evalPipeline(node.pipeline);
+        return this.resolvePath(value, node.path, node.pos, `(${node.pipeline.source})`);
+      }
+    }
+  }
+
+  /**
+   * Follow field names from a value
+   * Missing keys have no value and are reported, except in partially known
+   * objects, where they are unknown
+   *
+   * @param base - What the path starts from, for messages ('' for dot, `$x`, ...)
+   */
+  private resolvePath(value: unknown, path: string[], pos: Position, base: string): unknown {
+    let current = value;
+    let traversed = base;
+
+    for (const key of path) {
+      traversed += `.${key}`;
+
+      if (current instanceof UnknownValue) {
+        return current;
+      }
+      if (current === undefined || current === null) {
+        return undefined;
+      }
+      if (!isObject(current)) {
+        return this.unknown(`can't evaluate field ${key} in type ${basicKind(current)}`, pos, traversed);
+      }
+      if (Object.prototype.hasOwnProperty.call(current, key)) {
+        current = current[key];
+      } else if ((current as Record<symbol, unknown>)[PARTIAL]) {
+        return this.unknown(`${traversed} is not known in the simulation`, pos, traversed);
+      } else {
+        this.report(`map has no entry for key "${key}"`, pos, traversed);
+        return undefined;
+      }
+    }
+
+    return current;
+  }
+
+  private describe(node: OperandNode): string {
+    switch (node.type) {
+      case 'field':
+        return `.${node.path.join('.')}`;
+      case 'variable':
+        return [node.name, ...node.path].join('.');
+      case 'string':
+        return JSON.stringify(node.value);
+      case 'number':
+        return node.text;
+      default:
+        return node.type;
+    }
+  }
+}
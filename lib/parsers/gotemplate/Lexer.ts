@@ -0,0 +1,389 @@
+/**
+ * Go Template Lexer
+ * Splits a template into text and action tokens, following text/template's
+ * rules for delimiters, trim markers (`{{-` / `-}}`) and comments
+ */
+
+import type { Position } from './ast';
+
+export type TokenType =
+  | 'text'
+  | 'leftDelim'
+  | 'rightDelim'
+  | 'keyword'
+  | 'identifier'
+  | 'dot'
+  | 'field'
+  | 'variable'
+  | 'string'
+  | 'number'
+  | 'bool'
+  | 'nil'
+  | 'leftParen'
+  | 'rightParen'
+  | 'pipe'
+  | 'comma'
+  | 'declare'
+  | 'assign'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  /** Raw source of the token (decoded value for strings) */
+  value: string;
+  /** Start and end offsets in the source */
+  start: number;
+  end: number;
+  /** Whether whitespace precedes the token inside an action */
+  spaceBefore: boolean;
+  /** Field names of field and variable tokens: `.a.b` → ['a', 'b'] */
+  path?: string[];
+}
+
+const KEYWORDS = new Set([
+  'if', 'else', 'end', 'range', 'with', 'template', 'define', 'block', 'break', 'continue',
+]);
+
+const SPACE = /[ \t\r\n]/;
+const ALPHANUMERIC = /[\w]/;
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', "'": "'", a: '\x07', b: '\b', f: '\f', v: '\v', '0': '\0',
+};
+
+/**
+ * Error raised for malformed templates, with the location of the problem
+ */
+export class TemplateSyntaxError extends Error {
+  /** The message without its location */
+  readonly reason: string;
+  readonly pos: Position;
+
+  constructor(reason: string, pos: Position) {
+    super(`${reason} (line ${pos.line}, column ${pos.column})`);
+    this.name = 'TemplateSyntaxError';
+    this.reason = reason;
+    this.pos = pos;
+  }
+}
+
+/**
+ * Build a lookup from source offsets to line and column
+ */
+export function createPositionLookup(source: string): (offset: number) => Position {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number): Position => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return { offset, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+export class Lexer {
+  private source: string;
+  private offset = 0;
+  private tokens: Token[] = [];
+  private position: (offset: number) => Position;
+
+  private constructor(source: string) {
+    this.source = source;
+    this.position = createPositionLookup(source);
+  }
+
+  /**
+   * Tokenize a whole template
+   */
+  static tokenize(source: string): Token[] {
+    const lexer = new Lexer(source);
+    lexer.lexText();
+    return lexer.tokens;
+  }
+
+  /**
+   * Tokenize a bare expression (the inside of an action, without delimiters)
+   */
+  static tokenizeExpression(expression: string): Token[] {
+    const lexer = new Lexer(expression);
+    lexer.lexInsideAction(expression.length);
+    lexer.push('eof', '', expression.length, expression.length, false);
+    return lexer.tokens;
+  }
+
+  private error(message: string, offset: number = this.offset): never {
+    throw new TemplateSyntaxError(message, this.position(offset));
+  }
+
+  private push(type: TokenType, value: string, start: number, end: number, spaceBefore: boolean, path?: string[]) {
+    this.tokens.push({ type, value, start, end, spaceBefore, path });
+  }
+
+  /**
+   * Text up to the next action; trims whitespace for `{{-` and after `-}}`
+   */
+  private lexText(): void {
+    let trimLeading = false;
+
+    while (this.offset <= this.source.length) {
+      const delim = this.source.indexOf('{{', this.offset);
+      const textEnd = delim === -1 ? this.source.length : delim;
+      const trimBefore = delim !== -1 && this.source[delim + 2] === '-' && SPACE.test(this.source[delim + 3] ?? '');
+
+      let textStart = this.offset;
+      let text = this.source.slice(textStart, textEnd);
+
+      if (trimLeading) {
+        const trimmed = text.replace(/^[ \t\r\n]+/, '');
+        textStart += text.length - trimmed.length;
+        text = trimmed;
+      }
+      if (trimBefore) {
+        text = text.replace(/[ \t\r\n]+$/, '');
+      }
+      if (text) {
+        this.push('text', text, textStart, textStart + text.length, false);
+      }
+
+      if (delim === -1) {
+        break;
+      }
+
+      trimLeading = this.lexAction(delim, trimBefore);
+    }
+
+    this.push('eof', '', this.source.length, this.source.length, false);
+  }
+
+  /**
+   * Lex one `{{ ... }}` action starting at `start`
+   * Returns whether the action ends with a right trim marker
+   */
+  private lexAction(start: number, trimBefore: boolean): boolean {
+    this.offset = start + (trimBefore ? 3 : 2);
+
+    // Comments: {{/* ... */}}, optionally with trim markers
+    const afterSpace = this.source.slice(this.offset).match(/^[ \t\r\n]*/)![0].length;
+    if (this.source.startsWith('/*', this.offset + (trimBefore ? afterSpace : 0))) {
+      const commentStart = this.offset + (trimBefore ? afterSpace : 0);
+      const commentEnd = this.source.indexOf('*/', commentStart + 2);
+      if (commentEnd === -1) {
+        this.error('unclosed comment', start);
+      }
+
+      const rest = this.source.slice(commentEnd + 2);
+      const close = rest.match(/^([ \t\r\n]+-)?}}/);
+      if (!close) {
+        this.error('comment ends before closing delimiter', commentEnd);
+      }
+
+      this.offset = commentEnd + 2 + close[0].length;
+      return !!close[1];
+    }
+
+    this.push('leftDelim', '{{', start, this.offset, false);
+    const closeAt = this.findActionEnd(this.offset);
+    const trimAfter = this.source[closeAt] === '-';
+    const innerEnd = trimAfter ? closeAt - 1 : closeAt;
+
+    this.lexInsideAction(innerEnd);
+    this.offset = closeAt + (trimAfter ? 3 : 2);
+    this.push('rightDelim', '}}', closeAt, this.offset, false);
+
+    return trimAfter;
+  }
+
+  /**
+   * Offset of the closing `}}` (or the `-` of ` -}}`), skipping quoted strings
+   */
+  private findActionEnd(from: number): number {
+    let i = from;
+
+    while (i < this.source.length) {
+      const char = this.source[i];
+
+      if (char === '"' || char === '`' || char === "'") {
+        const close = char === '`'
+          ? this.source.indexOf('`', i + 1)
+          : this.findQuoteEnd(i, char);
+        if (close === -1) {
+          this.error('unterminated quoted string', i);
+        }
+        i = close + 1;
+        continue;
+      }
+
+      if (SPACE.test(char) && this.source.startsWith('-}}', i + 1)) {
+        return i + 1;
+      }
+      if (this.source.startsWith('}}', i)) {
+        return i;
+      }
+
+      i++;
+    }
+
+    this.error('unclosed action', from - 2);
+  }
+
+  private findQuoteEnd(start: number, quote: string): number {
+    for (let i = start + 1; i < this.source.length; i++) {
+      if (this.source[i] === '\\') {
+        i++;
+      } else if (this.source[i] === quote) {
+        return i;
+      } else if (this.source[i] === '\n') {
+        return -1;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Tokens between the delimiters of an action
+   */
+  private lexInsideAction(end: number): void {
+    let spaceBefore = false;
+
+    while (this.offset < end) {
+      const start = this.offset;
+      const char = this.source[start];
+      const next = this.source[start + 1] ?? '';
+
+      if (SPACE.test(char)) {
+        this.offset++;
+        spaceBefore = true;
+        continue;
+      }
+
+      if (char === '"') {
+        const close = this.findQuoteEnd(start, '"');
+        if (close === -1) {
+          this.error('unterminated quoted string', start);
+        }
+        this.offset = close + 1;
+        this.push('string', this.unquote(this.source.slice(start + 1, close), start), start, this.offset, spaceBefore);
+      } else if (char === '`') {
+        const close = this.source.indexOf('`', start + 1);
+        if (close === -1) {
+          this.error('unterminated raw quoted string', start);
+        }
+        this.offset = close + 1;
+        this.push('string', this.source.slice(start + 1, close), start, this.offset, spaceBefore);
+      } else if (char === "'") {
+        const close = this.findQuoteEnd(start, "'");
+        if (close === -1) {
+          this.error('unterminated character constant', start);
+        }
+        const value = this.unquote(this.source.slice(start + 1, close), start);
+        this.offset = close + 1;
+        this.push('number', String(value.codePointAt(0) ?? 0), start, this.offset, spaceBefore);
+      } else if (char === '(') {
+        this.offset++;
+        this.push('leftParen', char, start, this.offset, spaceBefore);
+      } else if (char === ')') {
+        this.offset++;
+        this.push('rightParen', char, start, this.offset, spaceBefore);
+      } else if (char === '|') {
+        this.offset++;
+        this.push('pipe', char, start, this.offset, spaceBefore);
+      } else if (char === ',') {
+        this.offset++;
+        this.push('comma', char, start, this.offset, spaceBefore);
+      } else if (char === ':' && next === '=') {
+        this.offset += 2;
+        this.push('declare', ':=', start, this.offset, spaceBefore);
+      } else if (char === '=') {
+        this.offset++;
+        this.push('assign', char, start, this.offset, spaceBefore);
+      } else if (char === '$') {
+        this.offset++;
+        const name = this.readWord();
+        const path = this.readFieldPath();
+        this.push('variable', `$${name}`, start, this.offset, spaceBefore, path);
+      } else if (char === '.' && !/[0-9]/.test(next)) {
+        if (ALPHANUMERIC.test(next)) {
+          const path = this.readFieldPath();
+          this.push('field', this.source.slice(start, this.offset), start, this.offset, spaceBefore, path);
+        } else {
+          this.offset++;
+          this.push('dot', char, start, this.offset, spaceBefore);
+        }
+      } else if (/[0-9]/.test(char) || ((char === '-' || char === '+' || char === '.') && /[0-9.]/.test(next))) {
+        const match = this.source.slice(start, end).match(/^[+-]?(0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(\d[\d_]*)?\.?\d*([eE][+-]?\d+)?)/);
+        if (!match || !match[0] || match[0] === '-' || match[0] === '+') {
+          this.error(`bad number syntax: ${char}`, start);
+        }
+        this.offset += match[0].length;
+        this.push('number', match[0], start, this.offset, spaceBefore);
+      } else if (ALPHANUMERIC.test(char)) {
+        const word = this.readWord();
+        const type: TokenType = KEYWORDS.has(word)
+          ? 'keyword'
+          : word === 'true' || word === 'false'
+            ? 'bool'
+            : word === 'nil' ? 'nil' : 'identifier';
+        this.push(type, word, start, this.offset, spaceBefore);
+      } else {
+        this.error(`unexpected "${char}" in action`, start);
+      }
+
+      spaceBefore = false;
+    }
+  }
+
+  private readWord(): string {
+    const start = this.offset;
+    while (this.offset < this.source.length && ALPHANUMERIC.test(this.source[this.offset])) {
+      this.offset++;
+    }
+    return this.source.slice(start, this.offset);
+  }
+
+  /**
+   * Read `.a.b.c` directly at the current offset
+   */
+  private readFieldPath(): string[] {
+    const path: string[] = [];
+
+    while (this.source[this.offset] === '.' && ALPHANUMERIC.test(this.source[this.offset + 1] ?? '')) {
+      this.offset++;
+      path.push(this.readWord());
+    }
+
+    return path;
+  }
+
+  /**
+   * Decode escape sequences of an interpreted string literal
+   */
+  private unquote(body: string, start: number): string {
+    return body.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|[0-7]{3}|.)/g, (escape, code: string) => {
+      if (/^[xuU]/.test(code)) {
+        return String.fromCodePoint(parseInt(code.slice(1), 16));
+      }
+      if (/^[0-7]{3}$/.test(code)) {
+        return String.fromCodePoint(parseInt(code, 8));
+      }
+      if (code in ESCAPES) {
+        return ESCAPES[code];
+      }
+      this.error(`unknown escape sequence: ${escape}`, start);
+    });
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Go Template Parser
+ * Builds an AST from lexer tokens: actions, pipelines, if/else if/else,
+ * with, range, define/block/template, break and continue
+ */
+
+import { createPositionLookup, Lexer, TemplateSyntaxError, Token, TokenType } from './Lexer';
+import type {
+  BranchNode,
+  CommandNode,
+  ListNode,
+  OperandNode,
+  PipelineNode,
+  Position,
+  TemplateNode,
+  TemplateTree,
+} from './ast';
+
+export class Parser {
+  private source: string;
+  private tokens: Token[];
+  private index = 0;
+  private position: (offset: number) => Position;
+  private defines: Record<string, ListNode> = {};
+
+  private constructor(source: string, tokens: Token[]) {
+    this.source = source;
+    this.tokens = tokens;
+    this.position = createPositionLookup(source);
+  }
+
+  /**
+   * Parse a complete template
+   * @throws TemplateSyntaxError
+   */
+  static parse(source: string): TemplateTree {
+    const parser = new Parser(source, Lexer.tokenize(source));
+    const root = parser.parseList();
+
+    if (parser.peek().type !== 'eof') {
+      // parseList only stops early at {{else}} or {{end}}
+      parser.error(`unexpected {{${parser.peek(1).value}}}`, parser.peek());
+    }
+
+    return { root, defines: parser.defines };
+  }
+
+  /**
+   * Parse a bare pipeline such as `and .a (not .b)`
+   * @throws TemplateSyntaxError
+   */
+  static parseExpression(expression: string): PipelineNode {
+    const parser = new Parser(expression, Lexer.tokenizeExpression(expression));
+    return parser.parsePipeline('eof', false);
+  }
+
+  // ----- Token helpers -----
+
+  private peek(ahead: number = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (this.index < this.tokens.length - 1) {
+      this.index++;
+    }
+    return token;
+  }
+
+  private expect(type: TokenType, context: string): Token {
+    const token = this.next();
+    if (token.type !== type) {
+      this.error(`unexpected ${this.describe(token)} in ${context}`, token);
+    }
+    return token;
+  }
+
+  private expectKeyword(keyword: string, context: string): void {
+    const token = this.next();
+    if (token.type !== 'keyword' || token.value !== keyword) {
+      this.error(`expected {{${keyword}}} in ${context}, found ${this.describe(token)}`, token);
+    }
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof':
+        return 'end of input';
+      case 'rightDelim':
+        return '"}}"';
+      case 'string':
+        return 'quoted string';
+      default:
+        return `"${token.value}"`;
+    }
+  }
+
+  private error(message: string, token: Token): never {
+    throw new TemplateSyntaxError(message, this.position(token.start));
+  }
+
+  /**
+   * Whether the next tokens are `{{ keyword`
+   */
+  private atKeyword(...keywords: string[]): boolean {
+    const delim = this.peek();
+    const keyword = this.peek(1);
+    return delim.type === 'leftDelim' && keyword.type === 'keyword' && keywords.includes(keyword.value);
+  }
+
+  // ----- Template structure -----
+
+  /**
+   * Parse nodes up to end of input, {{else}} or {{end}} (not consumed)
+   */
+  private parseList(): ListNode {
+    const start = this.peek();
+    const nodes: TemplateNode[] = [];
+
+    while (this.peek().type !== 'eof' && !this.atKeyword('else', 'end')) {
+      const token = this.next();
+
+      if (token.type === 'text') {
+        nodes.push({ type: 'text', text: token.value, pos: this.position(token.start) });
+      } else if (token.type === 'leftDelim') {
+        const node = this.parseAction(token);
+        if (node) {
+          nodes.push(node);
+        }
+      } else {
+        this.error(`unexpected ${this.describe(token)}`, token);
+      }
+    }
+
+    return { type: 'list', nodes, pos: this.position(start.start) };
+  }
+
+  /**
+   * Parse an action after its `{{`; define returns no node
+   */
+  private parseAction(delim: Token): TemplateNode | null {
+    const token = this.peek();
+    const pos = this.position(delim.start);
+
+    if (token.type === 'keyword') {
+      this.next();
+
+      switch (token.value) {
+        case 'if':
+        case 'with':
+        case 'range':
+          return this.parseBranch(token.value, delim);
+        case 'template':
+          return this.parseTemplateCall(delim);
+        case 'define':
+          this.parseDefine();
+          return null;
+        case 'block': {
+          const call = this.parseTemplateCall(delim, true);
+          this.defines[call.name] = this.parseList();
+          this.expect('leftDelim', 'block');
+          this.expectKeyword('end', 'block');
+          this.expect('rightDelim', 'block');
+          return call;
+        }
+        case 'break':
+        case 'continue':
+          this.expect('rightDelim', token.value);
+          return { type: token.value, pos };
+        default:
+          this.error(`unexpected {{${token.value}}}`, token);
+      }
+    }
+
+    const pipeline = this.parsePipeline('rightDelim', true);
+    const close = this.expect('rightDelim', 'command');
+
+    return {
+      type: 'action',
+      pipeline,
+      pos,
+      source: this.source.slice(delim.start, close.end),
+    };
+  }
+
+  /**
+   * if / with / range, including {{else if}} and {{else with}} chains
+   */
+  private parseBranch(kind: BranchNode['type'], delim: Token): BranchNode {
+    const pipeline = this.parsePipeline('rightDelim', true, kind === 'range');
+    this.expect('rightDelim', kind);
+
+    const list = this.parseList();
+    this.expect('leftDelim', kind);
+    const terminator = this.next();
+    let elseList: ListNode | null = null;
+
+    if (terminator.type === 'keyword' && terminator.value === 'else') {
+      const chained = this.peek();
+
+      if (kind !== 'range' && chained.type === 'keyword' && (chained.value === 'if' || chained.value === 'with')) {
+        // {{else if x}} is shorthand for {{else}}{{if x}}...{{end}}; the nested
+        // branch consumes the shared {{end}}
+        this.next();
+        const nested = this.parseBranch(chained.value, terminator);
+        elseList = { type: 'list', nodes: [nested], pos: nested.pos };
+      } else {
+        this.expect('rightDelim', 'else');
+        elseList = this.parseList();
+        this.expect('leftDelim', kind);
+        this.expectKeyword('end', kind);
+        this.expect('rightDelim', 'end');
+      }
+    } else if (terminator.type === 'keyword' && terminator.value === 'end') {
+      this.expect('rightDelim', 'end');
+    } else {
+      this.error(`expected {{else}} or {{end}} in ${kind}`, terminator);
+    }
+
+    return { type: kind, pipeline, list, elseList, pos: this.position(delim.start) };
+  }
+
+  /**
+   * `template "name" [pipeline]`; for `block` the pipeline is required
+   */
+  private parseTemplateCall(delim: Token, isBlock: boolean = false) {
+    const context = isBlock ? 'block' : 'template';
+    const name = this.expect('string', `${context} clause`).value;
+    const pipeline = this.peek().type === 'rightDelim' && !isBlock
+      ? null
+      : this.parsePipeline('rightDelim', false);
+    const close = this.expect('rightDelim', `${context} clause`);
+
+    return {
+      type: 'template' as const,
+      name,
+      pipeline,
+      pos: this.position(delim.start),
+      source: this.source.slice(delim.start, close.end),
+    };
+  }
+
+  private parseDefine(): void {
+    const name = this.expect('string', 'define clause').value;
+    this.expect('rightDelim', 'define clause');
+    this.defines[name] = this.parseList();
+    this.expect('leftDelim', 'define');
+    this.expectKeyword('end', 'define');
+    this.expect('rightDelim', 'define');
+  }
+
+  // ----- Pipelines -----
+
+  /**
+   * Parse `[$x :=] command | command ...` up to (not including) `end`
+   *
+   * @param allowDeclarations - Whether `$x :=` / `$x =` may start the pipeline
+   * @param allowTwoVariables - `range $i, $e :=`
+   */
+  private parsePipeline(end: TokenType, allowDeclarations: boolean, allowTwoVariables: boolean = false): PipelineNode {
+    const first = this.peek();
+    const declarations: string[] = [];
+    let isAssign = false;
+
+    if (allowDeclarations && first.type === 'variable' && !first.path?.length) {
+      const after = this.peek(1);
+
+      if (after.type === 'declare' || after.type === 'assign') {
+        declarations.push(first.value);
+        isAssign = after.type === 'assign';
+        this.index += 2;
+      } else if (allowTwoVariables && after.type === 'comma') {
+        const second = this.peek(2);
+        if (second.type !== 'variable' || this.peek(3).type !== 'declare') {
+          this.error('range can only initialize variables', second);
+        }
+        declarations.push(first.value, second.value);
+        this.index += 4;
+      }
+    }
+
+    const commands: CommandNode[] = [];
+
+    while (true) {
+      commands.push(this.parseCommand(end));
+
+      if (this.peek().type !== 'pipe') {
+        break;
+      }
+      this.next();
+    }
+
+    const last = this.tokens[this.index - 1];
+
+    return {
+      type: 'pipeline',
+      declarations,
+      isAssign,
+      commands,
+      pos: this.position(first.start),
+      source: this.source.slice(first.start, last.end).trim(),
+    };
+  }
+
+  private parseCommand(end: TokenType): CommandNode {
+    const start = this.peek();
+    const args: OperandNode[] = [];
+
+    while (![end, 'pipe', 'rightParen', 'rightDelim', 'eof'].includes(this.peek().type)) {
+      args.push(this.parseOperand());
+    }
+
+    if (args.length === 0) {
+      this.error('missing value for command', this.peek());
+    }
+
+    return { type: 'command', args, pos: this.position(start.start) };
+  }
+
+  private parseOperand(): OperandNode {
+    const token = this.next();
+    const pos = this.position(token.start);
+
+    switch (token.type) {
+      case 'identifier':
+        return { type: 'identifier', name: token.value, pos };
+      case 'dot':
+        return { type: 'dot', pos };
+      case 'field':
+        return { type: 'field', path: token.path ?? [], pos };
+      case 'variable':
+        return { type: 'variable', name: token.value, path: token.path ?? [], pos };
+      case 'string':
+        return { type: 'string', value: token.value, pos };
+      case 'bool':
+        return { type: 'bool', value: token.value === 'true', pos };
+      case 'nil':
+        return { type: 'nil', pos };
+      case 'number': {
+        const value = Number(token.value.replace(/_/g, ''));
+        if (Number.isNaN(value)) {
+          this.error(`bad number syntax: ${token.value}`, token);
+        }
+        return { type: 'number', value, text: token.value, pos };
+      }
+      case 'leftParen': {
+        const pipeline = this.parsePipeline('rightParen', true);
+        this.expect('rightParen', 'parenthesized pipeline');
+
+        // (pipeline).field chains
+        let path: string[] = [];
+        const chained = this.peek();
+        if (chained.type === 'field' && !chained.spaceBefore) {
+          path = chained.path ?? [];
+          this.next();
+        }
+
+        return { type: 'subpipeline', pipeline, path, pos };
+      }
+      default:
+        this.error(`unexpected ${this.describe(token)} in operand`, token);
+    }
+  }
+}
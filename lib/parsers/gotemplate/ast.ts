@@ -0,0 +1,157 @@
+/**
+ * Go Template AST
+ * Node types for the text/template subset used by chezmoi
+ */
+
+/**
+ * Offset of a node in the template source, plus its line and column (1-based)
+ */
+export interface Position {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+interface BaseNode {
+  pos: Position;
+}
+
+// ----- Operands -----
+
+/** `.` */
+export interface DotNode extends BaseNode {
+  type: 'dot';
+}
+
+/** `.a.b` */
+export interface FieldNode extends BaseNode {
+  type: 'field';
+  path: string[];
+}
+
+/** `$`, `$x`, `$x.a.b` */
+export interface VariableNode extends BaseNode {
+  type: 'variable';
+  name: string;
+  path: string[];
+}
+
+/** A function name such as `eq` or `include` */
+export interface IdentifierNode extends BaseNode {
+  type: 'identifier';
+  name: string;
+}
+
+export interface StringNode extends BaseNode {
+  type: 'string';
+  value: string;
+}
+
+export interface NumberNode extends BaseNode {
+  type: 'number';
+  value: number;
+  text: string;
+}
+
+export interface BoolNode extends BaseNode {
+  type: 'bool';
+  value: boolean;
+}
+
+export interface NilNode extends BaseNode {
+  type: 'nil';
+}
+
+/** A parenthesized pipeline, optionally followed by fields: `(index . 0).name` */
+export interface SubPipelineNode extends BaseNode {
+  type: 'subpipeline';
+  pipeline: PipelineNode;
+  path: string[];
+}
+
+export type OperandNode =
+  | DotNode
+  | FieldNode
+  | VariableNode
+  | IdentifierNode
+  | StringNode
+  | NumberNode
+  | BoolNode
+  | NilNode
+  | SubPipelineNode;
+
+// ----- Pipelines -----
+
+/** One command of a pipeline: a function call or a single operand */
+export interface CommandNode extends BaseNode {
+  type: 'command';
+  args: OperandNode[];
+}
+
+/** `$x := cmd | cmd`, with the source text for diagnostics */
+export interface PipelineNode extends BaseNode {
+  type: 'pipeline';
+  declarations: string[];
+  isAssign: boolean;
+  commands: CommandNode[];
+  source: string;
+}
+
+// ----- Template structure -----
+
+export interface TextNode extends BaseNode {
+  type: 'text';
+  text: string;
+}
+
+/** `{{ pipeline }}`; `source` is the full action, delimiters included */
+export interface ActionNode extends BaseNode {
+  type: 'action';
+  pipeline: PipelineNode;
+  source: string;
+}
+
+/** `if`, `with` and `range` share a shape; `else if` nests an IfNode in elseList */
+export interface BranchNode extends BaseNode {
+  type: 'if' | 'with' | 'range';
+  pipeline: PipelineNode;
+  list: ListNode;
+  elseList: ListNode | null;
+}
+
+/** `{{ template "name" pipeline }}` */
+export interface TemplateCallNode extends BaseNode {
+  type: 'template';
+  name: string;
+  pipeline: PipelineNode | null;
+  source: string;
+}
+
+export interface BreakNode extends BaseNode {
+  type: 'break';
+}
+
+export interface ContinueNode extends BaseNode {
+  type: 'continue';
+}
+
+export type TemplateNode =
+  | TextNode
+  | ActionNode
+  | BranchNode
+  | TemplateCallNode
+  | BreakNode
+  | ContinueNode;
+
+export interface ListNode extends BaseNode {
+  type: 'list';
+  nodes: TemplateNode[];
+}
+
+/**
+ * A parsed template: the main body plus templates declared with define/block
+ */
+export interface TemplateTree {
+  root: ListNode;
+  defines: Record<string, ListNode>;
+}
@@ -0,0 +1,201 @@
+/**
+ * Alias Analyzer
+ * Expands aliases through every layer, the way the shell does, and flags
+ * chains that come back on themselves, conflicting definitions and aliases
+ * that shadow commands or functions
+ */
+
+import { FileMapper } from '../parsers/FileMapper';
+import type { AliasCatalogResult } from './AliasCatalog';
+import type {
+  Alias,
+  AliasAnalysis,
+  AliasExpansion,
+  AliasIssue,
+  FunctionInfo,
+  Platform,
+  ShellFamily,
+} from '../types';
+
+/**
+ * Shells aliases run in, with the families of files each one loads
+ */
+const SHELLS: Array<{ shell: ShellFamily; loads: ShellFamily[] }> = [
+  { shell: 'bash', loads: ['sh', 'bash'] },
+  { shell: 'zsh', loads: ['sh', 'zsh'] },
+  { shell: 'powershell', loads: ['powershell'] },
+];
+
+/**
+ * Commands people expect to behave the usual way
+ */
+const COMMON_COMMANDS = [
+  'awk', 'cat', 'cd', 'chmod', 'chown', 'cp', 'curl', 'df', 'diff', 'du', 'echo', 'find', 'git',
+  'grep', 'head', 'kill', 'less', 'ln', 'ls', 'make', 'man', 'mkdir', 'more', 'mv', 'ping', 'ps',
+  'rm', 'rmdir', 'sed', 'sort', 'ssh', 'sudo', 'tail', 'tar', 'top', 'touch', 'tree', 'vi', 'vim',
+  'wget', 'which',
+];
+
+export class AliasAnalyzer {
+  /**
+   * Expansions and issues of the aliases and functions one configuration
+   * defines on a platform
+   */
+  static analyze(catalog: AliasCatalogResult, platform: Platform): AliasAnalysis {
+    const expansions: AliasExpansion[] = [];
+    const issues = new Map<string, AliasIssue>();
+
+    const addIssue = (issue: AliasIssue) => {
+      const key = this.issueKey(issue);
+      const existing = issues.get(key);
+      if (existing) {
+        existing.shells.push(...issue.shells);
+      } else {
+        issues.set(key, issue);
+      }
+    };
+
+    for (const { shell, loads } of SHELLS) {
+      const aliases = catalog.aliases.filter(alias => loads.includes(this.family(alias.sourcePath)));
+      const functions = catalog.functions.filter(fn => loads.includes(this.family(fn.sourcePath)));
+      if (aliases.length === 0) continue;
+
+      // Later definitions override earlier ones
+      const table = new Map(aliases.map(alias => [alias.name, alias]));
+
+      for (const alias of table.values()) {
+        const expansion = this.expand(alias.name, table, shell);
+
+        if (expansion.layers.length > 1 || expansion.cycle) {
+          expansions.push(expansion);
+        }
+
+        const program = this.firstWord(expansion.expanded);
+
+        if (expansion.cycle) {
+          addIssue({
+            kind: 'cycle',
+            name: alias.name,
+            message: `${[alias.name, ...expansion.layers.map(layer => this.firstWord(layer))].join(' → ')}: ` +
+              `expansion stops at ${program}, so ${alias.name} runs the ${program} command`,
+            shells: [shell],
+            locations: [this.location(alias)],
+          });
+        }
+
+        if (COMMON_COMMANDS.includes(alias.name) && program !== alias.name) {
+          addIssue({
+            kind: 'shadows-command',
+            name: alias.name,
+            message: `${alias.name} runs ${program} instead of the ${alias.name} command`,
+            shells: [shell],
+            locations: [this.location(alias)],
+          });
+        }
+
+        const fn = functions.find(other => other.name === alias.name);
+        if (fn) {
+          addIssue({
+            kind: 'shadows-function',
+            name: alias.name,
+            message: `The ${alias.name} alias hides the ${alias.name}() function`,
+            shells: [shell],
+            locations: [this.location(alias), this.location(fn)],
+          });
+        }
+      }
+
+      for (const conflict of this.conflicts(aliases)) {
+        addIssue({ ...conflict, shells: [shell] });
+      }
+    }
+
+    return {
+      platform,
+      expansions: expansions.sort((a, b) => a.name.localeCompare(b.name) || a.shell.localeCompare(b.shell)),
+      issues: [...issues.values()].sort((a, b) => a.name.localeCompare(b.name) || a.kind.localeCompare(b.kind)),
+    };
+  }
+
+  /**
+   * Identifies an issue across shells and configurations
+   */
+  static issueKey(issue: AliasIssue): string {
+    return `${issue.kind}:${issue.name}:${issue.message}`;
+  }
+
+  /**
+   * Shell that reads a source file, from its target name
+   */
+  static family(sourcePath: string | undefined): ShellFamily {
+    const name = (FileMapper.buildFileMapping(sourcePath ?? '').deployPath.split('/').pop() ?? '').toLowerCase();
+
+    if (/\.psm?1$/.test(name)) return 'powershell';
+    if (name.startsWith('.bash') || name.endsWith('.bash')) return 'bash';
+    if (name.startsWith('.zsh') || name.endsWith('.zsh') || name === '.zprofile' || name === '.zlogin') return 'zsh';
+    return 'sh';
+  }
+
+  /**
+   * Expand the first word again and again, like bash: an alias is not
+   * expanded twice, so `ls='ls --color'` stops at the ls command. Coming
+   * back to another alias of the chain stops there too, at that command:
+   * with `ls=exa` and `exa='ls --color'`, ls runs `ls --color`
+   */
+  private static expand(name: string, table: Map<string, Alias>, shell: ShellFamily): AliasExpansion {
+    const seen = new Set([name]);
+    const layers: string[] = [];
+    let current = name;
+    let command = name;
+    let cycle = false;
+
+    for (;;) {
+      const alias = table.get(current);
+      if (!alias) break;
+
+      const rest = command.trimStart().slice(this.firstWord(command).length);
+      command = `${alias.command}${rest}`;
+      layers.push(command);
+
+      const next = this.firstWord(command);
+      if (seen.has(next)) {
+        cycle = next !== current;
+        break;
+      }
+
+      seen.add(next);
+      current = next;
+    }
+
+    return { name, shell, layers, expanded: command, cycle };
+  }
+
+  /**
+   * Names defined more than once with different commands
+   */
+  private static conflicts(aliases: Alias[]): Array<Omit<AliasIssue, 'shells'>> {
+    const byName = new Map<string, Alias[]>();
+    for (const alias of aliases) {
+      byName.set(alias.name, [...(byName.get(alias.name) ?? []), alias]);
+    }
+
+    return [...byName]
+      .filter(([, definitions]) => new Set(definitions.map(alias => alias.command)).size > 1)
+      .map(([name, definitions]) => ({
+        kind: 'conflict' as const,
+        name,
+        message: `${name} is defined ${definitions.length} times: ${definitions
+          .map(alias => `'${alias.command}'${alias.requiresModule ? ` (${alias.requiresModule})` : ''}`)
+          .join(', ')}`,
+        locations: definitions.map(alias => this.location(alias)),
+      }));
+  }
+
+  private static firstWord(command: string): string {
+    return command.trim().split(/\s+/)[0] ?? '';
+  }
+
+  private static location(definition: Alias | FunctionInfo): { sourcePath: string; line: number } {
+    return { sourcePath: definition.sourcePath ?? '', line: definition.line ?? 0 };
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Alias Catalog
+ * Aliases and functions the deployed shell files and PowerShell profiles
+ * define for a platform and configuration, attributed to the module and
+ * condition they depend on
+ */
+
+import { AliasExtractor, type ShellDefinition } from '../parsers/AliasExtractor';
+import { Conditions, type Condition } from '../parsers/Conditions';
+import { FileMapper } from '../parsers/FileMapper';
+import { PowerShellParser } from '../parsers/PowerShellParser';
+import { TemplateParser } from '../parsers/TemplateParser';
+import { YAMLParser } from '../parsers/YAMLParser';
+import { DeploymentResolver } from './DeploymentResolver';
+import { RequirementAnalyzer } from './RequirementAnalyzer';
+import type { RepoSnapshot } from './SnapshotCache';
+import type {
+  Alias,
+  AliasCategory,
+  DotfilesConfig,
+  EnvironmentVariable,
+  FileMapping,
+  FunctionInfo,
+  Platform,
+} from '../types';
+
+/**
+ * Targets read by bash or zsh, besides *.sh, *.bash and *.zsh
+ */
+const SHELL_FILES = [
+  '.aliases', '.bash_aliases', '.bash_functions', '.bash_login', '.bash_profile', '.bashrc',
+  '.functions', '.profile', '.zlogin', '.zprofile', '.zshenv', '.zshrc',
+];
+
+/**
+ * A definition together with the file it is in
+ */
+export interface SourcedDefinition extends ShellDefinition {
+  sourcePath: string;
+  /** When it is defined: the file is deployed and its block renders */
+  fullCondition: Condition;
+}
+
+export interface AliasCatalogResult {
+  aliases: Alias[];
+  functions: FunctionInfo[];
+  environment: EnvironmentVariable[];
+}
+
+export interface AliasFilter {
+  /** Only definitions that can exist on this platform */
+  platform?: Platform;
+  /** Only definitions that depend on this module */
+  module?: string;
+  category?: AliasCategory;
+}
+
+/**
+ * Definitions, one list per snapshot; they only depend on its content
+ */
+const extractions = new WeakMap<RepoSnapshot, Promise<SourcedDefinition[]>>();
+
+export class AliasCatalog {
+  /**
+   * Aliases and functions defined once the configuration is applied on a
+   * platform: those in deployed files whose enclosing blocks hold
+   */
+  static async build(
+    snapshot: RepoSnapshot,
+    config: DotfilesConfig,
+    platform: Platform
+  ): Promise<AliasCatalogResult> {
+    const [{ files }, definitions] = await Promise.all([
+      DeploymentResolver.resolveSnapshot(snapshot, config, platform),
+      this.definitions(snapshot),
+    ]);
+
+    const deployed = new Set(files.map(file => file.sourcePath));
+    const data = TemplateParser.templateData(config, platform);
+    const active = definitions.filter(definition =>
+      deployed.has(definition.sourcePath) && Conditions.evaluate(definition.condition, platform, data)
+    );
+
+    return this.toCatalog(active);
+  }
+
+  /**
+   * Every alias and function in the source state, whatever the
+   * configuration, narrowed down by the filter
+   */
+  static async list(snapshot: RepoSnapshot, filter: AliasFilter = {}): Promise<AliasCatalogResult> {
+    const definitions = (await this.definitions(snapshot)).filter(definition =>
+      (!filter.platform || Conditions.platforms(definition.fullCondition).includes(filter.platform)) &&
+      (!filter.module || Conditions.requiredModules(definition.fullCondition).includes(filter.module))
+    );
+    const { aliases, functions, environment } = this.toCatalog(definitions);
+
+    return {
+      aliases: aliases.filter(alias => !filter.category || alias.category === filter.category),
+      functions: functions.filter(fn => !filter.category || fn.category === filter.category),
+      environment: filter.category ? [] : environment,
+    };
+  }
+
+  /**
+   * Every definition in the snapshot's shell sources, whatever the
+   * configuration, computed once per snapshot
+   */
+  static definitions(snapshot: RepoSnapshot): Promise<SourcedDefinition[]> {
+    let extraction = extractions.get(snapshot);
+
+    if (!extraction) {
+      extraction = this.extract(snapshot);
+      extractions.set(snapshot, extraction);
+      extraction.catch(() => extractions.delete(snapshot));
+    }
+
+    return extraction;
+  }
+
+  static isShellSource(mapping: FileMapping): boolean {
+    if (mapping.targetKind === 'script') return false;
+
+    const name = mapping.deployPath.split('/').pop() ?? '';
+    return SHELL_FILES.includes(name) || /\.(sh|bash|zsh)$/.test(name);
+  }
+
+  /**
+   * Profiles and modules PowerShell loads
+   */
+  static isPowerShellSource(mapping: FileMapping): boolean {
+    return mapping.targetKind !== 'script' && /\.psm?1$/i.test(mapping.deployPath);
+  }
+
+  /**
+   * Aliases and functions in the shape of the API types
+   */
+  static toCatalog(definitions: SourcedDefinition[]): AliasCatalogResult {
+    const aliases: Alias[] = [];
+    const functions: FunctionInfo[] = [];
+    const environment: EnvironmentVariable[] = [];
+
+    for (const definition of definitions) {
+      const common = {
+        name: definition.name,
+        requiresModule: this.requiredModule(definition.fullCondition),
+        sourcePath: definition.sourcePath,
+        line: definition.line,
+        condition: Conditions.describe(definition.fullCondition),
+      };
+
+      if (definition.kind === 'variable') {
+        environment.push({ ...common, value: definition.command, description: definition.description });
+      } else if (definition.kind === 'alias') {
+        aliases.push({
+          ...common,
+          command: definition.command,
+          category: AliasExtractor.category(definition.command),
+          description: definition.description,
+        });
+      } else {
+        functions.push({
+          ...common,
+          description: definition.description ?? '',
+          usage: definition.usage ?? definition.name,
+          category: AliasExtractor.category(definition.command),
+        });
+      }
+    }
+
+    return { aliases, functions, environment };
+  }
+
+  private static async extract(snapshot: RepoSnapshot): Promise<SourcedDefinition[]> {
+    // Whether a file is in the source state does not depend on the configuration
+    const config = YAMLParser.parse(snapshot.configContent);
+    const [requirements, { decisions }] = await Promise.all([
+      RequirementAnalyzer.analyze(snapshot),
+      DeploymentResolver.resolveSnapshot(snapshot, config, 'linux'),
+    ]);
+    const sources = decisions
+      .filter(decision => decision.outcome !== 'not-source-state')
+      .map(decision => FileMapper.buildFileMapping(decision.sourcePath))
+      .filter(mapping => this.isShellSource(mapping) || this.isPowerShellSource(mapping));
+
+    const perFile = await Promise.all(sources.map(async mapping => {
+      const content = await snapshot.getFile(mapping.sourcePath);
+      const fileCondition = requirements.get(mapping.sourcePath)?.condition ?? Conditions.TRUE;
+
+      const parsed = this.isPowerShellSource(mapping)
+        ? PowerShellParser.parse(content, mapping.isTemplate)
+        : AliasExtractor.parse(content, mapping.isTemplate);
+
+      return parsed.map(definition => ({
+        ...definition,
+        sourcePath: mapping.sourcePath,
+        fullCondition: Conditions.and(fileCondition, definition.condition),
+      }));
+    }));
+
+    return perFile.flat();
+  }
+
+  /**
+   * The innermost module the definition depends on: the file's own module
+   * comes first, then those of the blocks around the definition
+   */
+  private static requiredModule(condition: Condition): string | undefined {
+    const modules = Conditions.requiredModules(condition);
+    return modules[modules.length - 1];
+  }
+}
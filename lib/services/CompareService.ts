@@ -0,0 +1,321 @@
+/**
+ * Compare Service
+ * Diffs the deployed files of two refs of the dotfiles repository
+ */
+
+import { YAMLParser } from '../parsers/YAMLParser';
+import { IgnoreParser, IgnoreRule } from '../parsers/IgnoreParser';
+import { DeploymentResolver } from './DeploymentResolver';
+import { TemplateRenderer } from './TemplateRenderer';
+import type { RepoSnapshot } from './SnapshotCache';
+import type {
+  CompareEntry,
+  CompareResponse,
+  DotfilesConfig,
+  FileMapping,
+  ModuleSettingChange,
+  Platform,
+} from '../types';
+
+/**
+ * One side of a comparison, resolved for a platform
+ */
+interface CompareSide {
+  ref: string;
+  snapshot: RepoSnapshot;
+  config: DotfilesConfig;
+  ignorePatterns: string[];
+  ignoreRules: IgnoreRule[];
+  deployed: Map<string, FileMapping>;
+}
+
+export class CompareService {
+  /**
+   * Compare what two refs deploy on a platform
+   *
+   * Files are matched by deploy path. Changes are attributed to source files
+   * being added or deleted, ignore rules, module settings, and for templates
+   * the configuration data they render with.
+   */
+  static async compare(
+    baseRef: string,
+    baseSnapshot: RepoSnapshot,
+    headRef: string,
+    headSnapshot: RepoSnapshot,
+    platform: Platform
+  ): Promise<CompareResponse> {
+    const [base, head] = await Promise.all([
+      this.resolveSide(baseRef, baseSnapshot, platform),
+      this.resolveSide(headRef, headSnapshot, platform),
+    ]);
+
+    const added: CompareEntry[] = [];
+    const removed: CompareEntry[] = [];
+    const kept: Array<Promise<CompareEntry | null>> = [];
+
+    for (const [deployPath, headFile] of head.deployed) {
+      const baseFile = base.deployed.get(deployPath);
+
+      if (!baseFile) {
+        added.push({
+          deployPath,
+          change: 'added',
+          head: headFile,
+          causes: this.explainDifference(headFile, head, base, platform, 'added'),
+        });
+        continue;
+      }
+
+      kept.push(this.explainContentChange(baseFile, base, headFile, head, platform).then(causes =>
+        causes.length > 0 ? { deployPath, change: 'changed', base: baseFile, head: headFile, causes } : null
+      ));
+    }
+
+    const changed = (await Promise.all(kept)).filter((entry): entry is CompareEntry => entry !== null);
+
+    for (const [deployPath, baseFile] of base.deployed) {
+      if (!head.deployed.has(deployPath)) {
+        removed.push({
+          deployPath,
+          change: 'removed',
+          base: baseFile,
+          causes: this.explainDifference(baseFile, base, head, platform, 'removed'),
+        });
+      }
+    }
+
+    return {
+      base: { ref: baseRef, sha: baseSnapshot.sha },
+      head: { ref: headRef, sha: headSnapshot.sha },
+      platform,
+      added,
+      removed,
+      changed,
+      moduleChanges: this.diffModuleSettings(base.config, head.config),
+      ignoreChanges: {
+        added: head.ignorePatterns.filter(p => !base.ignorePatterns.includes(p)),
+        removed: base.ignorePatterns.filter(p => !head.ignorePatterns.includes(p)),
+      },
+      totalFilesBase: base.deployed.size,
+      totalFilesHead: head.deployed.size,
+    };
+  }
+
+  /**
+   * Parse a snapshot's config and resolve its deployed files
+   */
+  private static async resolveSide(ref: string, snapshot: RepoSnapshot, platform: Platform): Promise<CompareSide> {
+    const config = YAMLParser.parse(snapshot.configContent);
+    const { files } = await DeploymentResolver.resolveSnapshot(snapshot, config, platform);
+    const ignoreRules = IgnoreParser.getIgnoreRules(snapshot.ignoreContent, config, platform);
+
+    return {
+      ref,
+      snapshot,
+      config,
+      ignorePatterns: ignoreRules.map(rule => rule.pattern),
+      ignoreRules,
+      deployed: new Map(files.map(file => [file.deployPath, file])),
+    };
+  }
+
+  /**
+   * Explain why a file is deployed on one side but not the other
+   *
+   * @param file - The file as deployed on the `present` side
+   * @param direction - 'added' when present is head, 'removed' when present is base
+   */
+  private static explainDifference(
+    file: FileMapping,
+    present: CompareSide,
+    absent: CompareSide,
+    platform: Platform,
+    direction: 'added' | 'removed'
+  ): string[] {
+    if (!absent.snapshot.hasFile(file.sourcePath)) {
+      return [`Source file ${file.sourcePath} ${direction === 'added' ? 'added' : 'deleted'}`];
+    }
+
+    const causes: string[] = [];
+    const ignorePath = file.deployPath.replace(/^~\//, '');
+    const pattern = IgnoreParser.explain(ignorePath, absent.ignoreRules)?.pattern;
+
+    if (pattern) {
+      // Evaluate the other side's .chezmoiignore with this side's config:
+      // if the file is still ignored, the module settings made the difference
+      const crossPatterns = IgnoreParser.getIgnorePatterns(
+        present.snapshot.ignoreContent,
+        absent.config,
+        platform
+      );
+      const byModules = IgnoreParser.shouldIgnore(ignorePath, crossPatterns);
+
+      if (direction === 'added') {
+        causes.push(byModules
+          ? `Ignore rule "${pattern}" no longer applies after module changes`
+          : `Ignore rule "${pattern}" removed from .chezmoiignore`);
+      } else {
+        causes.push(byModules
+          ? `Ignore rule "${pattern}" applies after module changes`
+          : `Ignore rule "${pattern}" added to .chezmoiignore`);
+      }
+    }
+
+    for (const moduleName of file.requiredModules) {
+      const presentEnabled = !!present.config.data.modules[moduleName]?.enabled;
+      const absentEnabled = !!absent.config.data.modules[moduleName]?.enabled;
+
+      if (presentEnabled && !absentEnabled) {
+        causes.push(`Module ${moduleName} ${direction === 'added' ? 'enabled' : 'disabled'}`);
+      }
+    }
+
+    if (causes.length === 0) {
+      causes.push('Deployment rules changed');
+    }
+
+    return causes;
+  }
+
+  /**
+   * Explain a change for a file deployed on both sides
+   * Returns no causes when the deployed file is identical
+   */
+  private static async explainContentChange(
+    baseFile: FileMapping,
+    base: CompareSide,
+    headFile: FileMapping,
+    head: CompareSide,
+    platform: Platform
+  ): Promise<string[]> {
+    const causes: string[] = [];
+
+    if (baseFile.sourcePath !== headFile.sourcePath) {
+      causes.push(`Source renamed from ${baseFile.sourcePath} to ${headFile.sourcePath}`);
+    }
+
+    causes.push(...await this.explainRenderedChange(baseFile, base, headFile, head, platform));
+
+    if (baseFile.targetKind !== headFile.targetKind) {
+      causes.push(`Changed from ${baseFile.targetKind} to ${headFile.targetKind}`);
+    }
+
+    // template only decides how the content is produced, covered above
+    for (const attribute of headFile.attributes) {
+      if (attribute !== 'template' && !baseFile.attributes.includes(attribute)) {
+        causes.push(`Now ${attribute}`);
+      }
+    }
+    for (const attribute of baseFile.attributes) {
+      if (attribute !== 'template' && !headFile.attributes.includes(attribute)) {
+        causes.push(`No longer ${attribute}`);
+      }
+    }
+
+    return causes;
+  }
+
+  /**
+   * Explain a difference in deployed content
+   *
+   * Templates are rendered with their own side's config, so a data change
+   * shows up even when the source is untouched, and a source edit that
+   * renders the same is no change. Other files are compared by blob SHA.
+   */
+  private static async explainRenderedChange(
+    baseFile: FileMapping,
+    base: CompareSide,
+    headFile: FileMapping,
+    head: CompareSide,
+    platform: Platform
+  ): Promise<string[]> {
+    const baseSha = base.snapshot.files.find(f => f.path === baseFile.sourcePath)?.sha;
+    const headSha = head.snapshot.files.find(f => f.path === headFile.sourcePath)?.sha;
+
+    if (!baseFile.isTemplate && !headFile.isTemplate) {
+      return baseSha === headSha ? [] : ['File content changed'];
+    }
+
+    const [baseContent, headContent] = await Promise.all([
+      this.deployedContent(baseFile, base, platform),
+      this.deployedContent(headFile, head, platform),
+    ]);
+
+    if (baseContent === headContent) {
+      return [];
+    }
+
+    const causes: string[] = [];
+
+    if (baseFile.isTemplate !== headFile.isTemplate) {
+      causes.push(headFile.isTemplate ? 'Now rendered as a template' : 'No longer rendered as a template');
+    }
+
+    if (baseSha !== headSha) {
+      causes.push(headFile.isTemplate ? 'Template source changed' : 'File content changed');
+    }
+
+    if (baseFile.isTemplate && headFile.isTemplate && base.snapshot.configContent !== head.snapshot.configContent) {
+      // The head template rendered with the base data shows whether the data played a part
+      const withBaseData = await this.deployedContent(headFile, head, platform, base.config);
+
+      if (withBaseData !== headContent) {
+        causes.push('Template data in .chezmoi.yaml changed');
+      }
+    }
+
+    if (causes.length === 0) {
+      causes.push('Templates or files it includes changed');
+    }
+
+    return causes;
+  }
+
+  /**
+   * What a file deploys: the rendered output of a template, the source otherwise
+   *
+   * @param config - Data to render with; defaults to the side's own config
+   */
+  private static async deployedContent(
+    file: FileMapping,
+    side: CompareSide,
+    platform: Platform,
+    config: DotfilesConfig = side.config
+  ): Promise<string> {
+    if (!file.isTemplate) {
+      return side.snapshot.getFile(file.sourcePath);
+    }
+
+    return (await TemplateRenderer.render(file.sourcePath, side.snapshot, config, platform)).output;
+  }
+
+  /**
+   * Diff every boolean module setting (enabled, zsh_extras, ...)
+   */
+  private static diffModuleSettings(
+    baseConfig: DotfilesConfig,
+    headConfig: DotfilesConfig
+  ): ModuleSettingChange[] {
+    const changes: ModuleSettingChange[] = [];
+    const baseModules = baseConfig.data.modules;
+    const headModules = headConfig.data.modules;
+    const moduleNames = new Set([...Object.keys(baseModules), ...Object.keys(headModules)]);
+
+    for (const moduleName of moduleNames) {
+      const baseModule = baseModules[moduleName] ?? {};
+      const headModule = headModules[moduleName] ?? {};
+      const settings = new Set([...Object.keys(baseModule), ...Object.keys(headModule)]);
+
+      for (const setting of settings) {
+        const baseValue = typeof baseModule[setting] === 'boolean' ? baseModule[setting] : null;
+        const headValue = typeof headModule[setting] === 'boolean' ? headModule[setting] : null;
+
+        if (baseValue !== headValue) {
+          changes.push({ module: moduleName, setting, base: baseValue, head: headValue });
+        }
+      }
+    }
+
+    return changes;
+  }
+}
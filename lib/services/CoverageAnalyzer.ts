@@ -0,0 +1,302 @@
+/**
+ * Coverage Analyzer
+ * Resolves every combination of boolean module options on every platform
+ * and reports what is never deployed, always deployed, options that change
+ * nothing, and deploy paths claimed by more than one source file
+ */
+
+import { Conditions, type Condition } from '../parsers/Conditions';
+import { FileMapper } from '../parsers/FileMapper';
+import { TemplateParser } from '../parsers/TemplateParser';
+import { YAMLParser } from '../parsers/YAMLParser';
+import { DeploymentResolver } from './DeploymentResolver';
+import { RequirementAnalyzer, type FileRequirement } from './RequirementAnalyzer';
+import type { RepoSnapshot } from './SnapshotCache';
+import type {
+  CoverageResponse,
+  DotfilesConfig,
+  FileCoverage,
+  PathCollision,
+  Platform,
+} from '../types';
+
+const PLATFORMS: Platform[] = ['linux', 'darwin', 'windows'];
+
+/**
+ * More options than this would mean millions of combinations
+ */
+const MAX_OPTIONS = 16;
+
+/**
+ * Reports, one per snapshot; they only depend on the snapshot's content
+ */
+const reports = new WeakMap<RepoSnapshot, Promise<CoverageResponse>>();
+
+interface DeployedFile {
+  sourcePath: string;
+  deployPath: string;
+}
+
+interface Resolution {
+  /** Source paths of the deployed files */
+  deployed: Set<string>;
+  /** Sorted deployed paths, to compare resolutions */
+  signature: string;
+  collisions: Array<{ deployPath: string; sourcePaths: string[] }>;
+}
+
+export class CoverageAnalyzer {
+  /**
+   * Coverage of a snapshot, computed once per snapshot
+   */
+  static analyze(snapshot: RepoSnapshot): Promise<CoverageResponse> {
+    let report = reports.get(snapshot);
+
+    if (!report) {
+      report = this.build(snapshot);
+      reports.set(snapshot, report);
+      report.catch(() => reports.delete(snapshot));
+    }
+
+    return report;
+  }
+
+  /**
+   * Options a set of conditions can depend on
+   */
+  static relevantOptions(options: string[], conditions: Condition[]): string[] {
+    const atoms = conditions.flatMap(condition => Conditions.atoms(condition));
+    return options.filter(option => atoms.some(atom => this.dependsOn(atom, option)));
+  }
+
+  /**
+   * Whether a test can depend on an option; a part static analysis could not
+   * follow can when it names the option's module, or reaches the data
+   * through a variable, the whole `.modules` map or the whole `.`
+   */
+  private static dependsOn(atom: Condition, option: string): boolean {
+    const path = `modules.${option}`;
+
+    switch (atom.type) {
+      case 'data':
+        return path === atom.path || path.startsWith(`${atom.path}.`);
+      case 'unknown': {
+        const moduleName = option.split('.')[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(^|[^\\w-])${moduleName}($|[^\\w-])`).test(atom.source) ||
+          /\$|\.modules(?!\.)|(^|[\s(])\.($|[\s)])/.test(atom.source);
+      }
+      default:
+        return false;
+    }
+  }
+
+  private static async build(snapshot: RepoSnapshot): Promise<CoverageResponse> {
+    const config = YAMLParser.parse(snapshot.configContent);
+    const options = TemplateParser.moduleOptions(config);
+
+    if (options.length > MAX_OPTIONS) {
+      throw new Error(`Too many module options to combine: ${options.length} (at most ${MAX_OPTIONS})`);
+    }
+
+    const requirements = await RequirementAnalyzer.analyze(snapshot);
+    const conditions = [...requirements].map(([sourcePath, requirement]) => ({ sourcePath, ...requirement }));
+
+    // Files whose condition has a part static analysis could not follow are
+    // resolved on their own, so they do not widen every other file's key
+    const unknown = conditions.filter(({ condition }) =>
+      Conditions.atoms(condition).some(atom => atom.type === 'unknown')
+    );
+    const unknownPaths = new Set(unknown.map(({ sourcePath }) => sourcePath));
+    const relevantBits = this.bits(options, this.relevantOptions(
+      options,
+      conditions.filter(({ sourcePath }) => !unknownPaths.has(sourcePath)).map(({ condition }) => condition)
+    ));
+    const unknownBits = unknown.map(({ condition }) => this.bits(options, this.relevantOptions(options, [condition])));
+    const combinations = 2 ** options.length;
+
+    // Combinations that agree on the relevant options resolve the same way
+    const memo = new Map<string, DeployedFile[]>();
+    const fileMemo = new Map<string, DeployedFile | null>();
+    const combined = new Map<string, Resolution>();
+    const resolutions = {} as Record<Platform, Resolution[]>;
+
+    for (const platform of PLATFORMS) {
+      resolutions[platform] = [];
+
+      for (let mask = 0; mask < combinations; mask++) {
+        const key = `${platform}:${this.key(relevantBits, mask)}`;
+        let deployed = memo.get(key);
+
+        if (!deployed) {
+          deployed = (await this.resolve(snapshot, config, this.combination(options, mask), platform))
+            .filter(file => !unknownPaths.has(file.sourcePath));
+          memo.set(key, deployed);
+        }
+
+        const unknownDeployed: Array<DeployedFile | null> = [];
+        for (const [i, { sourcePath }] of unknown.entries()) {
+          const fileKey = `${sourcePath}\n${platform}:${this.key(unknownBits[i], mask)}`;
+          let file = fileMemo.get(fileKey);
+
+          if (file === undefined) {
+            file = await this.resolveFile(snapshot, config, sourcePath, this.combination(options, mask), platform);
+            fileMemo.set(fileKey, file);
+          }
+          unknownDeployed.push(file);
+        }
+
+        const combinedKey = `${key}:${unknownDeployed.map(file => (file ? 1 : 0)).join('')}`;
+        let resolution = combined.get(combinedKey);
+
+        if (!resolution) {
+          resolution = this.resolution([...deployed, ...unknownDeployed.filter(file => file !== null)]);
+          combined.set(combinedKey, resolution);
+        }
+
+        resolutions[platform].push(resolution);
+      }
+    }
+
+    // Whether a file is in the source state does not depend on the configuration
+    const { decisions } = await DeploymentResolver.resolveSnapshot(snapshot, config, PLATFORMS[0]);
+    const sourceState = decisions
+      .filter(decision => decision.outcome !== 'not-source-state')
+      .map(decision => decision.sourcePath);
+
+    const files = this.fileCoverage(sourceState, requirements, resolutions);
+
+    return {
+      options,
+      combinations,
+      evaluated: memo.size + fileMemo.size,
+      files,
+      neverDeployed: files
+        .filter(file => PLATFORMS.every(platform => file.deployed[platform] === 0))
+        .map(file => file.sourcePath),
+      alwaysDeployed: files
+        .filter(file => PLATFORMS.every(platform => file.deployed[platform] === combinations))
+        .map(file => file.sourcePath),
+      noEffect: Object.fromEntries(PLATFORMS.map(platform => [
+        platform,
+        options.filter((_, bit) => this.hasNoEffect(resolutions[platform], bit)),
+      ])) as Record<Platform, string[]>,
+      collisions: this.collisions(options, resolutions),
+    };
+  }
+
+  private static async resolve(
+    snapshot: RepoSnapshot,
+    config: DotfilesConfig,
+    combination: Record<string, boolean>,
+    platform: Platform
+  ): Promise<DeployedFile[]> {
+    const simulated = TemplateParser.applyOptionChanges(config, combination);
+    const { files } = await DeploymentResolver.resolveSnapshot(snapshot, simulated, platform);
+    return files.map(({ sourcePath, deployPath }) => ({ sourcePath, deployPath }));
+  }
+
+  /**
+   * A single file, or null when it is not deployed
+   */
+  private static async resolveFile(
+    snapshot: RepoSnapshot,
+    config: DotfilesConfig,
+    sourcePath: string,
+    combination: Record<string, boolean>,
+    platform: Platform
+  ): Promise<DeployedFile | null> {
+    const simulated = TemplateParser.applyOptionChanges(config, combination);
+    const decision = await DeploymentResolver.resolveFile(snapshot, sourcePath, simulated, platform);
+    return decision?.outcome === 'deployed' ? { sourcePath, deployPath: decision.deployPath } : null;
+  }
+
+  private static resolution(files: DeployedFile[]): Resolution {
+    const byTarget = new Map<string, string[]>();
+    for (const file of files) {
+      byTarget.set(file.deployPath, [...(byTarget.get(file.deployPath) ?? []), file.sourcePath]);
+    }
+
+    return {
+      deployed: new Set(files.map(file => file.sourcePath)),
+      signature: files.map(file => file.sourcePath).sort().join('\n'),
+      collisions: [...byTarget]
+        .filter(([, sourcePaths]) => sourcePaths.length > 1)
+        .map(([deployPath, sourcePaths]) => ({ deployPath, sourcePaths })),
+    };
+  }
+
+  /**
+   * Deploy counts for every source file in the source state, scripts excepted
+   */
+  private static fileCoverage(
+    sourcePaths: string[],
+    requirements: Map<string, FileRequirement>,
+    resolutions: Record<Platform, Resolution[]>
+  ): FileCoverage[] {
+    return sourcePaths
+      .map(sourcePath => FileMapper.buildFileMapping(sourcePath))
+      .filter(mapping => mapping.targetKind !== 'script')
+      .map(mapping => ({
+        sourcePath: mapping.sourcePath,
+        deployPath: mapping.deployPath,
+        condition: Conditions.describe(requirements.get(mapping.sourcePath)?.condition ?? Conditions.TRUE),
+        deployed: Object.fromEntries(PLATFORMS.map(platform => [
+          platform,
+          resolutions[platform].filter(resolution => resolution.deployed.has(mapping.sourcePath)).length,
+        ])) as Record<Platform, number>,
+      }));
+  }
+
+  private static hasNoEffect(resolutions: Resolution[], bit: number): boolean {
+    return resolutions.every((resolution, mask) => {
+      if (mask & (1 << bit)) return true;
+      const toggled = resolutions[mask | (1 << bit)];
+      return toggled === resolution || toggled.signature === resolution.signature;
+    });
+  }
+
+  private static collisions(options: string[], resolutions: Record<Platform, Resolution[]>): PathCollision[] {
+    const collisions = new Map<string, PathCollision>();
+
+    for (const platform of PLATFORMS) {
+      resolutions[platform].forEach((resolution, mask) => {
+        for (const { deployPath, sourcePaths } of resolution.collisions) {
+          const key = `${deployPath}\n${sourcePaths.join('\n')}`;
+          const collision = collisions.get(key) ?? {
+            deployPath,
+            sourcePaths,
+            platforms: [],
+            combinations: 0,
+            example: this.combination(options, mask),
+          };
+
+          if (!collision.platforms.includes(platform)) {
+            collision.platforms.push(platform);
+          }
+          collision.combinations++;
+          collisions.set(key, collision);
+        }
+      });
+    }
+
+    return [...collisions.values()];
+  }
+
+  private static bits(options: string[], relevant: string[]): number[] {
+    return relevant.map(option => options.indexOf(option));
+  }
+
+  /**
+   * The values of some bits of a combination, as a memo key
+   */
+  private static key(bits: number[], mask: number): string {
+    return bits.map(bit => (mask >> bit) & 1).join('');
+  }
+
+  /**
+   * Option values for a combination: bit i is options[i]
+   */
+  private static combination(options: string[], mask: number): Record<string, boolean> {
+    return Object.fromEntries(options.map((option, bit) => [option, Boolean(mask & (1 << bit))]));
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Deployment Explainer
+ * Traces why a source file is or is not deployed, step by step, and finds
+ * the fewest module option changes that would flip the verdict
+ */
+
+import { Conditions } from '../parsers/Conditions';
+import { FileMapper } from '../parsers/FileMapper';
+import { Glob } from '../parsers/Glob';
+import { IgnoreParser, type ConditionalIgnoreRule } from '../parsers/IgnoreParser';
+import { TemplateParser } from '../parsers/TemplateParser';
+import { DeploymentResolver } from './DeploymentResolver';
+import { RequirementAnalyzer } from './RequirementAnalyzer';
+import type { RepoSnapshot } from './SnapshotCache';
+import type {
+  DeploymentDecision,
+  DotfilesConfig,
+  ExplainResponse,
+  IgnorePatternTrace,
+  ModuleToggle,
+  Platform,
+  TraceStep,
+} from '../types';
+
+/**
+ * Largest set of option changes tried when looking for a flip
+ */
+const MAX_FLIP_TOGGLES = 3;
+
+export class DeploymentExplainer {
+  /**
+   * Explain one source file, or return null if the snapshot lacks it
+   */
+  static async explain(
+    snapshot: RepoSnapshot,
+    sourcePath: string,
+    config: DotfilesConfig,
+    platform: Platform
+  ): Promise<ExplainResponse | null> {
+    const decision = await DeploymentResolver.resolveFile(snapshot, sourcePath, config, platform);
+    if (!decision) return null;
+
+    const requirement = (await RequirementAnalyzer.analyze(snapshot)).get(sourcePath);
+    const condition = requirement?.condition ?? Conditions.TRUE;
+    const guard = requirement?.guard ?? Conditions.TRUE;
+    const data = TemplateParser.templateData(config, platform);
+
+    const mapping = FileMapper.buildFileMapping(sourcePath);
+    const targetPath = mapping.deployPath.replace(/^~\//, '');
+    const fileName = sourcePath.split('/').pop() ?? sourcePath;
+
+    const steps: TraceStep[] = [{
+      kind: 'source-name',
+      title: 'Source name',
+      passed: true,
+      details: [
+        `${fileName} → ${mapping.deployPath}`,
+        `Kind: ${mapping.targetKind}`,
+        mapping.attributes.length > 0 ? `Attributes: ${mapping.attributes.join(', ')}` : 'No attributes',
+      ],
+    }];
+
+    const inSourceState = decision.outcome !== 'not-source-state';
+    steps.push({
+      kind: 'source-state',
+      title: 'Source state',
+      passed: inSourceState,
+      details: inSourceState ? ['Part of the source state'] : decision.reasons,
+    });
+
+    const conditionalRules = IgnoreParser.getConditionalRules(snapshot.ignoreContent);
+    const ignorePatterns = conditionalRules.map(rule => this.tracePattern(rule, targetPath, platform, data));
+
+    // chezmoi never looks further at files outside the source state
+    if (inSourceState) {
+      const rules = IgnoreParser.getIgnoreRules(snapshot.ignoreContent, config, platform);
+      const match = IgnoreParser.explain(targetPath, rules);
+      steps.push({
+        kind: 'ignore',
+        title: '.chezmoiignore',
+        passed: match === null,
+        details: match
+          ? [`"${match.pattern}" on line ${match.line} matches ${match.matchedPath}`]
+          : [`${rules.length} active patterns tested, none ignores ${targetPath}`],
+      });
+
+      const guardValue = Conditions.evaluate(guard, platform, data);
+      steps.push({
+        kind: 'guard',
+        title: 'Template guard',
+        passed: guardValue,
+        details: !mapping.isTemplate
+          ? ['Not a template']
+          : Conditions.isTrue(guard)
+            ? ['No {{ if }} around the whole template']
+            : [`{{ if ${Conditions.format(guard)} }} is ${guardValue}${guardValue ? '' : ', so it renders empty'}`],
+      });
+
+      const platforms = Conditions.platforms(condition);
+      steps.push({
+        kind: 'platform',
+        title: 'Platform',
+        passed: platforms.includes(platform),
+        details: [platforms.length > 0 ? `Can be deployed on ${platforms.join(', ')}` : 'Never deployed, on any platform'],
+      });
+
+      // Module settings, on this platform or else on one the file supports
+      const modulePlatform = platforms.includes(platform) ? platform : platforms[0];
+      const options = Conditions.atoms(condition)
+        .filter(atom => atom.type === 'data' && atom.path.startsWith('modules.'))
+        .map(atom => `${Conditions.format(atom)} = ${Conditions.evaluate(atom, platform, data)}`);
+      const requiredModules = Conditions.requiredModules(condition);
+      steps.push({
+        kind: 'modules',
+        title: 'Modules',
+        passed: modulePlatform !== undefined &&
+          Conditions.evaluate(Conditions.onPlatform(condition, modulePlatform), modulePlatform, data),
+        details: [
+          requiredModules.length > 0 ? `Requires ${requiredModules.join(', ')}` : 'Requires no module',
+          ...options,
+        ],
+      });
+    }
+
+    return {
+      sourcePath,
+      deployPath: mapping.deployPath,
+      platform,
+      targetKind: mapping.targetKind,
+      attributes: mapping.attributes,
+      condition: Conditions.describe(condition),
+      steps,
+      ignorePatterns,
+      verdict: decision.outcome,
+      deployed: this.isDeployed(decision),
+      reasons: decision.reasons,
+      flip: inSourceState ? await this.findFlip(snapshot, sourcePath, config, platform, decision) : null,
+    };
+  }
+
+  /**
+   * Smallest set of module option changes that flips deployed/not deployed
+   * Each candidate is checked with the resolver itself, so the answer holds
+   * even where static analysis gives up
+   */
+  private static async findFlip(
+    snapshot: RepoSnapshot,
+    sourcePath: string,
+    config: DotfilesConfig,
+    platform: Platform,
+    decision: DeploymentDecision
+  ): Promise<ModuleToggle[] | null> {
+    const options = TemplateParser.moduleOptions(config);
+    const values = TemplateParser.templateData(config, platform);
+    const deployed = this.isDeployed(decision);
+
+    for (let size = 1; size <= Math.min(MAX_FLIP_TOGGLES, options.length); size++) {
+      for (const combination of this.combinations(options, size)) {
+        const toggles = combination.map(option => ({
+          option,
+          value: !Conditions.evaluate(Conditions.data(`modules.${option}`), platform, values),
+        }));
+        const changes = Object.fromEntries(toggles.map(toggle => [toggle.option, toggle.value]));
+        const flipped = await DeploymentResolver.resolveFile(
+          snapshot,
+          sourcePath,
+          TemplateParser.applyOptionChanges(config, changes),
+          platform
+        );
+
+        if (flipped && this.isDeployed(flipped) !== deployed) {
+          return toggles;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private static tracePattern(
+    { rule, enclosing }: ConditionalIgnoreRule,
+    targetPath: string,
+    platform: Platform,
+    data: Record<string, unknown>
+  ): IgnorePatternTrace {
+    const conditions = enclosing.map(condition => ({
+      condition: Conditions.format(condition),
+      value: Conditions.evaluate(condition, platform, data),
+    }));
+
+    const parts = targetPath.split('/');
+    let matchedPath: string | null = null;
+    for (let depth = 1; depth <= parts.length && matchedPath === null; depth++) {
+      const path = parts.slice(0, depth).join('/');
+      if ((depth < parts.length || !rule.directoryOnly) && Glob.match(rule.glob, path)) {
+        matchedPath = path;
+      }
+    }
+
+    return {
+      pattern: rule.pattern,
+      line: rule.line,
+      exclude: rule.exclude,
+      conditions,
+      active: conditions.every(condition => condition.value),
+      matchedPath,
+    };
+  }
+
+  private static isDeployed(decision: DeploymentDecision): boolean {
+    return decision.outcome === 'deployed' || decision.outcome === 'script';
+  }
+
+  private static *combinations<T>(items: T[], size: number, start: number = 0): Generator<T[]> {
+    if (size === 0) {
+      yield [];
+      return;
+    }
+
+    for (let i = start; i <= items.length - size; i++) {
+      for (const rest of this.combinations(items, size - 1, i + 1)) {
+        yield [items[i], ...rest];
+      }
+    }
+  }
+}
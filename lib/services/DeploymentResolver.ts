@@ -0,0 +1,200 @@
+/**
+ * Deployment Resolver
+ * Determines which source files chezmoi deploys for a configuration
+ */
+
+import { Conditions } from '../parsers/Conditions';
+import { FileMapper } from '../parsers/FileMapper';
+import { IgnoreParser } from '../parsers/IgnoreParser';
+import { TemplateParser } from '../parsers/TemplateParser';
+import { RequirementAnalyzer, type FileRequirement } from './RequirementAnalyzer';
+import type { RepoSnapshot } from './SnapshotCache';
+import type {
+  DeploymentDecision,
+  DeploymentOutcome,
+  DotfilesConfig,
+  FileMapping,
+  IgnoreMatch,
+  IgnoredFile,
+  Platform,
+  SourceFile,
+} from '../types';
+
+/**
+ * Everything the resolver decided for one platform and configuration
+ */
+export interface DeploymentResult {
+  /** Deployed targets (run_ scripts excluded) */
+  files: FileMapping[];
+  /** run_ scripts that apply, unordered and before rendering */
+  scripts: FileMapping[];
+  /** Files .chezmoiignore keeps from being deployed */
+  ignored: IgnoredFile[];
+  /** One decision per source file, in snapshot order */
+  decisions: DeploymentDecision[];
+}
+
+export class DeploymentResolver {
+  /**
+   * Resolve a repository snapshot for a platform and configuration
+   * This is the one place that decides what chezmoi deploys; every route
+   * that lists deployed files goes through it
+   */
+  static async resolveSnapshot(
+    snapshot: RepoSnapshot,
+    config: DotfilesConfig,
+    platform: Platform
+  ): Promise<DeploymentResult> {
+    const requirements = await RequirementAnalyzer.analyze(snapshot);
+    return this.resolveAll(snapshot.files, snapshot.ignoreContent, requirements, config, platform);
+  }
+
+  /**
+   * Decide a single source file, or return null if the snapshot lacks it
+   */
+  static async resolveFile(
+    snapshot: RepoSnapshot,
+    sourcePath: string,
+    config: DotfilesConfig,
+    platform: Platform
+  ): Promise<DeploymentDecision | null> {
+    const sourceFile = snapshot.files.find(file => file.path === sourcePath);
+    if (!sourceFile) return null;
+
+    const requirements = await RequirementAnalyzer.analyze(snapshot);
+    return this.resolveAll([sourceFile], snapshot.ignoreContent, requirements, config, platform).decisions[0];
+  }
+
+  private static resolveAll(
+    sourceFiles: SourceFile[],
+    ignoreContent: string,
+    requirements: Map<string, FileRequirement>,
+    config: DotfilesConfig,
+    platform: Platform
+  ): DeploymentResult {
+    // Get ignore rules for this platform and config
+    const ignoreRules = IgnoreParser.getIgnoreRules(
+      ignoreContent,
+      config,
+      platform
+    );
+    const data = TemplateParser.templateData(config, platform);
+
+    const result: DeploymentResult = { files: [], scripts: [], ignored: [], decisions: [] };
+
+    for (const sourceFile of sourceFiles) {
+      const sourcePath = sourceFile.path;
+      const requirement = requirements.get(sourcePath);
+      const condition = requirement?.condition ?? Conditions.TRUE;
+
+      // Build file mapping, with what it needs from static analysis
+      const fileMapping: FileMapping = {
+        ...FileMapper.buildFileMapping(
+          sourcePath,
+          Conditions.requiredModules(condition),
+          Conditions.platforms(condition)
+        ),
+        condition: Conditions.describe(condition),
+        size: sourceFile.size,
+      };
+      const decide = (outcome: DeploymentOutcome, reasons: string[], ignoreMatch?: IgnoreMatch) => {
+        result.decisions.push({
+          sourcePath,
+          deployPath: fileMapping.deployPath,
+          outcome,
+          reasons,
+          ...(ignoreMatch && { ignoreMatch }),
+        });
+      };
+
+      const notSourceState = this.notSourceState(sourcePath, fileMapping);
+      if (notSourceState) {
+        decide('not-source-state', [notSourceState]);
+        continue;
+      }
+
+      // Ignore patterns are matched against the target path
+      const match = IgnoreParser.explain(fileMapping.deployPath.replace(/^~\//, ''), ignoreRules);
+      if (match) {
+        const via = match.matchedPath === fileMapping.deployPath.replace(/^~\//, '')
+          ? ''
+          : ` (via ${match.matchedPath}/)`;
+        decide('ignored', [`Ignored by "${match.pattern}" on .chezmoiignore:${match.line}${via}`], match);
+        result.ignored.push({ sourcePath, deployPath: fileMapping.deployPath, match });
+        continue;
+      }
+
+      const reasons = ['Not matched by .chezmoiignore'];
+
+      // A template wrapped in a false {{ if }} renders empty and is not created
+      const guard = requirement?.guard ?? Conditions.TRUE;
+      if (!Conditions.isTrue(guard)) {
+        const guardText = Conditions.format(guard);
+
+        if (!Conditions.evaluate(guard, platform, data)) {
+          const outcome = Conditions.isFalse(Conditions.onPlatform(guard, platform)) ? 'platform' : 'modules';
+          decide(outcome, [...reasons, `Template guard "${guardText}" is false, so it renders empty`]);
+          continue;
+        }
+        reasons.push(`Template guard "${guardText}" holds`);
+      }
+
+      if (fileMapping.targetKind === 'script') {
+        decide('script', [...reasons, 'run_ script: executed, not deployed']);
+        result.scripts.push(fileMapping);
+      } else {
+        decide('deployed', reasons);
+        result.files.push(fileMapping);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Why a source file is not part of chezmoi's source state, or null if it is
+   */
+  private static notSourceState(sourcePath: string, fileMapping: FileMapping): string | null {
+    if (this.isRepositoryFile(sourcePath)) {
+      return 'Repository file, not a dotfile';
+    }
+
+    const parts = sourcePath.split('/');
+
+    // Scripts in .chezmoiscripts/ are the one kind of target under a dot directory
+    if (parts[0] === '.chezmoiscripts' && fileMapping.targetKind === 'script') {
+      return null;
+    }
+
+    if (parts[0] === '.chezmoitemplates') {
+      return 'Shared template, only used through {{ template }}';
+    }
+
+    if (parts[0].startsWith('.chezmoi')) {
+      return `chezmoi special file ${parts[0]}`;
+    }
+
+    if (parts.some(part => part.startsWith('.'))) {
+      return 'Source names starting with "." are not part of the source state';
+    }
+
+    return null;
+  }
+
+  /**
+   * Directories and files of the repository that are not part of the source state
+   */
+  private static isRepositoryFile(sourcePath: string): boolean {
+    return sourcePath.endsWith('/') ||
+      sourcePath === '.git' ||
+      sourcePath.startsWith('.git/') ||
+      sourcePath === 'LICENSE' ||
+      sourcePath === 'README.md' ||
+      sourcePath === 'CLAUDE.md' ||
+      sourcePath.startsWith('docs/') ||
+      sourcePath === '.gitignore' ||
+      sourcePath === '.pre-commit-config.yaml' ||
+      sourcePath === '.secrets.baseline' ||
+      sourcePath === 'Makefile';
+  }
+}
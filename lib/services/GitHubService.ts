@@ -1,31 +1,66 @@
 /**
  * GitHub Service
  * Fetches dotfiles repository content from GitHub API
+ * (github.com, or GitHub Enterprise Server through a custom API base URL)
  */
 
 import { Octokit } from '@octokit/rest';
+import { BaseSourceProvider } from './SourceProvider';
+import type { GitRef, RefsResponse, SourceFile } from '../types';
 
-export class GitHubService {
+type GitTreeEntry = {
+  path?: string;
+  type?: string;
+  sha?: string;
+  size?: number;
+};
+
+/**
+ * Number of recent commits offered by listRefs
+ */
+const RECENT_COMMITS = 20;
+
+export class GitHubService extends BaseSourceProvider {
   private octokit: Octokit;
   private owner: string;
   private repo: string;
-  private branch: string;
+  private ref: string;
+  private token?: string;
+  private baseUrl?: string;
 
+  /**
+   * @param ref - Branch, tag or commit SHA to read from
+   * @param baseUrl - API root for GitHub Enterprise, e.g. https://github.example.com/api/v3
+   */
   constructor(
     owner: string = 'brechtparmentier',
     repo: string = 'dotfiles',
-    branch: string = 'main',
-    token?: string
+    ref: string = 'main',
+    token?: string,
+    baseUrl?: string
   ) {
+    super();
     this.owner = owner;
     this.repo = repo;
-    this.branch = branch;
+    this.ref = ref;
+    this.token = token;
+    this.baseUrl = baseUrl;
     this.octokit = new Octokit({
       auth: token,
-      userAgent: 'dotfiles-visualizer/1.0'
+      userAgent: 'dotfiles-visualizer/1.0',
+      ...(baseUrl && { baseUrl }),
     });
   }
 
+  get cacheKey(): string {
+    const host = this.baseUrl ? `${this.baseUrl}/` : '';
+    return `github:${host}${this.owner}/${this.repo}@${this.ref}`;
+  }
+
+  atCommit(sha: string): GitHubService {
+    return new GitHubService(this.owner, this.repo, sha, this.token, this.baseUrl);
+  }
+
   /**
    * Get a single file from the repository
    */
@@ -35,7 +70,7 @@ export class GitHubService {
         owner: this.owner,
         repo: this.repo,
         path,
-        ref: this.branch,
+        ref: this.ref,
       });
 
       if ('content' in data && data.content) {
@@ -50,31 +85,22 @@ export class GitHubService {
   }
 
   /**
-   * Get .chezmoi.yaml configuration
+   * Get file content by git blob SHA
+   * Unlike getFile this is immutable, so it is safe to cache forever
    */
-  async getConfig(): Promise<string> {
-    return this.getFile('.chezmoi.yaml');
-  }
-
-  /**
-   * Get MODULES.md documentation
-   */
-  async getModulesDoc(): Promise<string> {
-    return this.getFile('MODULES.md');
-  }
-
-  /**
-   * Get common.sh.tmpl for alias extraction
-   */
-  async getCommonShell(): Promise<string> {
-    return this.getFile('dot_config/shell/common.sh.tmpl');
-  }
+  async getBlob(file: SourceFile): Promise<string> {
+    try {
+      const { data } = await this.octokit.git.getBlob({
+        owner: this.owner,
+        repo: this.repo,
+        file_sha: file.sha,
+      });
 
-  /**
-   * Get .chezmoiignore file
-   */
-  async getIgnoreFile(): Promise<string> {
-    return this.getFile('.chezmoiignore');
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    } catch (error) {
+      console.error(`Failed to fetch blob ${file.sha} (${file.path}):`, error);
+      throw new Error(`Failed to fetch file: ${file.path}`);
+    }
   }
 
   /**
@@ -86,7 +112,7 @@ export class GitHubService {
         owner: this.owner,
         repo: this.repo,
         path,
-        ref: this.branch,
+        ref: this.ref,
       });
 
       if (!Array.isArray(data)) {
@@ -114,9 +140,60 @@ export class GitHubService {
 
   /**
    * Get all source files from repository (recursive)
+   * Uses a single recursive Git Trees call for the ref
    */
-  async getAllSourceFiles(): Promise<string[]> {
-    return this.listFiles('', true);
+  async getAllSourceFiles(): Promise<SourceFile[]> {
+    return this.walkTree(this.ref, '');
+  }
+
+  /**
+   * Fetch a tree recursively
+   * GitHub truncates recursive trees above ~100k entries or 7 MB; in that case
+   * the tree is paged one level at a time, fetching each subtree separately
+   */
+  private async walkTree(treeSha: string, prefix: string): Promise<SourceFile[]> {
+    const { data } = await this.octokit.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: treeSha,
+      recursive: 'true',
+    });
+
+    if (!data.truncated) {
+      return this.toSourceFiles(data.tree, prefix);
+    }
+
+    console.warn(`Tree ${prefix || '/'} was truncated, paging through subtrees`);
+
+    const { data: level } = await this.octokit.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: treeSha,
+    });
+
+    let files = this.toSourceFiles(level.tree, prefix);
+
+    for (const entry of level.tree) {
+      if (entry.type === 'tree' && entry.sha && entry.path) {
+        const subFiles = await this.walkTree(entry.sha, `${prefix}${entry.path}/`);
+        files = files.concat(subFiles);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Keep blob entries of a tree listing (submodules and trees are skipped)
+   */
+  private toSourceFiles(entries: GitTreeEntry[], prefix: string): SourceFile[] {
+    return entries
+      .filter(entry => entry.type === 'blob' && entry.path && entry.sha)
+      .map(entry => ({
+        path: `${prefix}${entry.path}`,
+        sha: entry.sha!,
+        size: entry.size ?? 0,
+      }));
   }
 
   /**
@@ -145,31 +222,64 @@ export class GitHubService {
 
   /**
    * Get latest commit SHA for cache invalidation
+   * Requests the `sha` media type, so GitHub answers with just the SHA
+   * instead of the full commit and diff
    */
   async getLatestCommitSha(): Promise<string> {
     try {
       const { data } = await this.octokit.repos.getCommit({
         owner: this.owner,
         repo: this.repo,
-        ref: this.branch,
+        ref: this.ref,
+        mediaType: { format: 'sha' },
       });
 
-      return data.sha;
+      return (data as unknown as string).trim();
     } catch (error) {
       console.error('Failed to get latest commit:', error);
       throw new Error('Failed to get latest commit');
     }
   }
-}
 
-/**
- * Singleton instance with environment configuration
- */
-export function getGitHubService(): GitHubService {
-  const owner = process.env.DOTFILES_OWNER || 'brechtparmentier';
-  const repo = process.env.DOTFILES_REPO || 'dotfiles';
-  const branch = process.env.DOTFILES_BRANCH || 'main';
-  const token = process.env.GITHUB_TOKEN;
+  /**
+   * List branches, tags and recent commits on the configured ref
+   */
+  async listRefs(): Promise<RefsResponse> {
+    try {
+      const [branches, tags, commits] = await Promise.all([
+        this.octokit.repos.listBranches({ owner: this.owner, repo: this.repo, per_page: 100 }),
+        this.octokit.repos.listTags({ owner: this.owner, repo: this.repo, per_page: 100 }),
+        this.octokit.repos.listCommits({
+          owner: this.owner,
+          repo: this.repo,
+          sha: this.ref,
+          per_page: RECENT_COMMITS,
+        }),
+      ]);
 
-  return new GitHubService(owner, repo, branch, token);
+      return {
+        defaultRef: this.ref,
+        branches: branches.data.map((branch): GitRef => ({
+          name: branch.name,
+          type: 'branch',
+          sha: branch.commit.sha,
+        })),
+        tags: tags.data.map((tag): GitRef => ({
+          name: tag.name,
+          type: 'tag',
+          sha: tag.commit.sha,
+        })),
+        commits: commits.data.map((commit): GitRef => ({
+          name: commit.sha.slice(0, 7),
+          type: 'commit',
+          sha: commit.sha,
+          message: commit.commit.message.split('\n')[0],
+          date: commit.commit.committer?.date ?? undefined,
+        })),
+      };
+    } catch (error) {
+      console.error('Failed to list refs:', error);
+      throw new Error('Failed to list branches, tags and commits');
+    }
+  }
 }
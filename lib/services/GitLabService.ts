@@ -0,0 +1,192 @@
+/**
+ * GitLab Service
+ * Fetches dotfiles repository content from the GitLab REST API (v4),
+ * on gitlab.com or a self-managed instance
+ */
+
+import { RestClient } from './RestClient';
+import { BaseSourceProvider } from './SourceProvider';
+import type { GitRef, RefsResponse, SourceFile } from '../types';
+
+type GitLabTreeEntry = {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  id: string;
+};
+
+type GitLabBranch = {
+  name: string;
+  commit: { id: string };
+};
+
+type GitLabCommit = {
+  id: string;
+  short_id: string;
+  title: string;
+  committed_date?: string;
+};
+
+/**
+ * Number of recent commits offered by listRefs
+ */
+const RECENT_COMMITS = 20;
+
+export class GitLabService extends BaseSourceProvider {
+  private client: RestClient;
+  private baseUrl: string;
+  private project: string;
+  private ref: string;
+  private token?: string;
+
+  /**
+   * @param project - Project path, including any subgroups (e.g. "group/sub/dotfiles")
+   * @param ref - Branch, tag or commit SHA to read from
+   * @param baseUrl - API root of the instance
+   */
+  constructor(
+    project: string,
+    ref: string = 'main',
+    token?: string,
+    baseUrl: string = 'https://gitlab.com/api/v4'
+  ) {
+    super();
+    this.project = project;
+    this.ref = ref;
+    this.token = token;
+    this.baseUrl = baseUrl;
+    this.client = new RestClient(baseUrl, token ? { 'PRIVATE-TOKEN': token } : {});
+  }
+
+  get cacheKey(): string {
+    return `gitlab:${this.baseUrl}/${this.project}@${this.ref}`;
+  }
+
+  atCommit(sha: string): GitLabService {
+    return new GitLabService(this.project, sha, this.token, this.baseUrl);
+  }
+
+  /**
+   * API path of the project; GitLab addresses projects by URL-encoded path
+   */
+  private get projectPath(): string {
+    return `/projects/${encodeURIComponent(this.project)}`;
+  }
+
+  /**
+   * Get a single file from the repository
+   */
+  async getFile(path: string): Promise<string> {
+    try {
+      return await this.client.getText(
+        `${this.projectPath}/repository/files/${encodeURIComponent(path)}/raw`,
+        { ref: this.ref }
+      );
+    } catch (error) {
+      console.error(`Failed to fetch file ${path}:`, error);
+      throw new Error(`Failed to fetch file: ${path}`);
+    }
+  }
+
+  /**
+   * Get file content by git blob SHA
+   */
+  async getBlob(file: SourceFile): Promise<string> {
+    try {
+      return await this.client.getText(`${this.projectPath}/repository/blobs/${file.sha}/raw`);
+    } catch (error) {
+      console.error(`Failed to fetch blob ${file.sha} (${file.path}):`, error);
+      throw new Error(`Failed to fetch file: ${file.path}`);
+    }
+  }
+
+  /**
+   * List all files in a directory
+   */
+  async listFiles(path: string = '', recursive: boolean = false): Promise<string[]> {
+    try {
+      const entries = await this.listTree(path, recursive);
+      return entries.filter(entry => entry.type === 'blob').map(entry => entry.path);
+    } catch (error) {
+      console.error(`Failed to list files in ${path}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get all source files from repository (recursive)
+   * GitLab's tree listing does not report blob sizes, so sizes are 0
+   */
+  async getAllSourceFiles(): Promise<SourceFile[]> {
+    const entries = await this.listTree('', true);
+
+    return entries
+      .filter(entry => entry.type === 'blob')
+      .map(entry => ({ path: entry.path, sha: entry.id, size: 0 }));
+  }
+
+  private listTree(path: string, recursive: boolean): Promise<GitLabTreeEntry[]> {
+    return this.client.getAll<GitLabTreeEntry>(`${this.projectPath}/repository/tree`, {
+      ref: this.ref,
+      path: path || undefined,
+      recursive,
+      per_page: 100,
+    });
+  }
+
+  /**
+   * Get latest commit SHA for cache invalidation
+   */
+  async getLatestCommitSha(): Promise<string> {
+    try {
+      const commit = await this.client.get<GitLabCommit>(
+        `${this.projectPath}/repository/commits/${encodeURIComponent(this.ref)}`,
+        { stats: false }
+      );
+
+      return commit.id;
+    } catch (error) {
+      console.error('Failed to get latest commit:', error);
+      throw new Error('Failed to get latest commit');
+    }
+  }
+
+  /**
+   * List branches, tags and recent commits on the configured ref
+   */
+  async listRefs(): Promise<RefsResponse> {
+    try {
+      const [branches, tags, commits] = await Promise.all([
+        this.client.get<GitLabBranch[]>(`${this.projectPath}/repository/branches`, { per_page: 100 }),
+        this.client.get<GitLabBranch[]>(`${this.projectPath}/repository/tags`, { per_page: 100 }),
+        this.client.get<GitLabCommit[]>(`${this.projectPath}/repository/commits`, {
+          ref_name: this.ref,
+          per_page: RECENT_COMMITS,
+        }),
+      ]);
+
+      return {
+        defaultRef: this.ref,
+        branches: branches.map((branch): GitRef => ({
+          name: branch.name,
+          type: 'branch',
+          sha: branch.commit.id,
+        })),
+        tags: tags.map((tag): GitRef => ({
+          name: tag.name,
+          type: 'tag',
+          sha: tag.commit.id,
+        })),
+        commits: commits.map((commit): GitRef => ({
+          name: commit.short_id,
+          type: 'commit',
+          sha: commit.id,
+          message: commit.title,
+          date: commit.committed_date,
+        })),
+      };
+    } catch (error) {
+      console.error('Failed to list refs:', error);
+      throw new Error('Failed to list branches, tags and commits');
+    }
+  }
+}
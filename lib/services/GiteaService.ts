@@ -0,0 +1,233 @@
+/**
+ * Gitea Service
+ * Fetches dotfiles repository content from a Gitea (or Forgejo) instance
+ */
+
+import { RestClient } from './RestClient';
+import { BaseSourceProvider } from './SourceProvider';
+import type { GitRef, RefsResponse, SourceFile } from '../types';
+
+type GiteaTree = {
+  tree: { path: string; type: string; sha: string; size?: number }[];
+  truncated: boolean;
+  page: number;
+  total_count: number;
+};
+
+type GiteaBlob = {
+  content: string;
+  encoding: string;
+};
+
+type GiteaBranch = {
+  name: string;
+  commit: { id: string };
+};
+
+type GiteaTag = {
+  name: string;
+  commit: { sha: string };
+};
+
+type GiteaCommit = {
+  sha: string;
+  commit: {
+    message: string;
+    committer?: { date?: string };
+  };
+};
+
+/**
+ * Number of recent commits offered by listRefs
+ */
+const RECENT_COMMITS = 20;
+
+/**
+ * Tree entries requested per page
+ */
+const TREE_PAGE_SIZE = 1000;
+
+export class GiteaService extends BaseSourceProvider {
+  private client: RestClient;
+  private baseUrl: string;
+  private owner: string;
+  private repo: string;
+  private ref: string;
+  private token?: string;
+
+  /**
+   * @param baseUrl - API root of the instance, e.g. https://git.example.com/api/v1
+   * @param ref - Branch, tag or commit SHA to read from
+   */
+  constructor(
+    baseUrl: string,
+    owner: string,
+    repo: string,
+    ref: string = 'main',
+    token?: string
+  ) {
+    super();
+    this.baseUrl = baseUrl;
+    this.owner = owner;
+    this.repo = repo;
+    this.ref = ref;
+    this.token = token;
+    this.client = new RestClient(baseUrl, token ? { Authorization: `token ${token}` } : {});
+  }
+
+  get cacheKey(): string {
+    return `gitea:${this.baseUrl}/${this.owner}/${this.repo}@${this.ref}`;
+  }
+
+  atCommit(sha: string): GiteaService {
+    return new GiteaService(this.baseUrl, this.owner, this.repo, sha, this.token);
+  }
+
+  private get repoPath(): string {
+    return `/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}`;
+  }
+
+  /**
+   * Get a single file from the repository
+   */
+  async getFile(path: string): Promise<string> {
+    try {
+      const filePath = path.split('/').map(encodeURIComponent).join('/');
+      return await this.client.getText(`${this.repoPath}/raw/${filePath}`, { ref: this.ref });
+    } catch (error) {
+      console.error(`Failed to fetch file ${path}:`, error);
+      throw new Error(`Failed to fetch file: ${path}`);
+    }
+  }
+
+  /**
+   * Get file content by git blob SHA
+   */
+  async getBlob(file: SourceFile): Promise<string> {
+    try {
+      const blob = await this.client.get<GiteaBlob>(`${this.repoPath}/git/blobs/${file.sha}`);
+      return Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+    } catch (error) {
+      console.error(`Failed to fetch blob ${file.sha} (${file.path}):`, error);
+      throw new Error(`Failed to fetch file: ${file.path}`);
+    }
+  }
+
+  /**
+   * List all files in a directory
+   */
+  async listFiles(path: string = '', recursive: boolean = false): Promise<string[]> {
+    try {
+      const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+      const files = await this.getAllSourceFiles();
+
+      return files
+        .map(file => file.path)
+        .filter(filePath => filePath.startsWith(prefix))
+        .filter(filePath => recursive || !filePath.slice(prefix.length).includes('/'));
+    } catch (error) {
+      console.error(`Failed to list files in ${path}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get all source files from repository (recursive)
+   * Gitea pages recursive trees in the response body rather than through
+   * Link headers, so pages are requested until total_count is reached
+   */
+  async getAllSourceFiles(): Promise<SourceFile[]> {
+    const commitSha = await this.getLatestCommitSha();
+    const files: SourceFile[] = [];
+    let seen = 0;
+
+    for (let page = 1; ; page++) {
+      const tree = await this.client.get<GiteaTree>(`${this.repoPath}/git/trees/${commitSha}`, {
+        recursive: true,
+        page,
+        per_page: TREE_PAGE_SIZE,
+      });
+
+      for (const entry of tree.tree) {
+        if (entry.type === 'blob') {
+          files.push({ path: entry.path, sha: entry.sha, size: entry.size ?? 0 });
+        }
+      }
+
+      seen += tree.tree.length;
+      if (tree.tree.length === 0 || seen >= tree.total_count) {
+        break;
+      }
+    }
+
+    return files;
+  }
+
+
+  /**
+   * Get latest commit SHA for cache invalidation
+   */
+  async getLatestCommitSha(): Promise<string> {
+    try {
+      const [commit] = await this.client.get<GiteaCommit[]>(`${this.repoPath}/commits`, {
+        sha: this.ref,
+        limit: 1,
+        stat: false,
+        verification: false,
+        files: false,
+      });
+
+      if (!commit) {
+        throw new Error(`No commits on ${this.ref}`);
+      }
+
+      return commit.sha;
+    } catch (error) {
+      console.error('Failed to get latest commit:', error);
+      throw new Error('Failed to get latest commit');
+    }
+  }
+
+  /**
+   * List branches, tags and recent commits on the configured ref
+   */
+  async listRefs(): Promise<RefsResponse> {
+    try {
+      const [branches, tags, commits] = await Promise.all([
+        this.client.getAll<GiteaBranch>(`${this.repoPath}/branches`, { limit: 50 }),
+        this.client.getAll<GiteaTag>(`${this.repoPath}/tags`, { limit: 50 }),
+        this.client.get<GiteaCommit[]>(`${this.repoPath}/commits`, {
+          sha: this.ref,
+          limit: RECENT_COMMITS,
+          stat: false,
+          verification: false,
+          files: false,
+        }),
+      ]);
+
+      return {
+        defaultRef: this.ref,
+        branches: branches.map((branch): GitRef => ({
+          name: branch.name,
+          type: 'branch',
+          sha: branch.commit.id,
+        })),
+        tags: tags.map((tag): GitRef => ({
+          name: tag.name,
+          type: 'tag',
+          sha: tag.commit.sha,
+        })),
+        commits: commits.map((commit): GitRef => ({
+          name: commit.sha.slice(0, 7),
+          type: 'commit',
+          sha: commit.sha,
+          message: commit.commit.message.split('\n')[0],
+          date: commit.commit.committer?.date,
+        })),
+      };
+    } catch (error) {
+      console.error('Failed to list refs:', error);
+      throw new Error('Failed to list branches, tags and commits');
+    }
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Local File Service
+ * Reads a chezmoi source directory from the local filesystem
+ *
+ * Without a ref the working copy is read as-is (including uncommitted
+ * changes). With a ref, files are read from the git history of the
+ * source directory through the git CLI.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { createHash } from 'crypto';
+import { BaseSourceProvider, isValidRef } from './SourceProvider';
+import type { GitRef, RefsResponse, SourceFile } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Directories that are never part of the chezmoi source state
+ */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/**
+ * Number of recent commits offered by listRefs
+ */
+const RECENT_COMMITS = 20;
+
+export class LocalFileService extends BaseSourceProvider {
+  private rootDir: string;
+  private ref?: string;
+
+  constructor(rootDir: string, ref?: string) {
+    super();
+    this.rootDir = path.resolve(rootDir);
+    this.ref = ref;
+
+    if (ref !== undefined && !isValidRef(ref)) {
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+  }
+
+  get cacheKey(): string {
+    return `local:${this.rootDir}@${this.ref ?? ''}`;
+  }
+
+  /**
+   * The working copy has no commit to pin: its "SHA" is a fingerprint of
+   * the files on disk, so it keeps reading the working copy
+   */
+  atCommit(sha: string): LocalFileService {
+    return this.ref ? new LocalFileService(this.rootDir, sha) : this;
+  }
+
+  /**
+   * Resolve a repository-relative path, refusing paths outside the source directory
+   */
+  private resolvePath(relativePath: string): string {
+    const fullPath = path.resolve(this.rootDir, relativePath);
+
+    if (fullPath !== this.rootDir && !fullPath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Path is outside the source directory: ${relativePath}`);
+    }
+
+    return fullPath;
+  }
+
+  /**
+   * Run a git command in the source directory and return stdout
+   */
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-C', this.rootDir, ...args], {
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  }
+
+  /**
+   * Get a single file from the source directory
+   */
+  async getFile(filePath: string): Promise<string> {
+    try {
+      if (this.ref) {
+        return await this.git(['show', `${this.ref}:${filePath}`]);
+      }
+
+      return await fs.readFile(this.resolvePath(filePath), 'utf-8');
+    } catch (error) {
+      console.error(`Failed to read file ${filePath}:`, error);
+      throw new Error(`Failed to read file: ${filePath}`);
+    }
+  }
+
+  /**
+   * Get file content by git blob SHA when reading from history
+   */
+  async getBlob(file: SourceFile): Promise<string> {
+    if (!this.ref) {
+      return this.getFile(file.path);
+    }
+
+    try {
+      return await this.git(['cat-file', 'blob', file.sha]);
+    } catch (error) {
+      console.error(`Failed to read blob ${file.sha} (${file.path}):`, error);
+      throw new Error(`Failed to read file: ${file.path}`);
+    }
+  }
+
+  /**
+   * List all files in a directory
+   * Paths are returned relative to the source directory with forward slashes,
+   * matching the paths returned by the GitHub API
+   */
+  async listFiles(dirPath: string = '', recursive: boolean = false): Promise<string[]> {
+    if (this.ref) {
+      const files = await this.listTree(dirPath, recursive);
+      return files.map(file => file.path);
+    }
+
+    try {
+      const entries = await fs.readdir(this.resolvePath(dirPath), { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      let files: string[] = [];
+
+      for (const entry of entries) {
+        const entryPath = dirPath ? `${dirPath}/${entry.name}` : entry.name;
+
+        if (entry.isFile()) {
+          files.push(entryPath);
+        } else if (entry.isDirectory() && recursive && !SKIPPED_DIRECTORIES.has(entry.name)) {
+          const subFiles = await this.listFiles(entryPath, true);
+          files = files.concat(subFiles);
+        }
+      }
+
+      return files;
+    } catch (error) {
+      console.error(`Failed to list files in ${dirPath}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get all source files with their git blob SHA and size
+   */
+  async getAllSourceFiles(): Promise<SourceFile[]> {
+    if (this.ref) {
+      return this.listTree('', true);
+    }
+
+    const paths = await this.listFiles('', true);
+
+    return Promise.all(
+      paths.map(async (filePath) => {
+        const content = await fs.readFile(this.resolvePath(filePath));
+
+        return {
+          path: filePath,
+          sha: gitBlobSha(content),
+          size: content.length,
+        };
+      })
+    );
+  }
+
+  /**
+   * List blobs of the ref's tree with `git ls-tree`
+   */
+  private async listTree(dirPath: string, recursive: boolean): Promise<SourceFile[]> {
+    try {
+      const args = ['ls-tree', '-l', '-z'];
+      if (recursive) {
+        args.push('-r');
+      }
+      args.push(this.ref!);
+      if (dirPath) {
+        args.push('--', `${dirPath}/`);
+      }
+
+      const output = await this.git(args);
+
+      return output
+        .split('\0')
+        .filter(Boolean)
+        .map((line) => {
+          // <mode> SP <type> SP <sha> SP+ <size> TAB <path>
+          const [meta, filePath] = line.split('\t');
+          const [, type, sha, size] = meta.trim().split(/\s+/);
+          return { type, path: filePath, sha, size: parseInt(size, 10) || 0 };
+        })
+        .filter(entry => entry.type === 'blob')
+        .map(({ path: filePath, sha, size }) => ({ path: filePath, sha, size }));
+    } catch (error) {
+      console.error(`Failed to list tree of ${this.ref}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fingerprint of the working copy for cache invalidation
+   * A working copy has uncommitted changes, so this hashes every file's
+   * path, size and modification time instead of reading a commit SHA.
+   * With a ref, the ref is resolved to its commit SHA.
+   */
+  async getLatestCommitSha(): Promise<string> {
+    if (this.ref) {
+      try {
+        return (await this.git(['rev-parse', '--verify', `${this.ref}^{commit}`])).trim();
+      } catch (error) {
+        console.error(`Failed to resolve ref ${this.ref}:`, error);
+        throw new Error(`Unknown ref: ${this.ref}`);
+      }
+    }
+
+    const hash = createHash('sha1');
+    const files = await this.listFiles('', true);
+
+    for (const file of files) {
+      try {
+        const stats = await fs.stat(this.resolvePath(file));
+        hash.update(`${file}:${stats.size}:${stats.mtimeMs}\n`);
+      } catch {
+        // File disappeared while listing; leave it out of the fingerprint
+      }
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * List branches, tags and recent commits of the source directory's git history
+   * The configured ref (or the working copy) is the default; a directory that is not a git
+   * repository only offers the working copy
+   */
+  async listRefs(): Promise<RefsResponse> {
+    const refs: RefsResponse = { defaultRef: this.ref || '', branches: [], tags: [], commits: [] };
+
+    try {
+      const refLines = await this.git([
+        'for-each-ref',
+        '--format=%(refname)%09%(objectname)',
+        'refs/heads',
+        'refs/tags',
+      ]);
+
+      for (const line of refLines.split('\n').filter(Boolean)) {
+        const [refName, sha] = line.split('\t');
+
+        if (refName.startsWith('refs/heads/')) {
+          refs.branches.push({ name: refName.slice('refs/heads/'.length), type: 'branch', sha });
+        } else {
+          refs.tags.push({ name: refName.slice('refs/tags/'.length), type: 'tag', sha });
+        }
+      }
+
+      const logLines = await this.git([
+        'log',
+        `-${RECENT_COMMITS}`,
+        '--format=%H%x09%cI%x09%s',
+      ]);
+
+      refs.commits = logLines
+        .split('\n')
+        .filter(Boolean)
+        .map((line): GitRef => {
+          const [sha, date, message] = line.split('\t');
+          return { name: sha.slice(0, 7), type: 'commit', sha, date, message };
+        });
+    } catch (error) {
+      console.warn(`No git history available in ${this.rootDir}:`, error);
+    }
+
+    return refs;
+  }
+}
+
+/**
+ * Compute the SHA git would give this content as a blob,
+ * so local and GitHub file listings are comparable
+ */
+function gitBlobSha(content: Buffer): string {
+  return createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
@@ -0,0 +1,164 @@
+/**
+ * Module Dependencies
+ * Applies requested module changes while keeping dependencies met: turning
+ * a module on turns on what it requires, turning one off turns off what
+ * requires it; what cannot be settled is reported as a conflict
+ */
+
+import type {
+  DependencyMode,
+  DependencyResolution,
+  DotfilesConfig,
+  ModuleAutoChange,
+  ModuleConflict,
+  ModuleMetadata,
+  Platform,
+} from '../types';
+
+/**
+ * Where a module's state in the resolution comes from
+ */
+type Origin = 'config' | 'request' | 'auto';
+
+interface ModuleState {
+  enabled: boolean;
+  origin: Origin;
+}
+
+export class ModuleDependencies {
+  /**
+   * @param modules - Discovered modules, see ModuleRegistry
+   */
+  static resolve(
+    config: DotfilesConfig,
+    modules: ModuleMetadata[],
+    moduleChanges: Record<string, boolean>,
+    platform: Platform,
+    mode: DependencyMode = 'auto'
+  ): DependencyResolution {
+    const states = new Map<string, ModuleState>();
+    for (const [id, value] of Object.entries(config.data.modules)) {
+      if (value && typeof value === 'object' && 'enabled' in value) {
+        states.set(id, { enabled: Boolean(value.enabled), origin: 'config' });
+      }
+    }
+
+    // The simulator sends every module; only differences are requests
+    for (const [id, enabled] of Object.entries(moduleChanges)) {
+      const state = states.get(id);
+      if (state && state.enabled !== enabled) {
+        states.set(id, { enabled, origin: 'request' });
+      }
+    }
+
+    const metadata = new Map(modules.map(info => [info.id, info]));
+    const dependencies = (id: string) => metadata.get(id)?.dependencies ?? [];
+    const name = (id: string) => metadata.get(id)?.name ?? id;
+
+    const autoChanges: ModuleAutoChange[] = [];
+    const conflicts = new Map<string, ModuleConflict>();
+
+    const conflict = (id: string, dependency: string, message: string) => {
+      conflicts.set(`${id}:${dependency}`, { module: id, dependency, message });
+    };
+
+    // Every state changes at most once, so this settles
+    for (let changed = true; changed;) {
+      changed = false;
+
+      for (const [id, state] of states) {
+        if (!state.enabled) continue;
+
+        for (const dependency of dependencies(id)) {
+          const target = states.get(dependency);
+
+          if (!target) {
+            conflict(id, dependency, `${name(id)} requires ${dependency}, which the configuration does not define`);
+            continue;
+          }
+          if (target.enabled) continue;
+
+          if (mode === 'report') {
+            conflict(id, dependency, `${name(id)} requires ${name(dependency)}, which is disabled`);
+          } else if (state.origin !== 'config' && target.origin === 'config') {
+            // Turned on, here or by another module: bring the dependency along
+            states.set(dependency, { enabled: true, origin: 'auto' });
+            autoChanges.push({
+              module: dependency,
+              enabled: true,
+              cause: id,
+              reason: `${name(id)} requires ${name(dependency)}`,
+            });
+            changed = true;
+          } else if (state.origin === 'config' && target.origin !== 'config') {
+            // The dependency was turned off: what needs it goes too
+            states.set(id, { enabled: false, origin: 'auto' });
+            autoChanges.push({
+              module: id,
+              enabled: false,
+              cause: dependency,
+              reason: `${name(id)} requires ${name(dependency)}, which is ${target.origin === 'auto' ? 'now disabled' : 'being disabled'}`,
+            });
+            changed = true;
+            break;
+          } else if (state.origin === 'config') {
+            conflict(id, dependency, `${name(id)} requires ${name(dependency)}, which the configuration already disables`);
+          } else {
+            conflict(id, dependency, `${name(id)} was enabled but ${name(dependency)}, which it requires, was disabled`);
+          }
+        }
+      }
+    }
+
+    const resolved: Record<string, boolean> = { ...moduleChanges };
+    for (const change of autoChanges) {
+      resolved[change.module] = change.enabled;
+    }
+
+    const platformWarnings = modules
+      .filter(info => states.get(info.id)?.enabled && !info.platforms.includes(platform))
+      .map(info => `${info.name} is enabled but only supported on ${info.platforms.join(', ')}`);
+
+    return {
+      mode,
+      moduleChanges: resolved,
+      autoChanges,
+      conflicts: [...conflicts.values()],
+      cycles: this.cycles(modules),
+      platformWarnings,
+    };
+  }
+
+  /**
+   * Dependency cycles, found by depth-first search; each is reported once,
+   * starting from its first module in sort order
+   */
+  static cycles(modules: ModuleMetadata[]): string[][] {
+    const dependencies = new Map(modules.map(info => [info.id, info.dependencies]));
+    const cycles = new Map<string, string[]>();
+    const done = new Set<string>();
+
+    const visit = (id: string, path: string[]) => {
+      const index = path.indexOf(id);
+      if (index !== -1) {
+        const cycle = path.slice(index);
+        const start = cycle.indexOf([...cycle].sort()[0]);
+        const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(rotated.join('→'), rotated);
+        return;
+      }
+      if (done.has(id)) return;
+
+      for (const dependency of dependencies.get(id) ?? []) {
+        visit(dependency, [...path, id]);
+      }
+      done.add(id);
+    };
+
+    for (const id of [...dependencies.keys()].sort()) {
+      visit(id, []);
+    }
+
+    return [...cycles.values()];
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Module Registry
+ * Discovers modules from data.modules and describes each one, from the
+ * repository's metadata file first, then MODULES.md, then the built-in
+ * metadata, then defaults generated from the module ID
+ */
+
+import { Conditions } from '../parsers/Conditions';
+import { MarkdownParser } from '../parsers/MarkdownParser';
+import { YAMLParser } from '../parsers/YAMLParser';
+import { AliasCatalog } from './AliasCatalog';
+import { DeploymentResolver } from './DeploymentResolver';
+import { RequirementAnalyzer } from './RequirementAnalyzer';
+import type { RepoSnapshot } from './SnapshotCache';
+import {
+  MODULE_DEPENDENCIES,
+  MODULE_METADATA,
+  type DotfilesConfig,
+  type ModuleDoc,
+  type ModuleInfo,
+  type ModuleMetadata,
+  type Platform,
+} from '../types';
+
+/**
+ * Optional file in the dotfiles repository with metadata per module; the
+ * leading dot keeps it out of the source state
+ */
+export const MODULE_METADATA_FILE = '.modules.yaml';
+
+/**
+ * Module documentation at the root of the dotfiles repository
+ */
+export const MODULES_DOC_FILE = 'MODULES.md';
+
+const PLATFORMS: Platform[] = ['linux', 'darwin', 'windows'];
+
+/**
+ * Parsed metadata file, one per snapshot
+ */
+const repoMetadata = new WeakMap<RepoSnapshot, Promise<Record<string, Partial<ModuleMetadata>>>>();
+
+export class ModuleRegistry {
+  /**
+   * Every module of the configuration, in configuration order
+   */
+  static discover(
+    config: DotfilesConfig,
+    overrides: Record<string, Partial<ModuleMetadata>> = {},
+    docs: ModuleDoc[] = []
+  ): ModuleMetadata[] {
+    return Object.entries(config.data.modules)
+      .filter(([, settings]) => settings && typeof settings === 'object')
+      .map(([id]) => this.describe(id, [overrides[id] ?? {}, this.fromDoc(docs.find(doc => doc.id === id))]));
+  }
+
+  /**
+   * Modules of a configuration, with the metadata file and MODULES.md of
+   * the snapshot
+   */
+  static async forSnapshot(snapshot: RepoSnapshot, config: DotfilesConfig): Promise<ModuleMetadata[]> {
+    const overrides = await this.metadataFile(snapshot);
+    return this.discover(config, overrides, await this.docs(snapshot, this.discover(config, overrides)));
+  }
+
+  /**
+   * Full module descriptions: metadata, the source files that need the
+   * module, the aliases and functions they define and the MODULES.md section
+   */
+  static async info(snapshot: RepoSnapshot, config: DotfilesConfig): Promise<ModuleInfo[]> {
+    const [modules, requirements, { decisions }] = await Promise.all([
+      this.forSnapshot(snapshot, config),
+      RequirementAnalyzer.analyze(snapshot),
+      DeploymentResolver.resolveSnapshot(snapshot, config, 'linux'),
+    ]);
+    const docs = await this.docs(snapshot, modules);
+
+    // Whether a file is in the source state does not depend on the configuration
+    const sources = decisions
+      .filter(decision => decision.outcome !== 'not-source-state')
+      .map(decision => decision.sourcePath);
+
+    return Promise.all(modules.map(async (metadata): Promise<ModuleInfo> => {
+      const { aliases, functions } = await AliasCatalog.list(snapshot, { module: metadata.id });
+      const doc = docs.find(d => d.id === metadata.id);
+
+      return {
+        ...metadata,
+        files: sources.filter(sourcePath => {
+          const condition = requirements.get(sourcePath)?.condition ?? Conditions.TRUE;
+          return Conditions.requiredModules(condition).includes(metadata.id);
+        }),
+        // The docs explain what the source does not
+        aliases: aliases.map(alias => ({
+          ...alias,
+          description: alias.description ?? doc?.aliases.find(a => a.name === alias.name)?.description,
+        })),
+        functions: functions.map(fn => {
+          const documented = doc?.functions.find(f => f.name === fn.name);
+          return {
+            ...fn,
+            description: fn.description || documented?.description || '',
+            usage: fn.usage === fn.name && documented ? documented.usage : fn.usage,
+          };
+        }),
+        doc,
+      };
+    }));
+  }
+
+  /**
+   * Sections of the snapshot's MODULES.md about the given modules
+   */
+  static async docs(snapshot: RepoSnapshot, modules: ModuleMetadata[]): Promise<ModuleDoc[]> {
+    if (!snapshot.hasFile(MODULES_DOC_FILE)) return [];
+    return MarkdownParser.parseModules(await snapshot.getFile(MODULES_DOC_FILE), modules);
+  }
+
+  /**
+   * `smart_search` → `Smart Search`
+   */
+  static displayName(id: string): string {
+    return id
+      .split(/[_-]+/)
+      .filter(Boolean)
+      .map(word => word[0].toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  /**
+   * @param layers - Metadata in priority order, before the built-in metadata
+   */
+  private static describe(id: string, layers: Array<Partial<ModuleMetadata>>): ModuleMetadata {
+    const builtIn = MODULE_METADATA[id] ?? {};
+    const first = <K extends keyof ModuleMetadata>(key: K): ModuleMetadata[K] | undefined =>
+      layers.find(layer => layer[key] !== undefined)?.[key] ?? builtIn[key];
+
+    return {
+      id,
+      name: first('name') ?? this.displayName(id),
+      description: first('description') ?? '',
+      category: first('category') ?? 'uncategorised',
+      recommended: first('recommended') ?? false,
+      dependencies: layers.find(layer => layer.dependencies)?.dependencies ?? [
+        ...new Set([...(builtIn.dependencies ?? []), ...(MODULE_DEPENDENCIES[id] ?? [])]),
+      ],
+      platforms: first('platforms') ?? PLATFORMS,
+      startupImpact: first('startupImpact'),
+    };
+  }
+
+  /**
+   * What a MODULES.md section says about the module's metadata
+   */
+  private static fromDoc(doc: ModuleDoc | undefined): Partial<ModuleMetadata> {
+    if (!doc) return {};
+
+    return {
+      description: doc.description,
+      dependencies: doc.dependencies,
+      platforms: doc.platforms && doc.platforms.length > 0 ? doc.platforms : undefined,
+      startupImpact: doc.startupImpact,
+    };
+  }
+
+  private static metadataFile(snapshot: RepoSnapshot): Promise<Record<string, Partial<ModuleMetadata>>> {
+    let metadata = repoMetadata.get(snapshot);
+
+    if (!metadata) {
+      metadata = snapshot.hasFile(MODULE_METADATA_FILE)
+        ? snapshot.getFile(MODULE_METADATA_FILE).then(content => YAMLParser.parseModuleMetadata(content))
+        : Promise.resolve({});
+      repoMetadata.set(snapshot, metadata);
+      metadata.catch(() => repoMetadata.delete(snapshot));
+    }
+
+    return metadata;
+  }
+}
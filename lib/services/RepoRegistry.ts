@@ -0,0 +1,225 @@
+/**
+ * Repository Registry
+ * Named dotfiles repositories served by one deployment
+ *
+ * Repositories are read from the JSON file named by DOTFILES_REGISTRY:
+ *
+ *   {
+ *     "repos": [
+ *       { "id": "brecht", "name": "Brecht", "owner": "brechtparmentier",
+ *         "repo": "dotfiles", "branch": "main", "tokenEnv": "GITHUB_TOKEN" },
+ *       { "id": "home", "name": "Homelab", "provider": "gitea",
+ *         "baseUrl": "https://git.example.com/api/v1",
+ *         "owner": "brecht", "repo": "dotfiles" },
+ *       { "id": "local", "name": "Working copy", "provider": "local",
+ *         "path": "~/.local/share/chezmoi" }
+ *     ]
+ *   }
+ *
+ * Without a registry file, a single "default" repository is built from the
+ * DOTFILES_* environment variables.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { RepoSummary, SourceKind } from '../types';
+
+export interface RepoDefinition {
+  id: string;
+  name: string;
+  provider: SourceKind;
+  /** Owner (GitLab: namespace, including subgroups) and repository name */
+  owner?: string;
+  repo?: string;
+  /** API root for GitHub Enterprise, self-managed GitLab or Gitea */
+  baseUrl?: string;
+  /** Default branch; empty means the working copy for a local source */
+  branch: string;
+  /** Name of the environment variable holding the access token */
+  tokenEnv?: string;
+  /** Source directory for a local repository */
+  path?: string;
+}
+
+const SOURCE_KINDS: SourceKind[] = ['github', 'gitlab', 'gitea', 'local'];
+
+export class RepoRegistry {
+  private repos: RepoDefinition[];
+
+  constructor(repos: RepoDefinition[]) {
+    if (repos.length === 0) {
+      throw new Error('Repository registry is empty');
+    }
+
+    const ids = new Set<string>();
+    for (const repo of repos) {
+      if (!/^[\w-]+$/.test(repo.id)) {
+        throw new Error(`Invalid repository id: ${repo.id}`);
+      }
+      if (ids.has(repo.id)) {
+        throw new Error(`Duplicate repository id: ${repo.id}`);
+      }
+      if (!SOURCE_KINDS.includes(repo.provider)) {
+        throw new Error(`Repository ${repo.id} has unknown provider: ${repo.provider}`);
+      }
+      if (repo.provider !== 'local' && (!repo.owner || !repo.repo)) {
+        throw new Error(`Repository ${repo.id} needs an owner and repo`);
+      }
+      if (repo.provider === 'gitea' && !repo.baseUrl) {
+        throw new Error(`Repository ${repo.id} needs a baseUrl`);
+      }
+      if (repo.provider === 'local' && !repo.path) {
+        throw new Error(`Repository ${repo.id} needs a path`);
+      }
+      ids.add(repo.id);
+    }
+
+    this.repos = repos;
+  }
+
+  /**
+   * All registered repositories, default first
+   */
+  list(): RepoDefinition[] {
+    return [...this.repos];
+  }
+
+  /**
+   * Get a repository by id; without an id, the default repository
+   */
+  get(id?: string): RepoDefinition {
+    if (!id) {
+      return this.repos[0];
+    }
+
+    const repo = this.repos.find(r => r.id === id);
+    if (!repo) {
+      throw new Error(`Unknown repository: ${id}`);
+    }
+
+    return repo;
+  }
+
+  /**
+   * Find a hosted repository by its "owner/repo" name (e.g. from a webhook)
+   */
+  findByFullName(fullName: string): RepoDefinition | undefined {
+    return this.repos.find(
+      r => r.provider !== 'local' && `${r.owner}/${r.repo}`.toLowerCase() === fullName.toLowerCase()
+    );
+  }
+
+  /**
+   * Client-safe view of a repository
+   */
+  static summarize(repo: RepoDefinition): RepoSummary {
+    return {
+      id: repo.id,
+      name: repo.name,
+      provider: repo.provider,
+      defaultBranch: repo.branch,
+      webUrl: webUrl(repo),
+    };
+  }
+}
+
+/**
+ * Public web address of a hosted repository, derived from its API root
+ */
+function webUrl(repo: RepoDefinition): string | undefined {
+  if (repo.provider === 'local') {
+    return undefined;
+  }
+
+  const defaultHost = repo.provider === 'gitlab' ? 'https://gitlab.com' : 'https://github.com';
+  const host = repo.baseUrl
+    ? repo.baseUrl.replace(/\/+$/, '').replace(/\/api\/v\d+$/, '')
+    : defaultHost;
+
+  return `${host}/${repo.owner}/${repo.repo}`;
+}
+
+/**
+ * Expand a leading ~ in configured paths
+ */
+function expandHome(dirPath: string): string {
+  return dirPath.startsWith('~/') ? path.join(os.homedir(), dirPath.slice(2)) : dirPath;
+}
+
+/**
+ * Build the single repository described by the DOTFILES_* environment variables
+ */
+function defaultRepoFromEnv(): RepoDefinition {
+  const provider = (process.env.DOTFILES_SOURCE || 'github') as SourceKind;
+
+  if (provider === 'local') {
+    return {
+      id: 'default',
+      name: 'Local dotfiles',
+      provider,
+      branch: '',
+      path: expandHome(process.env.DOTFILES_PATH || '~/.local/share/chezmoi'),
+    };
+  }
+
+  if (!SOURCE_KINDS.includes(provider)) {
+    throw new Error(`Unknown DOTFILES_SOURCE: ${provider} (expected one of ${SOURCE_KINDS.join(', ')})`);
+  }
+
+  const owner = process.env.DOTFILES_OWNER || 'brechtparmentier';
+  const repo = process.env.DOTFILES_REPO || 'dotfiles';
+
+  return {
+    id: 'default',
+    name: `${owner}/${repo}`,
+    provider,
+    owner,
+    repo,
+    baseUrl: process.env.DOTFILES_BASE_URL || undefined,
+    branch: process.env.DOTFILES_BRANCH || 'main',
+  };
+}
+
+/**
+ * Read repositories from a registry file
+ */
+function loadRegistryFile(filePath: string): RepoDefinition[] {
+  const parsed = JSON.parse(fs.readFileSync(expandHome(filePath), 'utf-8'));
+
+  if (!Array.isArray(parsed?.repos)) {
+    throw new Error(`Registry ${filePath} has no "repos" array`);
+  }
+
+  return parsed.repos.map((entry: Partial<RepoDefinition>): RepoDefinition => {
+    const provider = entry.provider || 'github';
+
+    return {
+      id: String(entry.id ?? ''),
+      name: entry.name || String(entry.id ?? ''),
+      provider,
+      owner: entry.owner,
+      repo: entry.repo,
+      baseUrl: entry.baseUrl,
+      branch: entry.branch ?? (provider === 'local' ? '' : 'main'),
+      tokenEnv: entry.tokenEnv,
+      path: entry.path ? expandHome(entry.path) : undefined,
+    };
+  });
+}
+
+let registry: RepoRegistry | null = null;
+
+/**
+ * Shared registry, loaded on first use
+ */
+export function getRepoRegistry(): RepoRegistry {
+  if (!registry) {
+    const registryFile = process.env.DOTFILES_REGISTRY;
+    registry = new RepoRegistry(
+      registryFile ? loadRegistryFile(registryFile) : [defaultRepoFromEnv()]
+    );
+  }
+
+  return registry;
+}
@@ -0,0 +1,85 @@
+/**
+ * Requirement Analyzer
+ * Works out, by static analysis, the condition under which each source file
+ * is deployed: .chezmoiignore's conditional blocks plus the template's
+ * top-level guard
+ */
+
+import { Conditions, type Condition } from '../parsers/Conditions';
+import { FileMapper } from '../parsers/FileMapper';
+import { IgnoreParser } from '../parsers/IgnoreParser';
+import { Parser } from '../parsers/gotemplate/Parser';
+import type { ListNode } from '../parsers/gotemplate/ast';
+import type { RepoSnapshot } from './SnapshotCache';
+
+export interface FileRequirement {
+  /** When the file is deployed: it is not ignored and its guard holds */
+  condition: Condition;
+  /** When .chezmoiignore ignores it */
+  ignored: Condition;
+  /** When its template renders to something (TRUE without a guard) */
+  guard: Condition;
+}
+
+/**
+ * Analyses, one per snapshot; they only depend on the snapshot's content
+ */
+const analyses = new WeakMap<RepoSnapshot, Promise<Map<string, FileRequirement>>>();
+
+export class RequirementAnalyzer {
+  /**
+   * Requirements of every file in a snapshot, keyed by source path
+   */
+  static analyze(snapshot: RepoSnapshot): Promise<Map<string, FileRequirement>> {
+    let analysis = analyses.get(snapshot);
+
+    if (!analysis) {
+      analysis = this.build(snapshot);
+      analyses.set(snapshot, analysis);
+      analysis.catch(() => analyses.delete(snapshot));
+    }
+
+    return analysis;
+  }
+
+  /**
+   * The condition of a template's top-level guard: when the whole template
+   * is wrapped in `{{ if ... }}` without else, it renders empty otherwise,
+   * and chezmoi does not create empty files
+   */
+  static guard(content: string): Condition {
+    try {
+      return this.listGuard(Parser.parse(content).root);
+    } catch {
+      return Conditions.TRUE;
+    }
+  }
+
+  private static async build(snapshot: RepoSnapshot): Promise<Map<string, FileRequirement>> {
+    const rules = IgnoreParser.getConditionalRules(snapshot.ignoreContent);
+
+    const entries = await Promise.all(snapshot.files.map(async (file): Promise<[string, FileRequirement]> => {
+      const mapping = FileMapper.mapFile(file.path);
+      const targetPath = (mapping.deployPath ?? '').replace(/^~\//, '');
+      const ignored = IgnoreParser.ignoreCondition(targetPath, rules);
+
+      const guarded = mapping.isTemplate && !mapping.attributes?.includes('empty');
+      const guard = guarded ? this.guard(await snapshot.getFile(file.path)) : Conditions.TRUE;
+
+      return [file.path, { condition: Conditions.and(Conditions.not(ignored), guard), ignored, guard }];
+    }));
+
+    return new Map(entries);
+  }
+
+  private static listGuard(list: ListNode): Condition {
+    const nodes = list.nodes.filter(node => !(node.type === 'text' && node.text.trim() === ''));
+
+    if (nodes.length !== 1) return Conditions.TRUE;
+
+    const [node] = nodes;
+    if (node.type !== 'if' || node.elseList) return Conditions.TRUE;
+
+    return Conditions.and(Conditions.fromPipeline(node.pipeline), this.listGuard(node.list));
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * REST Client
+ * Minimal JSON client for the Git hosting APIs that have no SDK here
+ */
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Upper bound on followed pages, so a misbehaving server cannot loop forever
+ */
+const MAX_PAGES = 100;
+
+export class RestClient {
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  /**
+   * @param baseUrl - API root, e.g. https://gitlab.com/api/v4
+   * @param headers - Sent with every request (authentication, ...)
+   */
+  constructor(baseUrl: string, headers: Record<string, string> = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.headers = {
+      'User-Agent': 'dotfiles-visualizer/1.0',
+      ...headers,
+    };
+  }
+
+  /**
+   * GET a JSON resource
+   */
+  async get<T>(path: string, params: QueryParams = {}): Promise<T> {
+    const response = await this.request(this.url(path, params), 'application/json');
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * GET a raw text resource (file contents)
+   */
+  async getText(path: string, params: QueryParams = {}): Promise<string> {
+    const response = await this.request(this.url(path, params), '*/*');
+    return response.text();
+  }
+
+  /**
+   * GET every page of a JSON array resource
+   * Follows the `Link: <...>; rel="next"` header used by GitLab and Gitea,
+   * only on the API's own origin, since every request carries the headers
+   * @throws Error when a next page is on another origin
+   */
+  async getAll<T>(path: string, params: QueryParams = {}): Promise<T[]> {
+    let items: T[] = [];
+    let url: string | null = this.url(path, params);
+
+    for (let page = 0; url && page < MAX_PAGES; page++) {
+      const response = await this.request(url, 'application/json');
+      items = items.concat(await response.json() as T[]);
+      url = this.nextPage(response.headers.get('link'), url);
+    }
+
+    return items;
+  }
+
+  private url(path: string, params: QueryParams): string {
+    const url = new URL(`${this.baseUrl}${path}`);
+
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    return url.toString();
+  }
+
+  private async request(url: string, accept: string): Promise<Response> {
+    const response = await fetch(url, {
+      headers: { ...this.headers, Accept: accept },
+      // HEAD checks must see new commits, never a cached answer
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`GET ${url} failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Extract the rel="next" URL from a Link header, resolved against the
+   * page it came with
+   */
+  private nextPage(link: string | null, current: string): string | null {
+    if (!link) {
+      return null;
+    }
+
+    for (const part of link.split(',')) {
+      const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+      if (match) {
+        const next = new URL(match[1], current);
+        const origin = new URL(this.baseUrl).origin;
+
+        if (next.origin !== origin) {
+          throw new Error(`Refusing to follow the next page to ${next.origin}: the API is on ${origin}`);
+        }
+        return next.toString();
+      }
+    }
+
+    return null;
+  }
+}
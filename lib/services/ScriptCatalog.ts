@@ -0,0 +1,112 @@
+/**
+ * Script Catalog
+ * Lists the run_ scripts `chezmoi apply` would execute, in its order
+ */
+
+import { DeploymentResolver } from './DeploymentResolver';
+import { TemplateRenderer } from './TemplateRenderer';
+import type { RepoSnapshot } from './SnapshotCache';
+import type {
+  DotfilesConfig,
+  FileMapping,
+  Platform,
+  ScriptEntry,
+  ScriptFrequency,
+  ScriptPhase,
+} from '../types';
+
+const PHASE_ORDER: Record<ScriptPhase, number> = {
+  before: 0,
+  during: 1,
+  after: 2,
+};
+
+export interface ScriptCatalogResult {
+  scripts: ScriptEntry[];
+  skipped: ScriptEntry[];
+}
+
+export class ScriptCatalog {
+  /**
+   * Render the scripts for a platform and configuration and put them in
+   * execution order; scripts that are empty once rendered are skipped
+   */
+  static async build(
+    snapshot: RepoSnapshot,
+    config: DotfilesConfig,
+    platform: Platform
+  ): Promise<ScriptCatalogResult> {
+    const { scripts: mappings } = await DeploymentResolver.resolveSnapshot(snapshot, config, platform);
+
+    const entries = await Promise.all(
+      this.sort(mappings).map(mapping => this.render(mapping, snapshot, config, platform))
+    );
+
+    return {
+      scripts: entries.filter(entry => entry.content.trim() !== ''),
+      skipped: entries.filter(entry => entry.content.trim() === ''),
+    };
+  }
+
+  /**
+   * Execution order: before_ scripts, then the rest (which chezmoi runs
+   * while applying files), then after_ scripts; each group sorted by
+   * target name, comparing bytes like Go does
+   */
+  static sort(mappings: FileMapping[]): FileMapping[] {
+    return [...mappings].sort((a, b) => {
+      const phase = PHASE_ORDER[this.phase(a)] - PHASE_ORDER[this.phase(b)];
+      if (phase !== 0) return phase;
+
+      const nameA = this.targetName(a);
+      const nameB = this.targetName(b);
+      return nameA < nameB ? -1 : nameA > nameB ? 1 : 0;
+    });
+  }
+
+  static phase(mapping: FileMapping): ScriptPhase {
+    if (mapping.attributes.includes('before')) return 'before';
+    if (mapping.attributes.includes('after')) return 'after';
+    return 'during';
+  }
+
+  static frequency(mapping: FileMapping): ScriptFrequency {
+    if (mapping.attributes.includes('once')) return 'once';
+    if (mapping.attributes.includes('onchange')) return 'onchange';
+    return 'always';
+  }
+
+  private static targetName(mapping: FileMapping): string {
+    return mapping.deployPath.replace(/^~\//, '');
+  }
+
+  private static async render(
+    mapping: FileMapping,
+    snapshot: RepoSnapshot,
+    config: DotfilesConfig,
+    platform: Platform
+  ): Promise<ScriptEntry> {
+    const entry: ScriptEntry = {
+      sourcePath: mapping.sourcePath,
+      name: this.targetName(mapping),
+      phase: this.phase(mapping),
+      frequency: this.frequency(mapping),
+      isTemplate: mapping.isTemplate,
+      requiredModules: mapping.requiredModules,
+      content: '',
+      markers: [],
+      diagnostics: [],
+    };
+
+    if (mapping.isTemplate) {
+      const result = await TemplateRenderer.render(mapping.sourcePath, snapshot, config, platform);
+      entry.content = result.output;
+      entry.markers = result.markers;
+      entry.diagnostics = result.diagnostics;
+    } else {
+      entry.content = await snapshot.getFile(mapping.sourcePath);
+    }
+
+    return entry;
+  }
+}
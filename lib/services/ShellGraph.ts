@@ -0,0 +1,162 @@
+/**
+ * Shell Graph
+ * Which deployed shell files source which, and which functions they call
+ * from other files, for a platform and configuration; comparing two
+ * configurations finds references a change breaks
+ */
+
+import { Conditions } from '../parsers/Conditions';
+import { FileMapper } from '../parsers/FileMapper';
+import { ShellReferenceParser, type ShellReferences } from '../parsers/ShellReferenceParser';
+import { TemplateParser } from '../parsers/TemplateParser';
+import { AliasCatalog } from './AliasCatalog';
+import { DeploymentResolver } from './DeploymentResolver';
+import type { RepoSnapshot } from './SnapshotCache';
+import type { DotfilesConfig, Platform } from '../types';
+
+/**
+ * `source` of one deployed file by another
+ */
+export interface SourceEdge {
+  /** Deploy path of the sourcing file */
+  from: string;
+  to: string;
+  line: number;
+  optional: boolean;
+}
+
+/**
+ * A call to a function that some shell source defines
+ */
+export interface FunctionReference {
+  from: string;
+  name: string;
+  line: number;
+  /** Deploy paths of the files that define it with this configuration */
+  definedIn: string[];
+}
+
+export interface ShellGraphResult {
+  /** Deploy paths of every deployed file, shell or not */
+  deployed: Set<string>;
+  sources: SourceEdge[];
+  references: FunctionReference[];
+  /** Deploy paths of the files defining each function */
+  functions: Map<string, string[]>;
+}
+
+/**
+ * References of every shell source, one map per snapshot
+ */
+const parsed = new WeakMap<RepoSnapshot, Promise<Map<string, ShellReferences>>>();
+
+export class ShellGraph {
+  static async build(snapshot: RepoSnapshot, config: DotfilesConfig, platform: Platform): Promise<ShellGraphResult> {
+    const [{ files }, references, catalog, definitions] = await Promise.all([
+      DeploymentResolver.resolveSnapshot(snapshot, config, platform),
+      this.references(snapshot),
+      AliasCatalog.build(snapshot, config, platform),
+      AliasCatalog.definitions(snapshot),
+    ]);
+
+    const data = TemplateParser.templateData(config, platform);
+    const deployPath = (sourcePath: string) => FileMapper.buildFileMapping(sourcePath).deployPath;
+
+    // Any function of the source state may be called, defined here or not
+    const known = new Set(definitions.filter(d => d.kind === 'function').map(d => d.name));
+    const definedIn = new Map<string, string[]>();
+    for (const fn of catalog.functions) {
+      definedIn.set(fn.name, [...(definedIn.get(fn.name) ?? []), deployPath(fn.sourcePath ?? '')]);
+    }
+
+    const sources: SourceEdge[] = [];
+    const calls: FunctionReference[] = [];
+
+    for (const file of files) {
+      const fileReferences = references.get(file.sourcePath);
+      if (!fileReferences) continue;
+
+      for (const source of fileReferences.sources) {
+        if (source.path && Conditions.evaluate(source.condition, platform, data)) {
+          sources.push({ from: file.deployPath, to: source.path, line: source.line, optional: source.optional });
+        }
+      }
+
+      for (const command of fileReferences.commands) {
+        const definers = definedIn.get(command.name) ?? [];
+        if (known.has(command.name) && !definers.includes(file.deployPath) &&
+          Conditions.evaluate(command.condition, platform, data)) {
+          calls.push({ from: file.deployPath, name: command.name, line: command.line, definedIn: definers });
+        }
+      }
+    }
+
+    return {
+      deployed: new Set(files.map(file => file.deployPath)),
+      sources,
+      references: calls,
+      functions: definedIn,
+    };
+  }
+
+  /**
+   * Files and functions the simulated configuration no longer deploys
+   * while a file it still deploys sources or calls them
+   */
+  static async brokenReferences(
+    snapshot: RepoSnapshot,
+    baseConfig: DotfilesConfig,
+    simulatedConfig: DotfilesConfig,
+    platform: Platform
+  ): Promise<string[]> {
+    const [before, after] = await Promise.all([
+      this.build(snapshot, baseConfig, platform),
+      this.build(snapshot, simulatedConfig, platform),
+    ]);
+
+    const warnings = new Set<string>();
+
+    for (const edge of after.sources) {
+      if (!edge.optional && !after.deployed.has(edge.to) && before.deployed.has(edge.to)) {
+        warnings.add(`${edge.from} sources ${edge.to} (line ${edge.line}), which is no longer deployed`);
+      }
+    }
+
+    for (const reference of after.references) {
+      const previously = before.functions.get(reference.name);
+      if (reference.definedIn.length === 0 && previously) {
+        warnings.add(
+          `${reference.from} calls ${reference.name} (line ${reference.line}), which is no longer defined; ` +
+          `it was defined in ${previously.join(', ')}`
+        );
+      }
+    }
+
+    return [...warnings];
+  }
+
+  private static references(snapshot: RepoSnapshot): Promise<Map<string, ShellReferences>> {
+    let references = parsed.get(snapshot);
+
+    if (!references) {
+      references = this.parse(snapshot);
+      parsed.set(snapshot, references);
+      references.catch(() => parsed.delete(snapshot));
+    }
+
+    return references;
+  }
+
+  private static async parse(snapshot: RepoSnapshot): Promise<Map<string, ShellReferences>> {
+    const sources = snapshot.files
+      .map(file => FileMapper.buildFileMapping(file.path))
+      .filter(mapping => AliasCatalog.isShellSource(mapping));
+
+    const entries = await Promise.all(sources.map(async (mapping): Promise<[string, ShellReferences]> => [
+      mapping.sourcePath,
+      ShellReferenceParser.parse(await snapshot.getFile(mapping.sourcePath), mapping.isTemplate),
+    ]));
+
+    return new Map(entries);
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Snapshot Cache
+ * Server-side cache of repository snapshots keyed by commit SHA
+ */
+
+import type { CacheStats, SourceFile } from '../types';
+import type { SourceProvider } from './SourceProvider';
+
+/**
+ * Number of snapshots kept before the least recently used one is dropped
+ */
+const MAX_SNAPSHOTS = 5;
+
+/**
+ * Everything the API routes need from one commit of the dotfiles repository
+ */
+export class RepoSnapshot {
+  readonly sha: string;
+  readonly files: SourceFile[];
+  readonly configContent: string;
+  readonly ignoreContent: string;
+  readonly loadedAt: string;
+  private fileIndex: Map<string, SourceFile>;
+  private readBlob: (file: SourceFile) => Promise<string>;
+
+  constructor(
+    sha: string,
+    files: SourceFile[],
+    configContent: string,
+    ignoreContent: string,
+    readBlob: (file: SourceFile) => Promise<string>
+  ) {
+    this.sha = sha;
+    this.files = files;
+    this.configContent = configContent;
+    this.ignoreContent = ignoreContent;
+    this.loadedAt = new Date().toISOString();
+    this.fileIndex = new Map(files.map(file => [file.path, file]));
+    this.readBlob = readBlob;
+  }
+
+  /**
+   * Check if a path exists in this snapshot
+   */
+  hasFile(path: string): boolean {
+    return this.fileIndex.has(path);
+  }
+
+  /**
+   * Get file content as of this snapshot's commit
+   */
+  async getFile(path: string): Promise<string> {
+    const file = this.fileIndex.get(path);
+
+    if (!file) {
+      throw new Error(`File not found in ${this.sha.slice(0, 7)}: ${path}`);
+    }
+
+    return this.readBlob(file);
+  }
+}
+
+export class SnapshotCache {
+  private snapshots = new Map<string, RepoSnapshot>();
+  private pendingSnapshots = new Map<string, Promise<RepoSnapshot>>();
+  private pendingHeadChecks = new Map<string, Promise<string>>();
+  private blobs = new Map<string, string>();
+  private pendingBlobs = new Map<string, Promise<string>>();
+  private stats = {
+    hits: 0,
+    misses: 0,
+    headChecks: 0,
+    blobHits: 0,
+    blobMisses: 0,
+  };
+
+  /**
+   * Get the snapshot for the source's current head (or ref)
+   * Costs one HEAD check; the full snapshot is only fetched for a new SHA
+   */
+  async get(source: SourceProvider): Promise<RepoSnapshot> {
+    const sha = await this.checkHead(source);
+    return this.getAt(source, sha);
+  }
+
+  /**
+   * Get the snapshot for a known commit SHA, loading it if needed
+   */
+  async getAt(source: SourceProvider, sha: string): Promise<RepoSnapshot> {
+    const cached = this.snapshots.get(sha);
+
+    if (cached) {
+      this.stats.hits++;
+      // Re-insert to mark as most recently used
+      this.snapshots.delete(sha);
+      this.snapshots.set(sha, cached);
+      return cached;
+    }
+
+    const pending = this.pendingSnapshots.get(sha);
+    if (pending) {
+      this.stats.hits++;
+      return pending;
+    }
+
+    this.stats.misses++;
+
+    const load = this.load(source, sha)
+      .then((snapshot) => {
+        this.store(snapshot);
+        return snapshot;
+      })
+      .finally(() => {
+        this.pendingSnapshots.delete(sha);
+      });
+
+    this.pendingSnapshots.set(sha, load);
+    return load;
+  }
+
+  /**
+   * Drop cached snapshots (all of them when no SHA is given), together with
+   * the file contents no remaining snapshot refers to
+   */
+  invalidate(sha?: string): void {
+    if (sha) {
+      this.snapshots.delete(sha);
+    } else {
+      this.snapshots.clear();
+    }
+
+    this.pruneBlobs();
+  }
+
+  /**
+   * Stop sharing a head check that may have started before a push, so the
+   * next request for the source resolves its ref again
+   * Snapshots are keyed by commit SHA and never go stale themselves
+   */
+  invalidateHead(source: SourceProvider): void {
+    this.pendingHeadChecks.delete(source.cacheKey);
+  }
+
+  /**
+   * Hit/miss counters and the snapshots currently held
+   */
+  getStats(): CacheStats {
+    return {
+      ...this.stats,
+      snapshots: Array.from(this.snapshots.values()).map(snapshot => ({
+        sha: snapshot.sha,
+        files: snapshot.files.length,
+        loadedAt: snapshot.loadedAt,
+      })),
+    };
+  }
+
+  /**
+   * Resolve the current head, sharing one request between concurrent callers
+   */
+  private async checkHead(source: SourceProvider): Promise<string> {
+    const key = source.cacheKey;
+    let pending = this.pendingHeadChecks.get(key);
+
+    if (!pending) {
+      this.stats.headChecks++;
+      const check: Promise<string> = source.getLatestCommitSha().finally(() => {
+        // A newer check may have replaced this one after invalidateHead
+        if (this.pendingHeadChecks.get(key) === check) {
+          this.pendingHeadChecks.delete(key);
+        }
+      });
+      this.pendingHeadChecks.set(key, check);
+      pending = check;
+    }
+
+    return pending;
+  }
+
+  /**
+   * Fetch the file list and the chezmoi control files for a commit
+   * The tree is read at the SHA itself rather than at the source's ref,
+   * which may have moved on since the SHA was resolved
+   */
+  private async load(source: SourceProvider, sha: string): Promise<RepoSnapshot> {
+    const commit = source.atCommit(sha);
+    const files = await commit.getAllSourceFiles();
+    const readBlob = (file: SourceFile) => this.readBlob(commit, file);
+
+    const configFile = files.find(file => file.path === '.chezmoi.yaml');
+    if (!configFile) {
+      throw new Error('Repository has no .chezmoi.yaml');
+    }
+
+    const ignoreFile = files.find(file => file.path === '.chezmoiignore');
+    const [configContent, ignoreContent] = await Promise.all([
+      readBlob(configFile),
+      ignoreFile ? readBlob(ignoreFile) : Promise.resolve(''),
+    ]);
+
+    return new RepoSnapshot(sha, files, configContent, ignoreContent, readBlob);
+  }
+
+  /**
+   * Read file content, memoised by blob SHA across all snapshots
+   */
+  private async readBlob(source: SourceProvider, file: SourceFile): Promise<string> {
+    const cached = this.blobs.get(file.sha);
+    if (cached !== undefined) {
+      this.stats.blobHits++;
+      return cached;
+    }
+
+    const pending = this.pendingBlobs.get(file.sha);
+    if (pending) {
+      this.stats.blobHits++;
+      return pending;
+    }
+
+    this.stats.blobMisses++;
+
+    const load = source.getBlob(file)
+      .then((content) => {
+        this.blobs.set(file.sha, content);
+        return content;
+      })
+      .finally(() => {
+        this.pendingBlobs.delete(file.sha);
+      });
+
+    this.pendingBlobs.set(file.sha, load);
+    return load;
+  }
+
+  /**
+   * Add a snapshot, evicting the least recently used one when full
+   * Pruning is cheap next to the tree fetch that precedes every store
+   */
+  private store(snapshot: RepoSnapshot): void {
+    this.snapshots.set(snapshot.sha, snapshot);
+
+    while (this.snapshots.size > MAX_SNAPSHOTS) {
+      const oldest = this.snapshots.keys().next().value as string;
+      this.snapshots.delete(oldest);
+    }
+
+    this.pruneBlobs();
+  }
+
+  /**
+   * Forget file contents that no cached snapshot lists any more
+   * Snapshots still loading may lose a blob they just read; it is fetched
+   * again on the next read
+   */
+  private pruneBlobs(): void {
+    const referenced = new Set<string>();
+
+    for (const snapshot of this.snapshots.values()) {
+      for (const file of snapshot.files) {
+        referenced.add(file.sha);
+      }
+    }
+
+    for (const sha of this.blobs.keys()) {
+      if (!referenced.has(sha)) {
+        this.blobs.delete(sha);
+      }
+    }
+  }
+}
+
+/**
+ * Shared cache instance for all API routes
+ */
+const snapshotCache = new SnapshotCache();
+
+export function getSnapshotCache(): SnapshotCache {
+  return snapshotCache;
+}
@@ -0,0 +1,55 @@
+/**
+ * Source Factory
+ * Creates the source provider for a registered repository
+ */
+
+import { GitHubService } from './GitHubService';
+import { GitLabService } from './GitLabService';
+import { GiteaService } from './GiteaService';
+import { LocalFileService } from './LocalFileService';
+import { getRepoRegistry, RepoDefinition } from './RepoRegistry';
+import type { SourceProvider } from './SourceProvider';
+
+/**
+ * Environment variable read for a token when a repository names none
+ */
+const DEFAULT_TOKEN_ENV = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  gitea: 'GITEA_TOKEN',
+};
+
+/**
+ * Create a provider for a repository definition
+ *
+ * @param ref - Branch, tag or commit to read; defaults to the repository's
+ *              branch (the working copy for a local source without one)
+ */
+export function createSourceProvider(repo: RepoDefinition, ref?: string): SourceProvider {
+  if (repo.provider === 'local') {
+    return new LocalFileService(repo.path!, ref || repo.branch || undefined);
+  }
+
+  const token = process.env[repo.tokenEnv || DEFAULT_TOKEN_ENV[repo.provider]];
+
+  switch (repo.provider) {
+    case 'github':
+      return new GitHubService(repo.owner, repo.repo, ref || repo.branch, token, repo.baseUrl);
+    case 'gitlab':
+      return new GitLabService(`${repo.owner}/${repo.repo}`, ref || repo.branch, token, repo.baseUrl);
+    case 'gitea':
+      return new GiteaService(repo.baseUrl!, repo.owner!, repo.repo!, ref || repo.branch, token);
+    default:
+      throw new Error(`Unknown provider for repository ${repo.id}: ${repo.provider}`);
+  }
+}
+
+/**
+ * Get the source provider for a registered repository
+ *
+ * @param repoId - Registry id; defaults to the first registered repository
+ * @param ref - Branch, tag or commit to read
+ */
+export function getSourceProvider(repoId?: string, ref?: string): SourceProvider {
+  return createSourceProvider(getRepoRegistry().get(repoId), ref);
+}
@@ -0,0 +1,77 @@
+/**
+ * Source Provider
+ * Common interface for reading a chezmoi source directory
+ */
+
+import type { RefsResponse, SourceFile } from '../types';
+
+/**
+ * Check that a branch, tag or commit name is safe to pass on
+ * Rejects names that could be read as command line options
+ */
+export function isValidRef(ref: string): boolean {
+  return /^[\w][\w./@^~{}-]*$/.test(ref) && !ref.includes('..');
+}
+
+/**
+ * Anything the API routes read dotfiles from: a GitHub repository,
+ * a working copy on disk, ...
+ */
+export interface SourceProvider {
+  /** Identifies the repository and ref, e.g. for sharing HEAD checks */
+  readonly cacheKey: string;
+  getFile(path: string): Promise<string>;
+  getBlob(file: SourceFile): Promise<string>;
+  getConfig(): Promise<string>;
+  getModulesDoc(): Promise<string>;
+  getIgnoreFile(): Promise<string>;
+  listFiles(path?: string, recursive?: boolean): Promise<string[]>;
+  getAllSourceFiles(): Promise<SourceFile[]>;
+  getLatestCommitSha(): Promise<string>;
+  listRefs(): Promise<RefsResponse>;
+  /** The same repository read at a fixed commit, whatever its ref does next */
+  atCommit(sha: string): SourceProvider;
+}
+
+/**
+ * Shared implementation of the well-known chezmoi files.
+ * Providers only need to know how to read and list files.
+ */
+export abstract class BaseSourceProvider implements SourceProvider {
+  abstract getFile(path: string): Promise<string>;
+  abstract listFiles(path?: string, recursive?: boolean): Promise<string[]>;
+  abstract getAllSourceFiles(): Promise<SourceFile[]>;
+  abstract getLatestCommitSha(): Promise<string>;
+  abstract listRefs(): Promise<RefsResponse>;
+  abstract atCommit(sha: string): SourceProvider;
+  abstract get cacheKey(): string;
+
+  /**
+   * Get the content of a file from a listing
+   * Providers that can address content by blob SHA override this
+   */
+  async getBlob(file: SourceFile): Promise<string> {
+    return this.getFile(file.path);
+  }
+
+  /**
+   * Get .chezmoi.yaml configuration
+   */
+  async getConfig(): Promise<string> {
+    return this.getFile('.chezmoi.yaml');
+  }
+
+  /**
+   * Get MODULES.md documentation
+   */
+  async getModulesDoc(): Promise<string> {
+    return this.getFile('MODULES.md');
+  }
+
+  /**
+   * Get .chezmoiignore file
+   */
+  async getIgnoreFile(): Promise<string> {
+    return this.getFile('.chezmoiignore');
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Template Renderer
+ * Renders a source file the way `chezmoi cat` would, for a platform and
+ * configuration, loading the files its templates include first
+ */
+
+import { TemplateParser } from '../parsers/TemplateParser';
+import { ChezmoiFunctions } from '../parsers/ChezmoiFunctions';
+import { Parser } from '../parsers/gotemplate/Parser';
+import type { RenderResult } from '../parsers/gotemplate/Evaluator';
+import type { ListNode, OperandNode, PipelineNode, TemplateNode, TemplateTree } from '../parsers/gotemplate/ast';
+import type { DotfilesConfig, Platform } from '../types';
+import type { RepoSnapshot } from './SnapshotCache';
+
+/**
+ * Directory holding templates available to {{ template "name" }}
+ */
+const TEMPLATES_DIR = '.chezmoitemplates/';
+
+/**
+ * How many levels of template → template/include references are followed
+ */
+const MAX_DEPENDENCY_DEPTH = 10;
+
+interface References {
+  templates: Set<string>;
+  includes: Set<string>;
+}
+
+export class TemplateRenderer {
+  /**
+   * Render a template file from a snapshot
+   */
+  static async render(
+    sourcePath: string,
+    snapshot: RepoSnapshot,
+    config: DotfilesConfig,
+    platform: Platform
+  ): Promise<RenderResult> {
+    const content = await snapshot.getFile(sourcePath);
+    const { files, templates } = await this.loadDependencies(content, snapshot);
+    const functions = ChezmoiFunctions.create({ platform, files });
+
+    return TemplateParser.render(content, config, platform, functions, templates);
+  }
+
+  /**
+   * Load the named templates and included files a template refers to,
+   * following references in those templates in turn
+   * Only literal names are known up front; anything computed is left to
+   * render as unknown
+   */
+  private static async loadDependencies(content: string, snapshot: RepoSnapshot) {
+    const files = new Map<string, string>();
+    const templates: Record<string, string> = {};
+    let pending = [content];
+
+    for (let depth = 0; depth < MAX_DEPENDENCY_DEPTH && pending.length > 0; depth++) {
+      const references: References = { templates: new Set(), includes: new Set() };
+      for (const source of pending) {
+        this.collectReferences(source, references);
+      }
+
+      const loads: Promise<string | null>[] = [];
+
+      for (const name of references.templates) {
+        const path = TEMPLATES_DIR + name;
+        if (name in templates || !snapshot.hasFile(path)) continue;
+
+        templates[name] = '';
+        loads.push(snapshot.getFile(path).then((source) => {
+          templates[name] = source;
+          return source;
+        }));
+      }
+
+      for (const path of references.includes) {
+        if (files.has(path) || !snapshot.hasFile(path)) continue;
+
+        files.set(path, '');
+        loads.push(snapshot.getFile(path).then((source) => {
+          files.set(path, source);
+          // Included files are inserted as-is, so they have no references
+          return null;
+        }));
+      }
+
+      pending = (await Promise.all(loads)).filter((source): source is string => source !== null);
+    }
+
+    return { files, templates };
+  }
+
+  /**
+   * Add the literal template names and include paths used in a template
+   */
+  private static collectReferences(source: string, references: References): void {
+    let tree: TemplateTree;
+
+    try {
+      tree = Parser.parse(source);
+    } catch {
+      // Syntax errors are reported when the template is rendered
+      return;
+    }
+
+    const visitPipeline = (pipeline: PipelineNode | null) => {
+      for (const command of pipeline?.commands ?? []) {
+        const [first, second] = command.args;
+        if (first.type === 'identifier' && first.name === 'include' && second?.type === 'string') {
+          references.includes.add(second.value.replace(/^\.\//, ''));
+        }
+        command.args.forEach(visitOperand);
+      }
+    };
+
+    const visitOperand = (operand: OperandNode) => {
+      if (operand.type === 'subpipeline') {
+        visitPipeline(operand.pipeline);
+      }
+    };
+
+    const visitList = (list: ListNode | null) => {
+      list?.nodes.forEach(visitNode);
+    };
+
+    const visitNode = (node: TemplateNode) => {
+      switch (node.type) {
+        case 'action':
+          visitPipeline(node.pipeline);
+          break;
+        case 'if':
+        case 'with':
+        case 'range':
+          visitPipeline(node.pipeline);
+          visitList(node.list);
+          visitList(node.elseList);
+          break;
+        case 'template':
+          references.templates.add(node.name);
+          visitPipeline(node.pipeline);
+          break;
+      }
+    };
+
+    visitList(tree.root);
+    Object.values(tree.defines).forEach(visitList);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Webhook Service
+ * Verifies GitHub webhook deliveries and keeps a small delivery log
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { WebhookDelivery } from '../types';
+
+/**
+ * Number of deliveries kept in the log
+ */
+const MAX_DELIVERIES = 25;
+
+/**
+ * Verify an X-Hub-Signature-256 header against the raw request body
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature || !signature.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`
+  );
+  const received = Buffer.from(signature);
+
+  // timingSafeEqual throws on length mismatch
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export class WebhookLog {
+  private deliveries: WebhookDelivery[] = [];
+
+  /**
+   * Record a delivery, newest first
+   */
+  add(delivery: WebhookDelivery): WebhookDelivery {
+    this.deliveries.unshift(delivery);
+    this.deliveries.length = Math.min(this.deliveries.length, MAX_DELIVERIES);
+    return delivery;
+  }
+
+  /**
+   * Update a delivery after the fact (e.g. when its pre-fetch finishes)
+   */
+  update(id: string, changes: Partial<WebhookDelivery>): void {
+    const delivery = this.deliveries.find(d => d.id === id);
+    if (delivery) {
+      Object.assign(delivery, changes);
+    }
+  }
+
+  list(): WebhookDelivery[] {
+    return [...this.deliveries];
+  }
+}
+
+/**
+ * Shared delivery log
+ */
+const webhookLog = new WebhookLog();
+
+export function getWebhookLog(): WebhookLog {
+  return webhookLog;
+}
@@ -0,0 +1,55 @@
+/**
+ * Client state shared across pages
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { RepoSummary } from './types';
+
+interface RepoState {
+  /** Selected repository id; empty means the registry default */
+  repoId: string;
+  repos: RepoSummary[];
+  setRepoId: (repoId: string) => void;
+  setRepos: (repos: RepoSummary[]) => void;
+}
+
+export const useRepoStore = create<RepoState>()(
+  persist(
+    (set) => ({
+      repoId: '',
+      repos: [],
+      setRepoId: (repoId) => set({ repoId }),
+      setRepos: (repos) => set({ repos }),
+    }),
+    {
+      name: 'dotfiles-visualizer-repo',
+      // Only remember the selection; the list is fetched fresh
+      partialize: (state) => ({ repoId: state.repoId }),
+    }
+  )
+);
+
+/**
+ * The currently selected repository, if the list has been loaded
+ */
+export function useSelectedRepo(): RepoSummary | undefined {
+  return useRepoStore((state) =>
+    state.repos.find(repo => repo.id === state.repoId) ?? state.repos[0]
+  );
+}
+
+interface SimulationState {
+  /** Modules the simulator enables or disables, dependencies included */
+  moduleChanges: Record<string, boolean>;
+  setModuleChanges: (moduleChanges: Record<string, boolean>) => void;
+}
+
+/**
+ * The simulator's module selection, so other pages render with it
+ * Not persisted: a reload starts from the repository's configuration
+ */
+export const useSimulationStore = create<SimulationState>()((set) => ({
+  moduleChanges: {},
+  setModuleChanges: (moduleChanges) => set({ moduleChanges }),
+}));
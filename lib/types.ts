@@ -5,7 +5,7 @@
 
 export type Platform = 'linux' | 'darwin' | 'windows';
 
-export type ModuleCategory = 'core' | 'application' | 'optional';
+export type ModuleCategory = 'core' | 'application' | 'optional' | 'uncategorised';
 
 export type AliasCategory = 'git' | 'shell' | 'chezmoi' | 'navigation' | 'modern-tools';
 
@@ -34,34 +34,26 @@ export interface DotfilesConfig {
   };
 }
 
-export interface ModuleConfiguration {
-  shell: {
-    enabled: boolean;
-    zsh_extras: boolean;
-  };
-  git: {
-    enabled: boolean;
-  };
-  vscode: {
-    enabled: boolean;
-  };
-  powershell: {
-    enabled: boolean;
-  };
-  start_menu: {
-    enabled: boolean;
-  };
-  modern_tools: {
-    enabled: boolean;
-  };
-  smart_search: {
-    enabled: boolean;
-    repo?: string;
-    install_location?: string;
-  };
-  [key: string]: any; // Allow for future modules
+/**
+ * Settings of one module under data.modules; `enabled` is the only setting
+ * every module has
+ */
+export interface ModuleSettings {
+  enabled: boolean;
+  [option: string]: unknown;
 }
 
+/**
+ * data.modules: every module the configuration defines, by ID
+ */
+export type ModuleConfiguration = Record<string, ModuleSettings>;
+
+/**
+ * What is known about a module without looking at its files: built-in
+ * defaults, the repository's metadata file, or generated from the ID
+ */
+export type ModuleMetadata = Omit<ModuleInfo, 'files' | 'aliases' | 'functions'>;
+
 export interface ModuleInfo {
   id: string;
   name: string;
@@ -74,46 +66,341 @@ export interface ModuleInfo {
   dependencies: string[];
   platforms: Platform[];
   startupImpact?: string;
+  /** The module's section of MODULES.md, when it has one */
+  doc?: ModuleDoc;
 }
 
+/**
+ * A block of a markdown document: as much markdown as module docs use
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'table'; header: string[]; rows: string[][] };
+
+/**
+ * What MODULES.md says about a module
+ */
+export interface ModuleDoc {
+  id: string;
+  /** Heading of the module's section */
+  title: string;
+  description?: string;
+  dependencies?: string[];
+  platforms?: Platform[];
+  startupImpact?: string;
+  /** From alias tables */
+  aliases: Alias[];
+  /** From function tables and usage blocks */
+  functions: FunctionInfo[];
+  /** The section below its heading, for rendering */
+  blocks: MarkdownBlock[];
+}
+
+/**
+ * What a source file manages in the target directory
+ * (`file` includes create_ files; `modify` is a modify_ script)
+ */
+export type TargetKind = 'file' | 'dir' | 'symlink' | 'script' | 'modify' | 'remove';
+
+/**
+ * Source state attributes encoded in chezmoi file and directory names
+ */
+export type SourceAttribute =
+  | 'create'
+  | 'encrypted'
+  | 'private'
+  | 'readonly'
+  | 'empty'
+  | 'executable'
+  | 'template'
+  | 'literal'
+  | 'exact'
+  | 'external'
+  | 'once'
+  | 'onchange'
+  | 'before'
+  | 'after';
+
 export interface FileMapping {
   sourcePath: string;
   deployPath: string;
+  targetKind: TargetKind;
+  /** Attributes in the order they appear in the source name */
+  attributes: SourceAttribute[];
   isTemplate: boolean;
   isExecutable: boolean;
   requiredModules: string[];
   platforms: Platform[];
+  /** When it is deployed, from .chezmoiignore and template guards, e.g. `shell.enabled && os != windows` */
+  condition?: string;
   size?: number;
   lastModified?: string;
 }
 
+/**
+ * A file in the dotfiles source repository
+ * `sha` is the git blob SHA, `size` is in bytes
+ */
+export interface SourceFile {
+  path: string;
+  sha: string;
+  size: number;
+}
+
+export type SourceKind = 'github' | 'gitlab' | 'gitea' | 'local';
+
+/**
+ * A registered dotfiles repository, as exposed to the UI
+ * (token references are never sent to the client)
+ */
+export interface RepoSummary {
+  id: string;
+  name: string;
+  provider: SourceKind;
+  defaultBranch: string;
+  webUrl?: string;
+}
+
+export type GitRefType = 'branch' | 'tag' | 'commit';
+
+export interface GitRef {
+  name: string;
+  type: GitRefType;
+  sha: string;
+  message?: string;
+  date?: string;
+}
+
 export interface Alias {
   name: string;
   command: string;
   category: AliasCategory;
   requiresModule?: string;
   description?: string;
+  /** Where it is defined, when extracted from the source state */
+  sourcePath?: string;
+  line?: number;
+  /** When it is defined, e.g. `shell.enabled && modern_tools.enabled` */
+  condition?: string;
 }
 
 export interface FunctionInfo {
   name: string;
   description: string;
   usage: string;
+  /** From the first command of its body */
+  category?: AliasCategory;
   requiresModule?: string;
+  sourcePath?: string;
+  line?: number;
+  condition?: string;
+}
+
+/**
+ * Shells that load aliases; `sh` files are assumed to be sourced by both
+ * bash and zsh
+ */
+export type ShellFamily = 'sh' | 'bash' | 'zsh' | 'powershell';
+
+/**
+ * How an alias expands, layer by layer, in one shell
+ */
+export interface AliasExpansion {
+  name: string;
+  shell: ShellFamily;
+  /** The command after each layer, e.g. `ls -la`, then `exa -la` for `ll` */
+  layers: string[];
+  /** The command that finally runs */
+  expanded: string;
+  /** The expansion came back to another alias of the chain and stopped there */
+  cycle: boolean;
+}
+
+/**
+ * cycle: aliases that expand into each other, so expansion stops at a
+ * command of the chain; conflict: defined more than once with different
+ * commands; shadows-command: replaces a common command with another
+ * program; shadows-function: hides a function of the same name
+ */
+export type AliasIssueKind = 'cycle' | 'conflict' | 'shadows-command' | 'shadows-function';
+
+export interface AliasIssue {
+  kind: AliasIssueKind;
+  name: string;
+  message: string;
+  /** Shells the issue occurs in */
+  shells: ShellFamily[];
+  /** The definitions involved */
+  locations: Array<{ sourcePath: string; line: number }>;
+}
+
+/**
+ * Aliases of one platform and configuration, expanded and checked
+ */
+export interface AliasAnalysis {
+  platform: Platform;
+  /** Aliases that expand through more than one layer */
+  expansions: AliasExpansion[];
+  issues: AliasIssue[];
+}
+
+/**
+ * An environment variable a PowerShell profile sets with `$env:NAME = ...`
+ */
+export interface EnvironmentVariable {
+  name: string;
+  value: string;
+  description?: string;
+  requiresModule?: string;
+  sourcePath: string;
+  line: number;
+  condition: string;
+}
+
+export type ScriptPhase = 'before' | 'during' | 'after';
+
+/**
+ * always: run_ (every apply), once: run_once_ (once per content),
+ * onchange: run_onchange_ (whenever the content changed)
+ */
+export type ScriptFrequency = 'always' | 'once' | 'onchange';
+
+/**
+ * A run_ script, rendered for a platform and configuration
+ */
+export interface ScriptEntry {
+  sourcePath: string;
+  /** Target name without attributes; chezmoi orders scripts by it */
+  name: string;
+  phase: ScriptPhase;
+  frequency: ScriptFrequency;
+  isTemplate: boolean;
+  requiredModules: string[];
+  content: string;
+  markers: RenderMarker[];
+  diagnostics: TemplateDiagnostic[];
 }
 
 export interface SimulationResult {
   filesAdded: FileMapping[];
   filesRemoved: FileMapping[];
+  scriptsAdded: ScriptEntry[];
+  scriptsRemoved: ScriptEntry[];
   aliasesAdded: Alias[];
   aliasesRemoved: Alias[];
+  functionsAdded: FunctionInfo[];
+  functionsRemoved: FunctionInfo[];
   totalFilesBefore: number;
   totalFilesAfter: number;
+  /** Files and functions still referenced after the change removes them */
   warnings?: string[];
 }
 
+/**
+ * A problem found while parsing or evaluating a Go template
+ * Errors are syntax errors; warnings are expressions that could not be evaluated
+ */
+export interface TemplateDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+  expression?: string;
+}
+
+/**
+ * A span of rendered template output that could not be rendered faithfully
+ * (offsets into the output; an empty span marks a skipped block)
+ */
+export interface RenderMarker {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  headChecks: number;
+  blobHits: number;
+  blobMisses: number;
+  snapshots: {
+    sha: string;
+    files: number;
+    loadedAt: string;
+  }[];
+}
+
+export type WebhookDeliveryStatus = 'processed' | 'ignored' | 'rejected';
+
+export interface WebhookDelivery {
+  id: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  message: string;
+  receivedAt: string;
+  repo?: string;
+  ref?: string;
+  sha?: string;
+  prefetch?: 'pending' | 'done' | 'failed';
+}
+
+export interface WebhookLogResponse {
+  deliveries: WebhookDelivery[];
+}
+
+export interface ReposResponse {
+  repos: RepoSummary[];
+  defaultRepo: string;
+}
+
+export interface RefsResponse {
+  defaultRef: string;
+  branches: GitRef[];
+  tags: GitRef[];
+  commits: GitRef[];
+}
+
+export type CompareChangeType = 'added' | 'removed' | 'changed';
+
+export interface CompareEntry {
+  deployPath: string;
+  change: CompareChangeType;
+  base?: FileMapping;
+  head?: FileMapping;
+  causes: string[];
+}
+
+export interface ModuleSettingChange {
+  module: string;
+  setting: string;
+  base: boolean | null;
+  head: boolean | null;
+}
+
+export interface CompareResponse {
+  base: { ref: string; sha: string };
+  head: { ref: string; sha: string };
+  platform: Platform;
+  added: CompareEntry[];
+  removed: CompareEntry[];
+  changed: CompareEntry[];
+  moduleChanges: ModuleSettingChange[];
+  ignoreChanges: {
+    added: string[];
+    removed: string[];
+  };
+  totalFilesBase: number;
+  totalFilesHead: number;
+}
+
 export interface ConfigResponse {
   config: DotfilesConfig;
+  /** Modules of data.modules, in configuration order */
+  modules: ModuleMetadata[];
   lastUpdated: string;
 }
 
@@ -121,31 +408,269 @@ export interface ModulesResponse {
   modules: ModuleInfo[];
 }
 
+/**
+ * Why .chezmoiignore ignores a target
+ */
+export interface IgnoreMatch {
+  /** The pattern as written in .chezmoiignore */
+  pattern: string;
+  /** Line of .chezmoiignore the pattern is on (0 when it cannot be traced) */
+  line: number;
+  /** The path the pattern matched: the target itself or one of its directories */
+  matchedPath: string;
+}
+
+export interface IgnoredFile {
+  sourcePath: string;
+  deployPath: string;
+  match: IgnoreMatch;
+}
+
+/**
+ * What happens to a source file for a platform and configuration
+ * `deployed` and `script` are part of the target state; the rest are left out
+ */
+export type DeploymentOutcome =
+  | 'deployed'
+  | 'script'
+  | 'not-source-state'
+  | 'ignored'
+  | 'platform'
+  | 'modules';
+
+/**
+ * The resolver's decision for one source file, with the reasons for it
+ */
+export interface DeploymentDecision {
+  sourcePath: string;
+  deployPath: string;
+  outcome: DeploymentOutcome;
+  /** Why, in the order the checks ran */
+  reasons: string[];
+  /** The rule responsible when the outcome is `ignored` */
+  ignoreMatch?: IgnoreMatch;
+}
+
 export interface FilesResponse {
   files: FileMapping[];
   totalFiles: number;
   platform: Platform;
+  /** Template problems in .chezmoiignore (unevaluable conditions, syntax errors) */
+  ignoreDiagnostics: TemplateDiagnostic[];
+  /** Files that .chezmoiignore keeps from being deployed, with the rule responsible */
+  ignored: IgnoredFile[];
+  /** What happened to every source file, and why */
+  decisions: DeploymentDecision[];
+}
+
+/**
+ * A condition, formatted, with its value for the explained configuration
+ */
+export interface ConditionValue {
+  condition: string;
+  value: boolean;
+}
+
+/**
+ * One .chezmoiignore pattern tested against a target
+ */
+export interface IgnorePatternTrace {
+  pattern: string;
+  line: number;
+  exclude: boolean;
+  /** Tests of the enclosing {{ if }} blocks; the pattern is active when all hold */
+  conditions: ConditionValue[];
+  active: boolean;
+  /** What it matched: the target or one of its directories; null for no match */
+  matchedPath: string | null;
+}
+
+export type TraceStepKind = 'source-name' | 'source-state' | 'ignore' | 'guard' | 'platform' | 'modules';
+
+export interface TraceStep {
+  kind: TraceStepKind;
+  title: string;
+  /** Whether the file gets past this step */
+  passed: boolean;
+  details: string[];
+}
+
+/**
+ * A change to one boolean module option, e.g. `shell.zsh_extras` → true
+ */
+export interface ModuleToggle {
+  option: string;
+  value: boolean;
+}
+
+/**
+ * Why a source file is or is not deployed, step by step
+ */
+export interface ExplainResponse {
+  sourcePath: string;
+  deployPath: string;
+  platform: Platform;
+  targetKind: TargetKind;
+  attributes: SourceAttribute[];
+  /** When it is deployed (see FileMapping.condition) */
+  condition: string;
+  steps: TraceStep[];
+  ignorePatterns: IgnorePatternTrace[];
+  verdict: DeploymentOutcome;
+  deployed: boolean;
+  reasons: string[];
+  /** Fewest module option changes that flip the verdict; null when none does */
+  flip: ModuleToggle[] | null;
+}
+
+/**
+ * How often a file is deployed, per platform, over every module option combination
+ */
+export interface FileCoverage {
+  sourcePath: string;
+  deployPath: string;
+  condition: string;
+  /** Number of combinations it is deployed in, out of CoverageResponse.combinations */
+  deployed: Record<Platform, number>;
+}
+
+/**
+ * Source files that deploy to the same target in some configuration
+ */
+export interface PathCollision {
+  deployPath: string;
+  sourcePaths: string[];
+  platforms: Platform[];
+  /** Combinations, summed over platforms, in which they collide */
+  combinations: number;
+  /** One configuration where they do */
+  example: Record<string, boolean>;
+}
+
+export interface CoverageResponse {
+  /** Boolean module options, as `module.option` */
+  options: string[];
+  /** Combinations of options per platform (2^options) */
+  combinations: number;
+  /** Distinct resolutions actually computed; the rest came from memoisation */
+  evaluated: number;
+  files: FileCoverage[];
+  neverDeployed: string[];
+  alwaysDeployed: string[];
+  /** Options that never change the deployed files on a platform */
+  noEffect: Record<Platform, string[]>;
+  collisions: PathCollision[];
+}
+
+/**
+ * /api/files and /api/simulate compared for one platform
+ */
+export interface ConsistencyCheck {
+  platform: Platform;
+  /** Files /api/files lists */
+  filesCount: number;
+  /** Files /api/simulate starts from */
+  simulateCount: number;
+  consistent: boolean;
+  problems: string[];
+}
+
+export interface ConsistencyResponse {
+  consistent: boolean;
+  checks: ConsistencyCheck[];
+}
+
+/**
+ * A source file rendered for a platform and configuration
+ * Non-template files are returned as-is; binary files have no content
+ */
+export interface RenderResponse {
+  sourcePath: string;
+  deployPath: string;
+  platform: Platform;
+  isTemplate: boolean;
+  binary: boolean;
+  content: string;
+  markers: RenderMarker[];
+  diagnostics: TemplateDiagnostic[];
+}
+
+export interface ScriptsResponse {
+  platform: Platform;
+  /** Scripts in the order `chezmoi apply` runs them */
+  scripts: ScriptEntry[];
+  /** Scripts that are empty once rendered, which chezmoi does not run */
+  skipped: ScriptEntry[];
 }
 
 export interface AliasesResponse {
   aliases: Alias[];
+  functions: FunctionInfo[];
+  environment: EnvironmentVariable[];
+  /** Aliases plus functions */
   total: number;
+  /** Expansions and issues with the repository's configuration */
+  analysis: AliasAnalysis;
+}
+
+/**
+ * How /api/simulate handles unmet module dependencies
+ * auto: enabling a module enables what it requires, disabling one disables
+ * what requires it; report: change nothing and list every unmet dependency
+ */
+export type DependencyMode = 'auto' | 'report';
+
+/**
+ * A module the simulator enabled or disabled on its own
+ */
+export interface ModuleAutoChange {
+  module: string;
+  enabled: boolean;
+  /** Module that caused the change */
+  cause: string;
+  reason: string;
+}
+
+/**
+ * A dependency that stays unmet after resolution
+ */
+export interface ModuleConflict {
+  module: string;
+  dependency: string;
+  message: string;
+}
+
+export interface DependencyResolution {
+  mode: DependencyMode;
+  /** Requested changes plus automatic ones */
+  moduleChanges: Record<string, boolean>;
+  autoChanges: ModuleAutoChange[];
+  conflicts: ModuleConflict[];
+  /** Each cycle once, as module IDs in dependency order */
+  cycles: string[][];
+  /** Enabled modules not supported on the platform */
+  platformWarnings: string[];
 }
 
 export interface SimulateRequest {
   moduleChanges: Record<string, boolean>;
   platform?: Platform;
+  repo?: string;
+  ref?: string;
+  /** Defaults to auto */
+  dependencyMode?: DependencyMode;
 }
 
-export interface SimulateResponse {
-  filesAdded: FileMapping[];
-  filesRemoved: FileMapping[];
-  aliasesAdded: string[];
-  aliasesRemoved: string[];
-  totalFilesBefore: number;
-  totalFilesAfter: number;
+export interface SimulateResponse extends SimulationResult {
+  /** Alias issues the simulated configuration introduces, and those it fixes */
+  aliasIssuesAdded: AliasIssue[];
+  aliasIssuesResolved: AliasIssue[];
+  /** Expansions with the simulated configuration */
+  aliasExpansions: AliasExpansion[];
   platform: Platform;
+  /** Changes the simulation used, automatic ones included */
   moduleChanges: Record<string, boolean>;
+  dependencies: DependencyResolution;
 }
 
 /**
@@ -157,9 +682,20 @@ export const MODULE_DEPENDENCIES: Record<string, string[]> = {
   start_menu: ['shell'],
 };
 
+/**
+ * Order modules are grouped in
+ */
+export const MODULE_CATEGORIES: ModuleCategory[] = ['core', 'application', 'optional', 'uncategorised'];
+
+/**
+ * Platforms, by their `.chezmoi.os` names
+ */
+export const PLATFORMS: Platform[] = ['linux', 'darwin', 'windows'];
+
 /**
  * Module metadata
- * Static information about each module
+ * Built-in information about known modules; a repository's metadata file
+ * overrides it, and modules missing from both get generated defaults
  */
 export const MODULE_METADATA: Record<string, Partial<ModuleInfo>> = {
   shell: {
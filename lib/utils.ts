@@ -4,6 +4,7 @@
 
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { RepoSummary } from './types';
 
 /**
  * Merge Tailwind classes with clsx
@@ -53,3 +54,88 @@ export function formatRelativeTime(date: Date | string): string {
 export function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
+
+/**
+ * Build a query string from parameters, leaving out empty values
+ */
+export function buildQuery(params: Record<string, string | undefined>): string {
+  const searchParams = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value) {
+      searchParams.set(key, value);
+    }
+  }
+
+  const query = searchParams.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * The `modules` query parameter for a set of module changes; undefined
+ * when there are none
+ */
+export function moduleChangesQuery(moduleChanges: Record<string, boolean>): string | undefined {
+  return Object.keys(moduleChanges).length > 0 ? JSON.stringify(moduleChanges) : undefined;
+}
+
+/**
+ * Parse a `modules` query parameter (module ID → enabled, as JSON); null
+ * when it is not an object of booleans
+ */
+export function parseModuleChanges(value: string | null): Record<string, boolean> | null {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+
+    return Object.values(parsed).every(enabled => typeof enabled === 'boolean')
+      ? parsed as Record<string, boolean>
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Display name of a repository host
+ */
+export function providerLabel(repo: RepoSummary): string {
+  switch (repo.provider) {
+    case 'gitlab':
+      return 'GitLab';
+    case 'gitea':
+      return 'Gitea';
+    case 'local':
+      return 'Local';
+    default:
+      return 'GitHub';
+  }
+}
+
+/**
+ * Link to a source file on the repository's web interface
+ */
+export function sourceFileUrl(repo: RepoSummary, ref: string, filePath: string): string | null {
+  if (!repo.webUrl) {
+    return null;
+  }
+
+  const path = filePath.split('/').map(encodeURIComponent).join('/');
+
+  switch (repo.provider) {
+    case 'gitlab':
+      return `${repo.webUrl}/-/blob/${ref}/${path}`;
+    case 'gitea':
+      // Gitea needs to know whether the ref is a commit or a branch
+      return `${repo.webUrl}/src/${/^[0-9a-f]{40}$/.test(ref) ? 'commit' : 'branch'}/${ref}/${path}`;
+    default:
+      return `${repo.webUrl}/blob/${ref}/${path}`;
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/aliases/route';
+import { buildQuery } from '@/lib/utils';
+import type { AliasesResponse } from '@/lib/types';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+
+const repository = vi.hoisted(() => ({ current: null as MemoryRepository | null }));
+
+vi.mock('@/lib/services/SourceFactory', () => ({
+  getSourceProvider: (repoId?: string, ref?: string) => new MemorySourceProvider(repository.current!, ref || 'main'),
+}));
+
+const CONFIG = `data:
+  modules:
+    shell:
+      enabled: true
+    tools:
+      enabled: false
+`;
+
+const BASHRC = `alias ls=exa
+alias exa='ls --color'
+{{ if .modules.tools.enabled }}
+alias cat=bat
+{{ end }}
+`;
+
+async function aliases(params: Record<string, string | undefined>): Promise<[number, AliasesResponse]> {
+  const response = await GET(new NextRequest(`http://localhost/api/aliases${buildQuery(params)}`));
+  return [response.status, await response.json()];
+}
+
+describe('GET /api/aliases', () => {
+  beforeAll(() => {
+    repository.current = new MemoryRepository();
+    repository.current.commit('main', { '.chezmoi.yaml': CONFIG, 'dot_bashrc.tmpl': BASHRC });
+  });
+
+  it('reports aliases that expand back into the chain as cycles, not loops', async () => {
+    const [status, body] = await aliases({});
+
+    expect(status).toBe(200);
+    expect(body.analysis.issues.filter(issue => issue.kind === 'cycle').map(issue => issue.message)).toEqual([
+      'exa → ls → exa: expansion stops at exa, so exa runs the exa command',
+      'ls → exa → ls: expansion stops at ls, so ls runs the ls command',
+    ]);
+    expect(body.analysis.issues.some(issue => issue.kind === 'shadows-command')).toBe(false);
+  });
+
+  it('analyses the configuration with the module changes applied', async () => {
+    const [status, body] = await aliases({ modules: JSON.stringify({ tools: true }) });
+
+    expect(status).toBe(200);
+    expect(body.analysis.issues).toContainEqual(expect.objectContaining({
+      kind: 'shadows-command',
+      name: 'cat',
+      message: 'cat runs bat instead of the cat command',
+    }));
+  });
+
+  it.each([
+    ['platform', 'macos'],
+    ['modules', '{"tools":"yes"}'],
+  ])('rejects an invalid %s', async (name, value) => {
+    const [status, body] = await aliases({ [name]: value });
+
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ error: `Invalid ${name} parameter` });
+  });
+});
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/consistency/route';
+import type { ConsistencyResponse } from '@/lib/types';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+
+const repository = vi.hoisted(() => ({
+  current: null as MemoryRepository | null,
+  calls: 0,
+  onCall: (() => {}) as (call: number) => void,
+}));
+
+vi.mock('@/lib/services/SourceFactory', () => ({
+  getSourceProvider: (repoId?: string, ref?: string) => {
+    repository.onCall(++repository.calls);
+    return new MemorySourceProvider(repository.current!, ref || 'main');
+  },
+}));
+
+const CONFIG = `data:
+  modules:
+    shell:
+      enabled: true
+`;
+
+describe('GET /api/consistency', () => {
+  it('checks every platform against the commit the ref pointed to first', async () => {
+    repository.current = new MemoryRepository();
+    repository.current.commit('main', { '.chezmoi.yaml': CONFIG, 'dot_zshrc': 'export EDITOR=nvim\n' });
+
+    // Push once the checks have started
+    repository.onCall = call => {
+      if (call === 3) {
+        repository.current!.commit('main', {
+          '.chezmoi.yaml': CONFIG,
+          'dot_zshrc': 'export EDITOR=nvim\n',
+          'dot_vimrc': 'set number\n',
+        });
+      }
+    };
+
+    const response = await GET(new NextRequest('http://localhost/api/consistency'));
+    const body: ConsistencyResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.consistent).toBe(true);
+    expect(body.checks.map(check => [check.filesCount, check.simulateCount])).toEqual(
+      body.checks.map(() => [1, 1])
+    );
+  });
+});
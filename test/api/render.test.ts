@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/render/route';
+import { buildQuery } from '@/lib/utils';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+
+const repository = vi.hoisted(() => ({ current: null as MemoryRepository | null }));
+
+vi.mock('@/lib/services/SourceFactory', () => ({
+  getSourceProvider: (repoId?: string, ref?: string) => new MemorySourceProvider(repository.current!, ref || 'main'),
+}));
+
+const CONFIG = `data:
+  modules:
+    shell:
+      enabled: true
+    vscode:
+      enabled: true
+`;
+
+const ZSHRC = `export PATH="$HOME/bin:$PATH"
+{{- if .modules.vscode.enabled }}
+export EDITOR="code --wait"
+{{- else }}
+export EDITOR=nvim
+{{- end }}
+`;
+
+function render(params: Record<string, string | undefined>) {
+  return GET(new NextRequest(`http://localhost/api/render${buildQuery(params)}`));
+}
+
+describe('GET /api/render', () => {
+  beforeAll(() => {
+    repository.current = new MemoryRepository();
+    repository.current.commit('main', { '.chezmoi.yaml': CONFIG, 'dot_zshrc.tmpl': ZSHRC });
+  });
+
+  it('renders with the repository configuration', async () => {
+    const response = await render({ path: 'dot_zshrc.tmpl' });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).content).toContain('export EDITOR="code --wait"');
+  });
+
+  it('renders with module changes applied', async () => {
+    const response = await render({ path: 'dot_zshrc.tmpl', modules: JSON.stringify({ vscode: false }) });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).content).toContain('export EDITOR=nvim');
+  });
+
+  it('ignores changes to modules the configuration does not have', async () => {
+    const response = await render({ path: 'dot_zshrc.tmpl', modules: '{"__proto__":true,"toString":false}' });
+
+    expect(response.status).toBe(200);
+    expect(({} as Record<string, unknown>).enabled).toBeUndefined();
+    expect((await response.json()).content).toContain('export EDITOR="code --wait"');
+  });
+
+  it.each(['not json', '[true]', '{"vscode":"off"}'])('rejects modules=%s', async (modules) => {
+    const response = await render({ path: 'dot_zshrc.tmpl', modules });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid modules parameter');
+  });
+});
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/scripts/route';
+import { buildQuery } from '@/lib/utils';
+import type { ScriptsResponse } from '@/lib/types';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+
+const repository = vi.hoisted(() => ({ current: null as MemoryRepository | null }));
+
+vi.mock('@/lib/services/SourceFactory', () => ({
+  getSourceProvider: (repoId?: string, ref?: string) => new MemorySourceProvider(repository.current!, ref || 'main'),
+}));
+
+const CONFIG = `data:
+  modules:
+    shell:
+      enabled: true
+    vscode:
+      enabled: false
+`;
+
+const EXTENSIONS = `{{ if .modules.vscode.enabled -}}
+#!/bin/sh
+code --install-extension esbenp.prettier-vscode
+{{ end -}}
+`;
+
+async function scripts(params: Record<string, string | undefined>): Promise<[number, ScriptsResponse]> {
+  const response = await GET(new NextRequest(`http://localhost/api/scripts${buildQuery(params)}`));
+  return [response.status, await response.json()];
+}
+
+describe('GET /api/scripts', () => {
+  beforeAll(() => {
+    repository.current = new MemoryRepository();
+    repository.current.commit('main', {
+      '.chezmoi.yaml': CONFIG,
+      'run_onchange_after_install-extensions.sh.tmpl': EXTENSIONS,
+    });
+  });
+
+  it('leaves out scripts for disabled modules with the repository configuration', async () => {
+    const [status, body] = await scripts({});
+
+    expect(status).toBe(200);
+    expect(body.scripts).toEqual([]);
+  });
+
+  it('lists the scripts a simulated module selection runs', async () => {
+    const [status, body] = await scripts({ modules: JSON.stringify({ vscode: true }) });
+
+    expect(status).toBe(200);
+    expect(body.scripts.map(script => script.sourcePath)).toEqual(['run_onchange_after_install-extensions.sh.tmpl']);
+    expect(body.scripts[0].content).toContain('code --install-extension');
+  });
+
+  it('rejects a modules parameter that is not an object of booleans', async () => {
+    const [status] = await scripts({ modules: '{"vscode":1}' });
+
+    expect(status).toBe(400);
+  });
+});
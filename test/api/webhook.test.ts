@@ -0,0 +1,124 @@
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/webhook/route';
+import { getSnapshotCache } from '@/lib/services/SnapshotCache';
+import { getWebhookLog } from '@/lib/services/WebhookService';
+import type { RepoDefinition } from '@/lib/services/RepoRegistry';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+import { loadDelivery, payloadOf, WEBHOOK_SECRET, type RecordedDelivery } from '../helpers/recordedWebhook';
+
+const repositories = vi.hoisted(() => new Map<string, MemoryRepository>());
+
+vi.mock('@/lib/services/SourceFactory', () => ({
+  createSourceProvider: (repo: RepoDefinition, ref?: string) =>
+    new MemorySourceProvider(repositories.get(repo.id)!, ref || repo.branch),
+}));
+
+const PUSHED_SHA = '5f3c0e2b9a8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b';
+
+function deliver(recorded: RecordedDelivery): Promise<Response> {
+  return POST(new NextRequest('http://localhost/api/webhook', {
+    method: 'POST',
+    headers: recorded.headers,
+    body: payloadOf(recorded),
+  }));
+}
+
+describe('POST /api/webhook', () => {
+  const brecht = new MemoryRepository('dotfiles');
+  const work = new MemoryRepository('work-dotfiles');
+  const before = brecht.commit('main', { '.chezmoi.yaml': 'data:\n  name: before\n' });
+  const workHead = work.commit('main', { '.chezmoi.yaml': 'data:\n  name: work\n' });
+
+  beforeAll(() => {
+    repositories.set('brecht', brecht);
+    repositories.set('work', work);
+    vi.stubEnv('DOTFILES_REGISTRY', path.join(__dirname, '..', 'fixtures', 'webhook', 'registry.json'));
+    vi.stubEnv('DOTFILES_WEBHOOK_SECRET', WEBHOOK_SECRET);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects a delivery with a bad signature', async () => {
+    const response = await deliver(loadDelivery('push-bad-signature'));
+
+    expect(response.status).toBe(401);
+    expect(getWebhookLog().list()[0]).toMatchObject({
+      id: '7d2b6f90-9e8b-11f0-9a5f-3b2c4d5e6f70',
+      status: 'rejected',
+      message: 'Invalid signature',
+    });
+  });
+
+  it('accepts the secret from GITHUB_WEBHOOK_SECRET', async () => {
+    vi.stubEnv('DOTFILES_WEBHOOK_SECRET', '');
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', WEBHOOK_SECRET);
+
+    const response = await deliver(loadDelivery('ping'));
+
+    vi.stubEnv('DOTFILES_WEBHOOK_SECRET', WEBHOOK_SECRET);
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', '');
+    expect(response.status).toBe(200);
+  });
+
+  it('answers a ping', async () => {
+    const response = await deliver(loadDelivery('ping'));
+
+    expect(response.status).toBe(200);
+    expect(getWebhookLog().list()[0]).toMatchObject({ event: 'ping', status: 'processed', message: 'pong' });
+  });
+
+  it('ignores a push to another branch', async () => {
+    const response = await deliver(loadDelivery('push-other-branch'));
+
+    expect(response.status).toBe(202);
+    expect(getWebhookLog().list()[0]).toMatchObject({
+      repo: 'brecht',
+      status: 'ignored',
+      ref: 'refs/heads/work-laptop',
+    });
+  });
+
+  it('ignores a push to an unregistered repository', async () => {
+    const response = await deliver(loadDelivery('push-unknown-repo'));
+
+    expect(response.status).toBe(202);
+    expect(getWebhookLog().list()[0]).toMatchObject({
+      status: 'ignored',
+      message: 'Repository someone-else/dotfiles is not registered',
+    });
+  });
+
+  it('re-checks only the pushed repository and pre-fetches its new head', async () => {
+    const cache = getSnapshotCache();
+    await cache.get(new MemorySourceProvider(work));
+
+    // A head check of the pushed branch is still in flight when the push arrives
+    let finishStaleCheck: (sha: string) => void = () => {};
+    const staleSource = new MemorySourceProvider(brecht);
+    vi.spyOn(staleSource, 'getLatestCommitSha').mockReturnValue(new Promise(resolve => {
+      finishStaleCheck = resolve;
+    }));
+    const staleRequest = cache.get(staleSource);
+
+    brecht.commit('main', { '.chezmoi.yaml': 'data:\n  name: after\n' }, PUSHED_SHA);
+    const response = await deliver(loadDelivery('push'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'processed', sha: PUSHED_SHA, prefetch: 'pending' });
+    await vi.waitFor(() => expect(getWebhookLog().list()[0].prefetch).toBe('done'));
+
+    const snapshot = await cache.get(new MemorySourceProvider(brecht));
+    expect(snapshot.sha).toBe(PUSHED_SHA);
+    expect(snapshot.configContent).toBe('data:\n  name: after\n');
+
+    finishStaleCheck(before);
+    expect((await staleRequest).sha).toBe(before);
+
+    // The other repository's snapshot survived the push
+    expect(cache.getStats().snapshots.map(s => s.sha)).toEqual(expect.arrayContaining([workHead, PUSHED_SHA]));
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Memory Source Provider
+ * A git-like repository held in memory: commits are file maps, branches
+ * point at commits and blob SHAs are computed the way git does
+ */
+
+import { createHash } from 'node:crypto';
+import { BaseSourceProvider } from '@/lib/services/SourceProvider';
+import type { RefsResponse, SourceFile } from '@/lib/types';
+
+export function blobSha(content: string): string {
+  return createHash('sha1')
+    .update(`blob ${Buffer.byteLength(content)}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+export class MemoryRepository {
+  readonly name: string;
+  readonly commits = new Map<string, Record<string, string>>();
+  readonly branches = new Map<string, string>();
+  /** Blob reads, by path, across every provider of the repository */
+  readonly blobReads: string[] = [];
+
+  constructor(name: string = 'dotfiles') {
+    this.name = name;
+  }
+
+  /**
+   * Commit a full file tree on a branch
+   *
+   * @param sha - Commit SHA to use, e.g. one named by a recorded webhook
+   * @returns The new commit SHA
+   */
+  commit(branch: string, files: Record<string, string>, sha?: string): string {
+    sha ??= createHash('sha1')
+      .update(`${this.name}:${branch}:${this.commits.size}:${JSON.stringify(files)}`)
+      .digest('hex');
+    this.commits.set(sha, { ...files });
+    this.branches.set(branch, sha);
+    return sha;
+  }
+
+  resolve(ref: string): string {
+    const sha = this.branches.get(ref) ?? (this.commits.has(ref) ? ref : undefined);
+    if (!sha) {
+      throw new Error(`Unknown ref: ${ref}`);
+    }
+    return sha;
+  }
+}
+
+export class MemorySourceProvider extends BaseSourceProvider {
+  private repository: MemoryRepository;
+  private ref: string;
+
+  constructor(repository: MemoryRepository, ref: string = 'main') {
+    super();
+    this.repository = repository;
+    this.ref = ref;
+  }
+
+  get cacheKey(): string {
+    return `memory:${this.repository.name}@${this.ref}`;
+  }
+
+  atCommit(sha: string): MemorySourceProvider {
+    return new MemorySourceProvider(this.repository, sha);
+  }
+
+  private get tree(): Record<string, string> {
+    return this.repository.commits.get(this.repository.resolve(this.ref))!;
+  }
+
+  async getFile(path: string): Promise<string> {
+    const content = this.tree[path];
+    if (content === undefined) {
+      throw new Error(`Failed to fetch file: ${path}`);
+    }
+    return content;
+  }
+
+  async getBlob(file: SourceFile): Promise<string> {
+    this.repository.blobReads.push(file.path);
+    return this.getFile(file.path);
+  }
+
+  async listFiles(path: string = ''): Promise<string[]> {
+    return Object.keys(this.tree).filter(file => !path || file.startsWith(`${path}/`));
+  }
+
+  async getAllSourceFiles(): Promise<SourceFile[]> {
+    return Object.entries(this.tree).map(([path, content]) => ({
+      path,
+      sha: blobSha(content),
+      size: Buffer.byteLength(content),
+    }));
+  }
+
+  async getLatestCommitSha(): Promise<string> {
+    return this.repository.resolve(this.ref);
+  }
+
+  async listRefs(): Promise<RefsResponse> {
+    return {
+      defaultRef: this.ref,
+      branches: Array.from(this.repository.branches, ([name, sha]) => ({ name, type: 'branch' as const, sha })),
+      tags: [],
+      commits: [],
+    };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Recorded Fetch
+ * Replays recorded HTTP exchanges in place of the global fetch, so the
+ * source providers run their real request code without a network
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { vi } from 'vitest';
+
+export interface RecordedExchange {
+  request: {
+    method?: string;
+    url: string;
+  };
+  response: {
+    status?: number;
+    headers?: Record<string, string>;
+    body: unknown;
+  };
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+}
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'http');
+
+/**
+ * Exchanges recorded in test/fixtures/http/{name}.json
+ */
+export function loadFixture(name: string): RecordedExchange[] {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf-8'));
+}
+
+/**
+ * URLs match regardless of query parameter order
+ */
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+/**
+ * Stubs the global fetch with the given exchanges; a request without a
+ * recording fails the test instead of reaching the network
+ *
+ * @returns The requests made, in order
+ */
+export function replayFetch(...fixtures: RecordedExchange[][]): RecordedRequest[] {
+  const exchanges = fixtures.flat();
+  const requests: RecordedRequest[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    const method = (init?.method ?? 'GET').toUpperCase();
+    requests.push({ method, url, headers: new Headers(init?.headers) });
+
+    const exchange = exchanges.find(candidate =>
+      (candidate.request.method ?? 'GET') === method &&
+      normalizeUrl(candidate.request.url) === normalizeUrl(url)
+    );
+    if (!exchange) {
+      throw new Error(`No recorded response for ${method} ${url}`);
+    }
+
+    const { status = 200, headers = {}, body } = exchange.response;
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json; charset=utf-8', ...headers },
+    });
+  }));
+
+  return requests;
+}
@@ -0,0 +1,28 @@
+/**
+ * Recorded Webhook
+ * GitHub webhook deliveries recorded in test/fixtures/webhook, signed with
+ * WEBHOOK_SECRET over the compact JSON body
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+export const WEBHOOK_SECRET = "It's a Secret to Everybody";
+
+export interface RecordedDelivery {
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'webhook');
+
+export function loadDelivery(name: string): RecordedDelivery {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf-8'));
+}
+
+/**
+ * The raw request body GitHub sent
+ */
+export function payloadOf(delivery: RecordedDelivery): string {
+  return JSON.stringify(delivery.body);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { AliasExtractor } from '@/lib/parsers/AliasExtractor';
+import { Conditions } from '@/lib/parsers/Conditions';
+
+function definitions(content: string, isTemplate: boolean = false) {
+  return AliasExtractor.parse(content, isTemplate).map(({ kind, name, command, description }) =>
+    ({ kind, name, command, ...(description && { description }) })
+  );
+}
+
+describe('AliasExtractor.parse', () => {
+  it.each([
+    ['a quoted alias', "alias ll='ls -l'", [{ name: 'll', command: 'ls -l' }]],
+    ['a double-quoted alias', 'alias gs="git status"', [{ name: 'gs', command: 'git status' }]],
+    ['an unquoted alias', 'alias vim=nvim', [{ name: 'vim', command: 'nvim' }]],
+    ['an alias list', "alias la='ls -a' l=ls g=git", [
+      { name: 'la', command: 'ls -a' },
+      { name: 'l', command: 'ls' },
+      { name: 'g', command: 'git' },
+    ]],
+    ['a zsh option', "alias -g G='| grep'", [{ name: 'G', command: '| grep' }]],
+  ])('reads %s', (_, content, expected) => {
+    expect(definitions(content)).toEqual(expected.map(alias => ({ kind: 'alias', ...alias })));
+  });
+
+  it('takes descriptions from trailing comments and the comment above', () => {
+    expect(definitions("# Short listing\nalias l=ls\nalias ll='ls -l' # Long listing\n")).toEqual([
+      { kind: 'alias', name: 'l', command: 'ls', description: 'Short listing' },
+      { kind: 'alias', name: 'll', command: 'ls -l', description: 'Long listing' },
+    ]);
+  });
+
+  it.each([
+    ['function keyword', 'function mkcd {\n  mkdir -p "$1" && cd "$1"\n}'],
+    ['function keyword with parentheses', 'function mkcd() {\n  mkdir -p "$1" && cd "$1"\n}'],
+    ['POSIX form', 'mkcd() {\n  mkdir -p "$1" && cd "$1"\n}'],
+    ['brace on the next line', 'mkcd()\n{\n  mkdir -p "$1" && cd "$1"\n}'],
+    ['one line', 'mkcd() { mkdir -p "$1" && cd "$1"; }'],
+  ])('reads a function in %s', (_, content) => {
+    const [definition] = definitions(content);
+    expect(definition).toMatchObject({ kind: 'function', name: 'mkcd' });
+    expect(definition.command).toMatch(/^mkdir -p "\$1" && cd "\$1";?$/);
+  });
+
+  it.each([
+    ['double quotes', 'echo "{"'],
+    ['single quotes', "echo '}'"],
+    ['ANSI-C quotes', "echo $'\\'}'"],
+    ['an escaped brace', 'echo \\}'],
+    ['a comment', 'echo # }'],
+  ])('does not count braces in %s', (_, command) => {
+    const content = `git_helper() {\n  ${command}\n}\nalias g=git\n`;
+
+    expect(definitions(content)).toEqual([
+      { kind: 'function', name: 'git_helper', command },
+      { kind: 'alias', name: 'g', command: 'git' },
+    ]);
+  });
+
+  it('reads a function whose quoted string spans lines', () => {
+    const [definition] = definitions('usage() {\n  echo "usage: {\n  }"\n}\n');
+    expect(definition.command).toBe('echo "usage: {\n  }"');
+  });
+
+  it('records the template condition of each definition', () => {
+    const content = [
+      '{{ if .modules.git.enabled }}',
+      'alias g=git',
+      '{{ else if eq .chezmoi.os "windows" }}',
+      'alias g=git.exe',
+      '{{ end }}',
+      'alias l=ls',
+    ].join('\n');
+
+    const parsed = AliasExtractor.parse(content, true);
+
+    expect(parsed.map(({ name, command, line }) => ({ name, command, line }))).toEqual([
+      { name: 'g', command: 'git', line: 2 },
+      { name: 'g', command: 'git.exe', line: 4 },
+      { name: 'l', command: 'ls', line: 6 },
+    ]);
+    const git = Conditions.data('modules.git.enabled');
+    expect(parsed.map(definition => definition.condition)).toEqual([
+      git,
+      Conditions.and(Conditions.not(git), Conditions.os('windows')),
+      Conditions.TRUE,
+    ]);
+  });
+});
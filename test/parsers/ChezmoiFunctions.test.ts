@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { ChezmoiFunctions } from '@/lib/parsers/ChezmoiFunctions';
+
+const functions = ChezmoiFunctions.create({ platform: 'linux', files: new Map() });
+
+describe('ChezmoiFunctions', () => {
+  it.each([
+    ['repeat', [3, 'ab'], 'ababab'],
+    ['repeat', [-1, 'ab'], ''],
+    ['indent', [2, 'a\nb'], '  a\n  b'],
+    ['nindent', [2, 'a'], '\n  a'],
+    ['get', [{ a: 1 }, 'a'], 1],
+    ['get', [{ a: 1 }, 'b'], ''],
+    ['get', [{}, 'constructor'], ''],
+    ['hasKey', [{}, 'toString'], false],
+  ])('%s %j', (name, args, expected) => {
+    expect(functions[name](...args)).toEqual(expected);
+  });
+
+  it.each([
+    ['repeat', [1e9, 'ab']],
+    ['repeat', [Infinity, 'a']],
+    ['indent', [1e9, 'a']],
+    ['nindent', [1000, 'a\n'.repeat(2000)]],
+  ])('refuses a huge %s output', (name, args) => {
+    expect(() => functions[name](...args)).toThrow(/output would exceed/);
+  });
+});
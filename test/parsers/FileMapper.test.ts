@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { FileMapper } from '@/lib/parsers/FileMapper';
+
+describe('FileMapper.parseSourceName', () => {
+  it.each([
+    ['dot_zshrc', '.zshrc', 'file', []],
+    ['dot_gitconfig.tmpl', '.gitconfig', 'file', ['template']],
+    ['private_dot_netrc', '.netrc', 'file', ['private']],
+    ['private_readonly_dot_netrc', '.netrc', 'file', ['private', 'readonly']],
+    ['encrypted_private_readonly_empty_executable_dot_x', '.x', 'file', ['encrypted', 'private', 'readonly', 'empty', 'executable']],
+    ['executable_dot_local_bin', '.local_bin', 'file', ['executable']],
+    // Out of order, so part of the name
+    ['readonly_private_dot_netrc', 'private_dot_netrc', 'file', ['readonly']],
+    ['dot_private_netrc', '.private_netrc', 'file', []],
+    ['create_private_dot_npmrc', '.npmrc', 'file', ['create', 'private']],
+    ['modify_dot_settings.json', '.settings.json', 'modify', []],
+    ['modify_empty_dot_x', 'empty_dot_x', 'modify', []],
+    ['remove_dot_old.tmpl', '.old.tmpl', 'remove', []],
+    ['symlink_dot_vimrc.tmpl', '.vimrc', 'symlink', ['template']],
+    ['symlink_private_dot_x', 'private_dot_x', 'symlink', []],
+  ])('%s', (sourceName, name, kind, attributes) => {
+    expect(FileMapper.parseSourceName(sourceName)).toEqual({ name, kind, attributes });
+  });
+
+  it.each([
+    ['literal_dot_zshrc', 'dot_zshrc', ['literal']],
+    ['private_literal_dot_zshrc', 'dot_zshrc', ['private', 'literal']],
+    ['dot_literal_x', '.literal_x', []],
+    ['dot_gitconfig.tmpl.literal', '.gitconfig.tmpl', []],
+    ['literal_run_x.sh', 'run_x.sh', ['literal']],
+  ])('literal: %s', (sourceName, name, attributes) => {
+    expect(FileMapper.parseSourceName(sourceName)).toEqual({ name, kind: 'file', attributes });
+  });
+
+  it.each([
+    ['encrypted_dot_ssh_config.age', '.ssh_config', ['encrypted']],
+    ['encrypted_dot_netrc.tmpl.asc', '.netrc', ['encrypted', 'template']],
+    ['encrypted_private_dot_key.age', '.key', ['encrypted', 'private']],
+    // Only encrypted files lose the suffix
+    ['dot_key.age', '.key.age', []],
+  ])('encrypted: %s', (sourceName, name, attributes) => {
+    expect(FileMapper.parseSourceName(sourceName)).toEqual({ name, kind: 'file', attributes });
+  });
+
+  it.each([
+    ['run_install.sh', 'install.sh', []],
+    ['run_once_install.sh.tmpl', 'install.sh', ['once', 'template']],
+    ['run_onchange_before_install.sh', 'install.sh', ['onchange', 'before']],
+    ['run_after_dot_x.sh', 'dot_x.sh', ['after']],
+    ['run_before_once_x.sh', 'once_x.sh', ['before']],
+  ])('script: %s', (sourceName, name, attributes) => {
+    expect(FileMapper.parseSourceName(sourceName)).toEqual({ name, kind: 'script', attributes });
+  });
+
+  it.each([
+    ['dot_config', '.config', 'dir', []],
+    ['exact_private_dot_ssh', '.ssh', 'dir', ['exact', 'private']],
+    ['external_dot_oh-my-zsh', '.oh-my-zsh', 'dir', ['external']],
+    ['private_exact_dot_ssh', 'exact_dot_ssh', 'dir', ['private']],
+    ['remove_dot_old', '.old', 'remove', []],
+    ['dot_config.tmpl', '.config.tmpl', 'dir', []],
+  ])('directory: %s', (sourceName, name, kind, attributes) => {
+    expect(FileMapper.parseSourceName(sourceName, true)).toEqual({ name, kind, attributes });
+  });
+});
+
+describe('FileMapper.mapFile', () => {
+  it.each([
+    ['private_dot_config/nvim/init.lua.tmpl', '~/.config/nvim/init.lua'],
+    ['exact_dot_ssh/private_config', '~/.ssh/config'],
+    ['.chezmoiscripts/run_once_install.sh', '~/install.sh'],
+    ['.chezmoiscripts/linux/run_after_x.sh', '~/linux/x.sh'],
+    ['dot_config/.chezmoiscripts/run_x.sh', '~/.config/.chezmoiscripts/x.sh'],
+  ])('%s deploys to %s', (sourcePath, deployPath) => {
+    expect(FileMapper.mapFile(sourcePath).deployPath).toBe(deployPath);
+  });
+
+  it('runs .chezmoiscripts as scripts', () => {
+    expect(FileMapper.mapFile('.chezmoiscripts/run_onchange_x.sh.tmpl')).toMatchObject({
+      targetKind: 'script',
+      attributes: ['onchange', 'template'],
+      isTemplate: true,
+    });
+  });
+});
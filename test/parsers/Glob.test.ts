@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Glob } from '@/lib/parsers/Glob';
+
+describe('Glob.match', () => {
+  it.each([
+    ['*.txt', 'a.txt', true],
+    ['*.txt', 'dir/a.txt', false],
+    ['*/*.txt', 'dir/a.txt', true],
+    ['**', 'a/b/c', true],
+    ['**/*.txt', 'a.txt', true],
+    ['**/*.txt', 'a/b/c.txt', true],
+    ['.config/**', '.config/nvim/init.lua', true],
+    ['.config/**/init.lua', '.config/init.lua', true],
+    ['.config/**/init.lua', '.config/nvim/lua/init.lua', true],
+    ['a**b', 'axxb', true],
+    ['a**b', 'a/b', false],
+    ['?.txt', 'a.txt', true],
+    ['?.txt', '/.txt', false],
+    ['{a,b}.txt', 'b.txt', true],
+    ['{a,b}.txt', 'c.txt', false],
+    ['\\*.txt', '*.txt', true],
+    ['\\*.txt', 'a.txt', false],
+  ])('%s on %s is %s', (pattern, path, expected) => {
+    expect(Glob.match(pattern, path)).toBe(expected);
+  });
+
+  it.each([
+    ['[abc]', 'b', true],
+    ['[abc]', 'd', false],
+    ['[a-z]', 'm', true],
+    ['[a-z]', '-', false],
+    ['[!a-z]', 'M', true],
+    ['[^a-z]', 'm', false],
+    ['[!a]', '/', false],
+    ['[a\\-z]', '-', true],
+    ['[a\\-z]', 'b', false],
+    ['[a\\-z]', 'z', true],
+    ['[-a]', '-', true],
+    ['[a-]', '-', true],
+    ['[]a]', ']', true],
+    ['[a\\]]', ']', true],
+    ['[\\^]', '^', true],
+    ['[\\\\]', '\\', true],
+  ])('class %s on %s is %s', (pattern, path, expected) => {
+    expect(Glob.match(pattern, path)).toBe(expected);
+  });
+
+  it.each([
+    ['[abc', 'unclosed ['],
+    ['{a,b', 'unclosed {'],
+    ['a\\', 'trailing backslash'],
+  ])('rejects %s', (pattern, problem) => {
+    expect(Glob.validate(pattern)).toContain(problem);
+  });
+});
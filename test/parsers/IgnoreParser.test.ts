@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { IgnoreParser } from '@/lib/parsers/IgnoreParser';
+import type { DotfilesConfig } from '@/lib/types';
+
+const CONFIG = {
+  data: {
+    modules: {
+      vscode: { enabled: false },
+    },
+  },
+} as unknown as DotfilesConfig;
+
+const IGNORE = `README.md
+*.txt # notes
+.config/**/cache/
+!.config/keep/**
+{{ if ne .chezmoi.os "darwin" }}
+Library/
+{{ end }}
+{{ if not .modules.vscode.enabled }}
+.vscode/
+{{ end }}
+`;
+
+describe('IgnoreParser.shouldIgnore', () => {
+  it.each([
+    ['a.txt', ['*.txt'], true],
+    // Patterns are anchored, so *.txt only matches top-level names
+    ['dir/a.txt', ['*.txt'], false],
+    ['dir/a.txt', ['**/*.txt'], true],
+    ['dir/a.txt', ['dir'], true],
+    ['dir/a.txt', ['dir/'], true],
+    // A directory-only rule does not match a file
+    ['dir', ['dir/'], false],
+    ['a.txt', ['*.txt', '!a.txt'], false],
+    ['b.txt', ['*.txt', '!a.txt'], true],
+    // Exclusions win whatever the order
+    ['a.txt', ['!a.txt', '*.txt'], false],
+    // An ignored directory hides its contents, exclusions or not
+    ['dir/a.txt', ['dir', '!dir/a.txt'], true],
+    ['dir/a.txt', ['dir/*', '!dir/a.txt'], false],
+    ['a.txt', ['*.txt # comment'], true],
+    ['.config/nvim/init.lua', ['./.config/nvim/'], true],
+  ])('%s with %j is %s', (path, patterns, expected) => {
+    expect(IgnoreParser.shouldIgnore(path, patterns)).toBe(expected);
+  });
+});
+
+describe('IgnoreParser.getIgnoreRules', () => {
+  it('keeps the .chezmoiignore line of each rendered rule', () => {
+    const rules = IgnoreParser.getIgnoreRules(IGNORE, CONFIG, 'linux');
+
+    expect(rules.map(({ pattern, line }) => ({ pattern, line }))).toEqual([
+      { pattern: 'README.md', line: 1 },
+      { pattern: '*.txt', line: 2 },
+      { pattern: '.config/**/cache/', line: 3 },
+      { pattern: '!.config/keep/**', line: 4 },
+      { pattern: 'Library/', line: 6 },
+      { pattern: '.vscode/', line: 9 },
+    ]);
+  });
+
+  it('attributes a match to its rule and the directory it matched', () => {
+    const rules = IgnoreParser.getIgnoreRules(IGNORE, CONFIG, 'darwin');
+
+    expect(IgnoreParser.explain('.config/nvim/cache/x', rules)).toEqual({
+      pattern: '.config/**/cache/',
+      line: 3,
+      matchedPath: '.config/nvim/cache',
+    });
+    expect(IgnoreParser.explain('.config/keep/cache/x', rules)).toBeNull();
+    expect(IgnoreParser.explain('Library/Preferences/x.plist', rules)).toBeNull();
+    expect(IgnoreParser.explain('.vscode/settings.json', rules)).toMatchObject({ line: 9 });
+  });
+});
+
+describe('IgnoreParser.parseRule', () => {
+  it.each([
+    ['# comment', null],
+    ['   ', null],
+    ['!dir/', { exclude: true, directoryOnly: true, glob: 'dir' }],
+    ['/', null],
+    ['a.txt', { exclude: false, directoryOnly: false, glob: 'a.txt' }],
+  ])('%j', (text, expected) => {
+    const rule = IgnoreParser.parseRule(text);
+    expect(rule).toEqual(expected === null ? null : expect.objectContaining(expected));
+  });
+});
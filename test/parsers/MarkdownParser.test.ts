@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownParser, type DocumentedModule } from '@/lib/parsers/MarkdownParser';
+
+const MODULES: DocumentedModule[] = [
+  { id: 'shell', name: 'Shell Environment' },
+  { id: 'git', name: 'Git' },
+  { id: 'smart_search', name: 'Smart Search' },
+  { id: 'vscode', name: 'VS Code' },
+];
+
+const MODULES_MD = `# Modules
+
+Intro text that belongs to no module.
+
+## Shell Environment
+
+Zsh with sensible defaults.
+
+**Dependencies:** none
+**Platforms:** Linux, macOS
+**Startup impact:** ~20ms
+
+### Aliases
+
+| Alias | Command | Description |
+|-------|---------|-------------|
+| \`ll\` | \`ls -la\` | Long listing |
+| \`gs\` | \`git status\` | |
+| \`grep\` | \`rg\` | Pipe \\| safe |
+
+### Functions
+
+- \`mkcd <dir>\` - Create a directory and enter it
+- \`extract()\`: Unpack any archive
+
+#### \`backup\`
+
+Copy a file next to itself.
+
+\`\`\`bash
+backup ~/.zshrc
+\`\`\`
+
+## Git (\`git\`)
+
+Requires: \`modules.shell.enabled\` and Smart Search
+Platforms: all
+
+| Function | Usage | Description |
+|----------|-------|-------------|
+| \`gclone()\` | \`gclone owner/repo\` | Clone and cd |
+
+## Smart search module
+
+### Usage
+
+\`\`\`sh
+# Find files by name
+$ ff pattern
+fcd
+\`\`\`
+
+## Unknown
+
+Not a module.
+
+## shell
+
+A second section for a module is ignored.
+`;
+
+function docs() {
+  return Object.fromEntries(MarkdownParser.parseModules(MODULES_MD, MODULES).map(doc => [doc.id, doc]));
+}
+
+describe('MarkdownParser.parseModules', () => {
+  it('finds module sections by name, ID or code span, once each', () => {
+    const sections = MarkdownParser.parseModules(MODULES_MD, MODULES);
+
+    expect(sections.map(({ id, title }) => ({ id, title }))).toEqual([
+      { id: 'shell', title: 'Shell Environment' },
+      { id: 'git', title: 'Git (git)' },
+      { id: 'smart_search', title: 'Smart search module' },
+    ]);
+  });
+
+  it('reads the description and fields', () => {
+    const { shell, git } = docs();
+
+    expect(shell).toMatchObject({
+      description: 'Zsh with sensible defaults.',
+      dependencies: [],
+      platforms: ['linux', 'darwin'],
+      startupImpact: '~20ms',
+    });
+    expect(git).toMatchObject({ dependencies: ['shell', 'smart_search'], platforms: ['linux', 'darwin', 'windows'] });
+    expect(git.description).toBeUndefined();
+  });
+
+  it('reads alias tables', () => {
+    expect(docs().shell.aliases).toEqual([
+      { name: 'll', command: 'ls -la', category: 'shell', requiresModule: 'shell', description: 'Long listing' },
+      { name: 'gs', command: 'git status', category: 'git', requiresModule: 'shell', description: undefined },
+      { name: 'grep', command: 'rg', category: 'modern-tools', requiresModule: 'shell', description: 'Pipe | safe' },
+    ]);
+  });
+
+  it.each([
+    ['function lists and subheadings', 'shell', [
+      { name: 'mkcd', usage: 'mkcd <dir>', description: 'Create a directory and enter it' },
+      { name: 'extract', usage: 'extract', description: 'Unpack any archive' },
+      { name: 'backup', usage: 'backup ~/.zshrc', description: 'Copy a file next to itself.' },
+    ]],
+    ['function tables', 'git', [
+      { name: 'gclone', usage: 'gclone owner/repo', description: 'Clone and cd' },
+    ]],
+    ['usage blocks', 'smart_search', [
+      { name: 'ff', usage: 'ff pattern', description: 'Find files by name' },
+      { name: 'fcd', usage: 'fcd', description: '' },
+    ]],
+  ])('reads %s', (_, id, expected) => {
+    expect(docs()[id].functions).toEqual(expected.map(fn => ({ ...fn, requiresModule: id })));
+  });
+
+  it('keeps the blocks of a section for rendering', () => {
+    const { git } = docs();
+
+    expect(git.blocks.map(block => block.type)).toEqual(['paragraph', 'table']);
+  });
+});
+
+describe('MarkdownParser.blocks', () => {
+  it('splits headings, paragraphs, lists, code and tables', () => {
+    const content = '# Title\nline one\nline two\n\n- a\n  continued\n- b\n\n~~~js\nx |\n~~~\n| a | b |\n| --- | --- |\n| 1 | 2 |\n';
+
+    expect(MarkdownParser.blocks(content)).toEqual([
+      { type: 'heading', level: 1, text: 'Title' },
+      { type: 'paragraph', text: 'line one\nline two' },
+      { type: 'list', items: ['a continued', 'b'] },
+      { type: 'code', language: 'js', text: 'x |' },
+      { type: 'table', header: ['a', 'b'], rows: [['1', '2']] },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { PowerShellParser } from '@/lib/parsers/PowerShellParser';
+import { Conditions } from '@/lib/parsers/Conditions';
+
+function parse(content: string, isTemplate: boolean = false) {
+  return PowerShellParser.parse(content, isTemplate).map(({ kind, name, command, description, usage }) =>
+    ({ kind, name, command, ...(description && { description }), ...(usage && { usage }) })
+  );
+}
+
+describe('PowerShellParser.parse', () => {
+  it.each([
+    ['Set-Alias ll Get-ChildItem', { name: 'll', command: 'Get-ChildItem' }],
+    ['set-alias g git', { name: 'g', command: 'git' }],
+    ['New-Alias -Name vim -Value nvim', { name: 'vim', command: 'nvim' }],
+    ['Set-Alias -Value nvim -Name vi -Force', { name: 'vi', command: 'nvim' }],
+    ['sal -Name:which -Value:Get-Command', { name: 'which', command: 'Get-Command' }],
+    ["Set-Alias cat 'bat.exe' # Pretty cat", { name: 'cat', command: 'bat.exe' }],
+    ["Set-Alias -Name ls -Value eza -Description 'Modern ls'", { name: 'ls', command: 'eza', description: 'Modern ls' }],
+  ])('reads %s', (content, expected) => {
+    expect(parse(content)).toEqual([{ kind: 'alias', ...expected }]);
+  });
+
+  it('skips an alias without a value', () => {
+    expect(parse('Set-Alias -Name ll')).toEqual([]);
+  });
+
+  it.each([
+    ['function gs { git status }', 'gs', 'git status', 'gs'],
+    ['function Get-Weather($City) {\n  curl "wttr.in/$City"\n}', 'Get-Weather', 'curl "wttr.in/$City"', 'Get-Weather -City'],
+    ['function global:mkcd {\n  param($Path)\n  New-Item $Path -ItemType Directory\n}', 'mkcd',
+      'param($Path)\n  New-Item $Path -ItemType Directory', 'mkcd -Path'],
+    ['filter Only-Files\n{\n  if (-not $_.PSIsContainer) { $_ }\n}', 'Only-Files', 'if (-not $_.PSIsContainer) { $_ }', 'Only-Files'],
+  ])('reads %s', (content, name, command, usage) => {
+    expect(parse(content)).toEqual([{ kind: 'function', name, command, usage }]);
+  });
+
+  it('takes descriptions and usage from comment-based help', () => {
+    const content = [
+      '<#',
+      '.SYNOPSIS',
+      'Go to a project',
+      '.EXAMPLE',
+      'PS> proj dotfiles',
+      '#>',
+      'function proj($Name) { Set-Location "~/src/$Name" }',
+      '# Reload the profile',
+      'function reload { . $PROFILE }',
+    ].join('\n');
+
+    expect(parse(content)).toEqual([
+      { kind: 'function', name: 'proj', command: 'Set-Location "~/src/$Name"', description: 'Go to a project', usage: 'proj dotfiles' },
+      { kind: 'function', name: 'reload', command: '. $PROFILE', description: 'Reload the profile', usage: 'reload' },
+    ]);
+  });
+
+  it.each([
+    ['$env:EDITOR = "nvim"', 'EDITOR', 'nvim'],
+    ["$env:PAGER='less'", 'PAGER', 'less'],
+    ['$ENV:Path = "$HOME\\bin;$env:Path";', 'Path', '$HOME\\bin;$env:Path'],
+    ['$env:DOTNET_CLI_TELEMETRY_OPTOUT = 1', 'DOTNET_CLI_TELEMETRY_OPTOUT', '1'],
+  ])('reads %s', (content, name, command) => {
+    expect(parse(content)).toEqual([{ kind: 'variable', name, command }]);
+  });
+
+  it('records the template condition of each definition', () => {
+    const content = [
+      '{{ if .modules.git.enabled }}',
+      'Set-Alias g git',
+      '{{ end }}',
+      '$env:EDITOR = "nvim"',
+    ].join('\n');
+
+    expect(PowerShellParser.parse(content, true).map(({ name, line, condition }) => ({ name, line, condition }))).toEqual([
+      { name: 'g', line: 2, condition: Conditions.data('modules.git.enabled') },
+      { name: 'EDITOR', line: 4, condition: Conditions.TRUE },
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateParser } from '@/lib/parsers/TemplateParser';
+import { YAMLParser } from '@/lib/parsers/YAMLParser';
+
+const CONFIG = YAMLParser.parse(`data:
+  modules:
+    shell:
+      enabled: false
+      theme: dark
+    vscode:
+    tmux: true
+`);
+
+describe('TemplateParser.applyModuleChanges', () => {
+  it('sets enabled and keeps the other settings', () => {
+    const config = TemplateParser.applyModuleChanges(CONFIG, { shell: true });
+
+    expect(config.data.modules.shell).toEqual({ enabled: true, theme: 'dark' });
+    expect(CONFIG.data.modules.shell.enabled).toBe(false);
+  });
+
+  it.each([
+    ['no settings', 'vscode'],
+    ['a scalar value', 'tmux'],
+  ])('replaces a module with %s', (_, id) => {
+    const config = TemplateParser.applyModuleChanges(CONFIG, { [id]: false });
+
+    expect(config.data.modules[id]).toEqual({ enabled: false });
+  });
+
+  it('ignores modules the configuration does not have', () => {
+    const config = TemplateParser.applyModuleChanges(CONFIG, { git: true, constructor: true });
+
+    expect(Object.keys(config.data.modules)).toEqual(['shell', 'vscode', 'tmux']);
+  });
+});
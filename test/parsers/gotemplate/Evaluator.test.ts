@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Evaluator, partial } from '@/lib/parsers/gotemplate/Evaluator';
+import { Parser } from '@/lib/parsers/gotemplate/Parser';
+
+const DATA = {
+  name: 'Brecht',
+  count: 3,
+  list: ['a', 'b'],
+  empty: [],
+  modules: {
+    shell: { enabled: true, plugins: ['git'] },
+    vscode: { enabled: false },
+  },
+  chezmoi: partial({ os: 'linux' }),
+};
+
+function render(source: string, data: unknown = DATA) {
+  return new Evaluator(data).render(Parser.parse(source));
+}
+
+function output(source: string): string {
+  return render(source).output;
+}
+
+describe('Evaluator', () => {
+  it.each([
+    ['{{ if .modules.shell.enabled }}yes{{ end }}', 'yes'],
+    ['{{ if .modules.vscode.enabled }}yes{{ else }}no{{ end }}', 'no'],
+    ['{{ if .modules.vscode.enabled }}a{{ else if eq .chezmoi.os "linux" }}b{{ else }}c{{ end }}', 'b'],
+    ['{{ if .empty }}a{{ else if .list }}b{{ end }}', 'b'],
+    ['{{ with .modules.shell }}{{ .plugins }}{{ end }}', '[git]'],
+    ['{{ with .modules.vscode.enabled }}a{{ else }}b{{ end }}', 'b'],
+    ['{{ range $i, $v := .list }}{{ $i }}={{ $v }} {{ end }}', '0=a 1=b '],
+    ['{{ range .empty }}x{{ else }}none{{ end }}', 'none'],
+    ['{{ range .modules }}{{ .enabled }} {{ end }}', 'true false '],
+    ['{{ range .list }}{{ if eq . "b" }}{{ break }}{{ end }}{{ . }}{{ end }}', 'a'],
+    ['{{ $n := 1 }}{{ range .list }}{{ $n = 2 }}{{ end }}{{ $n }}', '2'],
+  ])('blocks: %s', (source, expected) => {
+    expect(output(source)).toBe(expected);
+  });
+
+  it.each([
+    ['{{ .name | printf "%s!" }}', 'Brecht!'],
+    ['{{ .list | len }}', '2'],
+    ['{{ index .list 1 | printf "%q" }}', '"b"'],
+    ['{{ (index .modules "shell").enabled }}', 'true'],
+    ['{{ and .name .count }}', '3'],
+    ['{{ or .empty .name }}', 'Brecht'],
+    ['{{ not .modules.vscode.enabled }}', 'true'],
+  ])('pipelines: %s', (source, expected) => {
+    expect(output(source)).toBe(expected);
+  });
+
+  it.each([
+    ['{{ eq .count 3 }}', 'true'],
+    ['{{ eq .name "x" "Brecht" }}', 'true'],
+    ['{{ ne .name "Brecht" }}', 'false'],
+    ['{{ lt .count 4 }}', 'true'],
+    ['{{ ge .count 4 }}', 'false'],
+    ['{{ gt "b" "a" }}', 'true'],
+    ['{{ eq .missing nil }}', 'true'],
+  ])('comparisons: %s', (source, expected) => {
+    expect(output(source)).toBe(expected);
+  });
+
+  it('reports comparisons of incompatible types where they are', () => {
+    const result = render('ok\n  {{ lt .count "4" }}');
+
+    expect(result.output).toBe('ok\n  {{ lt .count "4" }}');
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      message: 'error calling lt: incompatible types for comparison',
+      line: 2,
+      column: 6,
+    })]);
+  });
+
+  it('reports unknown .chezmoi facts and treats them as false', () => {
+    const result = render('{{ if eq .chezmoi.hostname "work" }}work{{ else }}home{{ end }}');
+
+    expect(result.output).toBe('home');
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      message: '.chezmoi.hostname is not known in the simulation',
+      expression: '.chezmoi.hostname',
+    })]);
+  });
+
+  it('reports missing map keys and gives them no value', () => {
+    const result = render('{{ if .modules.nonexist.enabled }}on{{ else }}off{{ end }}\n{{ .nickname }}');
+
+    expect(result.output).toBe('off\n<no value>');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ message: 'map has no entry for key "nonexist"', expression: '.modules.nonexist', line: 1 }),
+      expect.objectContaining({ message: 'map has no entry for key "nickname"', expression: '.nickname', line: 2 }),
+    ]);
+  });
+
+  it('does not report keys that are there with a false value', () => {
+    expect(render('{{ if .modules.vscode.enabled }}on{{ end }}').diagnostics).toEqual([]);
+  });
+
+  it('reports functions it does not support', () => {
+    const result = render('{{ output "hostname" }}');
+
+    expect(result.markers).toEqual([expect.objectContaining({ message: 'function "output" is not supported' })]);
+  });
+});
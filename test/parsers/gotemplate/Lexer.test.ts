@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Lexer, TemplateSyntaxError } from '@/lib/parsers/gotemplate/Lexer';
+
+function texts(source: string): string[] {
+  return Lexer.tokenize(source).filter(token => token.type === 'text').map(token => token.value);
+}
+
+function types(expression: string): string[] {
+  return Lexer.tokenizeExpression(expression).map(token => token.type);
+}
+
+describe('Lexer.tokenize', () => {
+  it.each([
+    ['no markers', 'a \n{{ .x }}\n b', ['a \n', '\n b']],
+    ['a left marker', 'a \n{{- .x }}\n b', ['a', '\n b']],
+    ['a right marker', 'a \n{{ .x -}}\n b', ['a \n', 'b']],
+    ['both markers', 'a \n{{- .x -}}\n b', ['a', 'b']],
+    ['a comment with markers', 'a \n{{- /* note */ -}}\n b', ['a', 'b']],
+    ['a comment without markers', 'a {{/* note */}} b', ['a ', ' b']],
+    ['a dash that is not a marker', 'a {{-3}} b', ['a ', ' b']],
+  ])('trims text around %s', (_, source, expected) => {
+    expect(texts(source)).toEqual(expected);
+  });
+
+  it('reads a negative number after {{ without a space as a number', () => {
+    expect(Lexer.tokenize('{{-3}}').map(token => token.type)).toEqual(['leftDelim', 'number', 'rightDelim', 'eof']);
+  });
+
+  it.each([
+    ['an unclosed action', 'a {{ .x', 'unclosed action'],
+    ['an unclosed comment', 'a\n  {{/* note }}', 'unclosed comment'],
+    ['an unterminated string', '{{ "abc }}', 'unterminated quoted string'],
+  ])('reports %s with its position', (_, source, reason) => {
+    let error: unknown;
+    try {
+      Lexer.tokenize(source);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(TemplateSyntaxError);
+    expect((error as TemplateSyntaxError).reason).toContain(reason);
+  });
+
+  it('reports the line and column of an error', () => {
+    expect(() => Lexer.tokenize('line 1\n  {{/* note }}')).toThrow(
+      expect.objectContaining({ pos: expect.objectContaining({ line: 2, column: 3 }) })
+    );
+  });
+});
+
+describe('Lexer.tokenizeExpression', () => {
+  it.each([
+    ['.a.b', ['field', 'eof']],
+    ['$x := .a', ['variable', 'declare', 'field', 'eof']],
+    ['$x = 1', ['variable', 'assign', 'number', 'eof']],
+    ['.a | default "b"', ['field', 'pipe', 'identifier', 'string', 'eof']],
+    ['eq (len .a) 2', ['identifier', 'leftParen', 'identifier', 'field', 'rightParen', 'number', 'eof']],
+    ['true nil .', ['bool', 'nil', 'dot', 'eof']],
+    ['range $i, $v := .', ['keyword', 'variable', 'comma', 'variable', 'declare', 'dot', 'eof']],
+  ])('%s', (expression, expected) => {
+    expect(types(expression)).toEqual(expected);
+  });
+
+  it('splits field chains into their names', () => {
+    const [field, variable] = Lexer.tokenizeExpression('.modules.shell.enabled $x.y');
+    expect(field.path).toEqual(['modules', 'shell', 'enabled']);
+    expect(variable).toMatchObject({ value: '$x', path: ['y'] });
+  });
+
+  it('decodes strings', () => {
+    const [double, raw] = Lexer.tokenizeExpression('"a\\tb" `c\\td`');
+    expect(double.value).toBe('a\tb');
+    expect(raw.value).toBe('c\\td');
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Parser } from '@/lib/parsers/gotemplate/Parser';
+import type { BranchNode, ListNode, OperandNode, PipelineNode } from '@/lib/parsers/gotemplate/ast';
+
+/**
+ * Shape of a list: text as is, actions and blocks by their pipeline
+ */
+function outline(list: ListNode | null): unknown[] | null {
+  if (!list) return null;
+
+  return list.nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'action':
+        return { action: node.pipeline.source };
+      case 'if':
+      case 'with':
+      case 'range':
+        return { [node.type]: node.pipeline.source, list: outline(node.list), else: outline(node.elseList) };
+      case 'template':
+        return { template: node.name };
+      default:
+        return node.type;
+    }
+  });
+}
+
+function operand(node: OperandNode): unknown {
+  switch (node.type) {
+    case 'field':
+      return `.${node.path.join('.')}`;
+    case 'identifier':
+      return node.name;
+    case 'string':
+    case 'number':
+    case 'bool':
+      return node.value;
+    case 'subpipeline':
+      return commands(node.pipeline);
+    default:
+      return node.type;
+  }
+}
+
+function commands(pipeline: PipelineNode): unknown[][] {
+  return pipeline.commands.map(command => command.args.map(operand));
+}
+
+describe('Parser.parse', () => {
+  it('parses if, else if and else', () => {
+    const tree = Parser.parse('{{ if .a }}A{{ else if .b }}B{{ else }}C{{ end }}');
+
+    expect(outline(tree.root)).toEqual([
+      { if: '.a', list: ['A'], else: [{ if: '.b', list: ['B'], else: ['C'] }] },
+    ]);
+  });
+
+  it('parses with and range, with their else branches', () => {
+    const tree = Parser.parse('{{ with .a }}{{ . }}{{ else }}none{{ end }}{{ range $i, $v := .l }}{{ $v }}{{ end }}');
+
+    expect(outline(tree.root)).toEqual([
+      { with: '.a', list: [{ action: '.' }], else: ['none'] },
+      { range: '$i, $v := .l', list: [{ action: '$v' }], else: null },
+    ]);
+
+    const range = tree.root.nodes[1] as BranchNode;
+    expect(range.pipeline.declarations).toEqual(['$i', '$v']);
+  });
+
+  it('parses pipelines and parenthesised arguments', () => {
+    const [node] = Parser.parse('{{ .name | default "x" | quote }}').root.nodes;
+    expect(node.type === 'action' && commands(node.pipeline)).toEqual([['.name'], ['default', 'x'], ['quote']]);
+
+    const pipeline = Parser.parseExpression('and (eq .chezmoi.os "linux") (not .modules.x.enabled)');
+    expect(commands(pipeline)).toEqual([[
+      'and',
+      [['eq', '.chezmoi.os', 'linux']],
+      [['not', '.modules.x.enabled']],
+    ]]);
+  });
+
+  it('collects define blocks apart from the body', () => {
+    const tree = Parser.parse('{{ define "greet" }}hi{{ end }}{{ template "greet" . }}');
+
+    expect(outline(tree.root)).toEqual([{ template: 'greet' }]);
+    expect(outline(tree.defines.greet)).toEqual(['hi']);
+  });
+
+  it.each([
+    ['a missing end', 'a\n{{ if .a }}b', 'unexpected end of input', 2],
+    ['a stray end', 'a\nb {{ end }}', 'unexpected {{end}}', 2],
+    ['an else outside a block', '{{ else }}', 'unexpected {{else}}', 1],
+    ['an empty if', '\n\n{{ if }}{{ end }}', 'missing value', 3],
+    ['an unclosed parenthesis', '{{ (eq .a 1 }}', 'unexpected "}}" in parenthesized pipeline', 1],
+  ])('reports %s with its line', (_, source, reason, line) => {
+    expect(() => Parser.parse(source)).toThrow(expect.objectContaining({
+      reason: expect.stringContaining(reason),
+      pos: expect.objectContaining({ line }),
+    }));
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { CompareService } from '@/lib/services/CompareService';
+import { SnapshotCache } from '@/lib/services/SnapshotCache';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+
+function config(name: string): string {
+  return `data:
+  gitUser:
+    name: "${name}"
+    email: "brecht@example.com"
+  modules:
+    git:
+      enabled: true
+`;
+}
+
+const GITCONFIG = `[user]
+    name = {{ .gitUser.name }}
+    email = {{ .gitUser.email }}
+`;
+
+const ZSHRC = 'export EDITOR=nvim\n';
+
+/**
+ * Load two commits of a repository as base and head snapshots
+ */
+async function compareCommits(baseFiles: Record<string, string>, headFiles: Record<string, string>) {
+  const repository = new MemoryRepository();
+  const source = new MemorySourceProvider(repository);
+  const cache = new SnapshotCache();
+  const baseSha = repository.commit('main', baseFiles);
+  const headSha = repository.commit('main', headFiles);
+
+  return CompareService.compare(
+    baseSha,
+    await cache.getAt(source, baseSha),
+    headSha,
+    await cache.getAt(source, headSha),
+    'linux'
+  );
+}
+
+describe('CompareService.compare', () => {
+  it('reports a template whose output changes with the configuration data only', async () => {
+    const result = await compareCommits(
+      { '.chezmoi.yaml': config('Brecht'), 'dot_gitconfig.tmpl': GITCONFIG, 'dot_zshrc': ZSHRC },
+      { '.chezmoi.yaml': config('Brecht Parmentier'), 'dot_gitconfig.tmpl': GITCONFIG, 'dot_zshrc': ZSHRC }
+    );
+
+    expect(result.changed).toHaveLength(1);
+    expect(result.changed[0]).toMatchObject({
+      deployPath: '~/.gitconfig',
+      change: 'changed',
+      causes: ['Template data in .chezmoi.yaml changed'],
+    });
+  });
+
+  it('ignores a template edit that renders the same output', async () => {
+    const reformatted = GITCONFIG.replace('{{ .gitUser.name }}', '{{ .gitUser.name }}{{/* from .chezmoi.yaml */}}');
+
+    const result = await compareCommits(
+      { '.chezmoi.yaml': config('Brecht'), 'dot_gitconfig.tmpl': GITCONFIG },
+      { '.chezmoi.yaml': config('Brecht'), 'dot_gitconfig.tmpl': reformatted }
+    );
+
+    expect(result.changed).toEqual([]);
+  });
+
+  it('attributes a changed output to both the source and the data', async () => {
+    const result = await compareCommits(
+      { '.chezmoi.yaml': config('Brecht'), 'dot_gitconfig.tmpl': GITCONFIG },
+      { '.chezmoi.yaml': config('Brecht Parmentier'), 'dot_gitconfig.tmpl': `${GITCONFIG}[pull]\n    rebase = true\n` }
+    );
+
+    expect(result.changed[0].causes).toEqual(['Template source changed', 'Template data in .chezmoi.yaml changed']);
+  });
+
+  it('compares other files by their source', async () => {
+    const result = await compareCommits(
+      { '.chezmoi.yaml': config('Brecht'), 'dot_zshrc': ZSHRC },
+      { '.chezmoi.yaml': config('Brecht Parmentier'), 'dot_zshrc': `${ZSHRC}alias ll='ls -l'\n` }
+    );
+
+    expect(result.changed).toHaveLength(1);
+    expect(result.changed[0]).toMatchObject({ deployPath: '~/.zshrc', causes: ['File content changed'] });
+  });
+});
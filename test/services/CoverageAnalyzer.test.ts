@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CoverageAnalyzer } from '@/lib/services/CoverageAnalyzer';
+import { SnapshotCache } from '@/lib/services/SnapshotCache';
+import { Conditions } from '@/lib/parsers/Conditions';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+
+const CONFIG = `data:
+  list: ["x"]
+  modules:
+    shell:
+      enabled: true
+    git:
+      enabled: true
+    tmux:
+      enabled: false
+    vscode:
+      enabled: false
+      extensions: true
+`;
+
+const OPTIONS = ['shell.enabled', 'git.enabled', 'tmux.enabled', 'vscode.enabled', 'vscode.extensions'];
+
+async function analyze(files: Record<string, string>) {
+  const repository = new MemoryRepository();
+  const sha = repository.commit('main', { '.chezmoi.yaml': CONFIG, ...files });
+  const snapshot = await new SnapshotCache().getAt(new MemorySourceProvider(repository), sha);
+  return CoverageAnalyzer.analyze(snapshot);
+}
+
+describe('CoverageAnalyzer.relevantOptions', () => {
+  it.each([
+    ['a data value', Conditions.data('modules.shell.enabled'), ['shell.enabled']],
+    ['a whole module', Conditions.data('modules.vscode'), ['vscode.enabled', 'vscode.extensions']],
+    ['an unknown test naming a module', Conditions.unknown('index .modules.vscode "enabled"'), ['vscode.enabled', 'vscode.extensions']],
+    ['an unknown test on other data', Conditions.unknown('has "x" .list'), []],
+    ['an unknown test on the modules map', Conditions.unknown('hasKey .modules "tmux"'), OPTIONS],
+    ['an unknown test on a variable', Conditions.unknown('$enabled'), OPTIONS],
+  ])('%s', (_, condition, expected) => {
+    expect(CoverageAnalyzer.relevantOptions(OPTIONS, [condition])).toEqual(expected);
+  });
+});
+
+describe('CoverageAnalyzer.analyze', () => {
+  it('resolves files with unknown conditions on their own', async () => {
+    const coverage = await analyze({
+      '.chezmoiignore': '{{ if not (index .modules.vscode "enabled") }}\n.vimrc\n{{ end }}\n',
+      'dot_zshrc.tmpl': '{{ if .modules.shell.enabled }}\nexport EDITOR=nvim\n{{ end }}\n',
+      'dot_vimrc': 'set number\n',
+      'dot_list.tmpl': '{{ if has "x" .list }}\nx\n{{ end }}\n',
+    });
+
+    expect(coverage.combinations).toBe(32);
+    // shell.enabled for the other files, vscode.* for .vimrc, nothing for .list
+    expect(coverage.evaluated).toBe(3 * 2 + 3 * 4 + 3);
+
+    const deployed = Object.fromEntries(coverage.files.map(file => [file.sourcePath, file.deployed.linux]));
+    expect(deployed).toEqual({ 'dot_zshrc.tmpl': 16, 'dot_vimrc': 16, 'dot_list.tmpl': 0 });
+    expect(coverage.noEffect.linux).toEqual(['git.enabled', 'tmux.enabled', 'vscode.extensions']);
+  });
+});
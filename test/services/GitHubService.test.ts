@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GitHubService } from '@/lib/services/GitHubService';
+import { loadFixture, replayFetch } from '../helpers/recordedFetch';
+
+const GHE_API = 'https://github.example.com/api/v3';
+
+describe('GitHubService on GitHub Enterprise', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends every request to the enterprise API root', async () => {
+    const requests = replayFetch(loadFixture('github-enterprise-tree'), loadFixture('github-enterprise-refs'));
+    const github = new GitHubService('brecht', 'dotfiles', 'main', 'ghp_secret', GHE_API);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await github.getAllSourceFiles();
+    await github.getLatestCommitSha();
+    await github.listRefs();
+
+    expect(requests.length).toBeGreaterThan(0);
+    for (const request of requests) {
+      expect(request.url.startsWith(`${GHE_API}/`)).toBe(true);
+      expect(request.headers.get('authorization')).toBe('token ghp_secret');
+    }
+  });
+
+  it('walks a truncated tree one level at a time', async () => {
+    replayFetch(loadFixture('github-enterprise-tree'));
+    const github = new GitHubService('brecht', 'dotfiles', 'main', undefined, GHE_API);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const files = await github.getAllSourceFiles();
+
+    expect(files).toEqual([
+      { path: '.chezmoi.yaml.tmpl', sha: '0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c', size: 412 },
+      { path: 'dot_zshrc.tmpl', sha: '2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c', size: 2048 },
+      { path: 'dot_config/starship/config.toml', sha: '3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d', size: 98 },
+    ]);
+  });
+
+  it('reports a failed tree listing instead of an empty repository', async () => {
+    replayFetch([]);
+    const github = new GitHubService('brecht', 'dotfiles', 'main', undefined, GHE_API);
+
+    await expect(github.getAllSourceFiles()).rejects.toThrow('No recorded response');
+  });
+
+  it('reads the head SHA through the sha media type', async () => {
+    const requests = replayFetch(loadFixture('github-enterprise-tree'));
+    const github = new GitHubService('brecht', 'dotfiles', 'main', undefined, GHE_API);
+
+    expect(await github.getLatestCommitSha()).toBe('e5f60718293a4b5c6d7e8f90123456789012345a');
+    expect(requests[0].headers.get('accept')).toBe('application/vnd.github.v3.sha');
+  });
+
+  it('lists branches, tags and recent commits', async () => {
+    replayFetch(loadFixture('github-enterprise-refs'));
+    const github = new GitHubService('brecht', 'dotfiles', 'main', undefined, GHE_API);
+
+    const refs = await github.listRefs();
+
+    expect(refs.defaultRef).toBe('main');
+    expect(refs.branches.map(branch => branch.name)).toEqual(['main', 'work-laptop']);
+    expect(refs.tags).toEqual([
+      { name: 'v1.0.0', type: 'tag', sha: '0718293a4b5c6d7e8f90123456789012345ab1c2' },
+    ]);
+    expect(refs.commits[0]).toEqual({
+      name: 'e5f6071',
+      type: 'commit',
+      sha: 'e5f60718293a4b5c6d7e8f90123456789012345a',
+      message: 'Enable the starship prompt',
+      date: '2026-09-30T16:04:11Z',
+    });
+  });
+
+  it('keys its cache on the enterprise host', () => {
+    const github = new GitHubService('brecht', 'dotfiles', 'main', undefined, GHE_API);
+
+    expect(github.cacheKey).toBe('github:https://github.example.com/api/v3/brecht/dotfiles@main');
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GitLabService } from '@/lib/services/GitLabService';
+import { loadFixture, replayFetch } from '../helpers/recordedFetch';
+
+const API = 'https://gitlab.example.com/api/v4';
+
+describe('GitLabService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('pages through the recursive tree and keeps only blobs', async () => {
+    const requests = replayFetch(loadFixture('gitlab-tree'));
+    const gitlab = new GitLabService('group/sub/dotfiles', 'main', 'glpat-secret', API);
+
+    const files = await gitlab.getAllSourceFiles();
+
+    expect(files).toEqual([
+      { path: '.chezmoi.yaml.tmpl', sha: '0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c', size: 0 },
+      { path: 'dot_zshrc.tmpl', sha: '2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c', size: 0 },
+      { path: 'dot_config/starship/config.toml', sha: '3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d', size: 0 },
+    ]);
+    expect(requests).toHaveLength(2);
+    expect(requests.every(request => request.headers.get('private-token') === 'glpat-secret')).toBe(true);
+  });
+
+  it('lists branches, tags and recent commits', async () => {
+    replayFetch(loadFixture('gitlab-refs'));
+    const gitlab = new GitLabService('group/sub/dotfiles', 'main', undefined, API);
+
+    const refs = await gitlab.listRefs();
+
+    expect(refs.defaultRef).toBe('main');
+    expect(refs.branches).toEqual([
+      { name: 'main', type: 'branch', sha: '9f8e7d6c5b4a39281706f5e4d3c2b1a098765432' },
+      { name: 'work-laptop', type: 'branch', sha: '8e7d6c5b4a39281706f5e4d3c2b1a09876543210' },
+    ]);
+    expect(refs.tags).toEqual([
+      { name: 'v1.0.0', type: 'tag', sha: '7d6c5b4a39281706f5e4d3c2b1a0987654321098' },
+    ]);
+    expect(refs.commits[0]).toEqual({
+      name: '9f8e7d6c',
+      type: 'commit',
+      sha: '9f8e7d6c5b4a39281706f5e4d3c2b1a098765432',
+      message: 'Enable the starship prompt',
+      date: '2026-09-30T18:04:11.000+02:00',
+    });
+    expect(refs.commits).toHaveLength(2);
+  });
+
+  it('keys its cache on instance, project and ref', () => {
+    const gitlab = new GitLabService('group/sub/dotfiles', 'work-laptop', undefined, API);
+
+    expect(gitlab.cacheKey).toBe('gitlab:https://gitlab.example.com/api/v4/group/sub/dotfiles@work-laptop');
+  });
+});
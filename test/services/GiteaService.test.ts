@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GiteaService } from '@/lib/services/GiteaService';
+import { loadFixture, replayFetch } from '../helpers/recordedFetch';
+
+const API = 'https://git.example.com/api/v1';
+
+describe('GiteaService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('pages a truncated tree through the response body until total_count', async () => {
+    const requests = replayFetch(loadFixture('gitea-tree'));
+    const gitea = new GiteaService(API, 'brecht', 'dotfiles', 'main', 'secret');
+
+    const files = await gitea.getAllSourceFiles();
+
+    expect(files).toEqual([
+      { path: '.chezmoi.yaml.tmpl', sha: '0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c', size: 412 },
+      { path: 'dot_config/starship/config.toml', sha: '3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c2d', size: 98 },
+      { path: 'dot_zshrc.tmpl', sha: '2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b1c', size: 2048 },
+    ]);
+    // The commit lookup, then two tree pages and no third
+    expect(requests).toHaveLength(3);
+    expect(requests.every(request => request.headers.get('authorization') === 'token secret')).toBe(true);
+  });
+
+  it('reports a failed tree listing instead of an empty repository', async () => {
+    replayFetch([]);
+    const gitea = new GiteaService(API, 'brecht', 'dotfiles', 'main');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(gitea.getAllSourceFiles()).rejects.toThrow('Failed to get latest commit');
+  });
+
+  it('lists branches across Link pages, tags and recent commits', async () => {
+    replayFetch(loadFixture('gitea-refs'));
+    const gitea = new GiteaService(API, 'brecht', 'dotfiles', 'main');
+
+    const refs = await gitea.listRefs();
+
+    expect(refs.branches).toEqual([
+      { name: 'main', type: 'branch', sha: 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678' },
+      { name: 'work-laptop', type: 'branch', sha: 'b2c3d4e5f60718293a4b5c6d7e8f901234567890' },
+    ]);
+    expect(refs.tags).toEqual([
+      { name: 'v1.0.0', type: 'tag', sha: 'c3d4e5f60718293a4b5c6d7e8f90123456789012' },
+    ]);
+    expect(refs.commits).toEqual([
+      {
+        name: 'a1b2c3d',
+        type: 'commit',
+        sha: 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678',
+        message: 'Enable the starship prompt',
+        date: '2026-09-30T18:04:11+02:00',
+      },
+      {
+        name: 'd4e5f60',
+        type: 'commit',
+        sha: 'd4e5f60718293a4b5c6d7e8f9012345678901234',
+        message: 'Add git aliases',
+        date: '2026-09-28T09:12:45+02:00',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RestClient } from '@/lib/services/RestClient';
+import { loadFixture, replayFetch } from '../helpers/recordedFetch';
+
+const API = 'https://git.example.com/api/v1/';
+
+describe('RestClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('follows rel="next" Link headers until the last page', async () => {
+    const requests = replayFetch(loadFixture('rest-client-pages'));
+    const client = new RestClient(API);
+
+    const tags = await client.getAll<{ name: string }>('/repos/brecht/dotfiles/tags', { limit: 2 });
+
+    expect(tags.map(tag => tag.name)).toEqual(['v1.2.0', 'v1.1.0', 'v1.0.1', 'v1.0.0', 'v0.9.0']);
+    expect(requests.map(request => request.url)).toEqual([
+      'https://git.example.com/api/v1/repos/brecht/dotfiles/tags?limit=2',
+      'https://git.example.com/api/v1/repos/brecht/dotfiles/tags?limit=2&page=2',
+      'https://git.example.com/api/v1/repos/brecht/dotfiles/tags?limit=2&page=3',
+    ]);
+  });
+
+  it('sends its headers with every page', async () => {
+    const requests = replayFetch(loadFixture('rest-client-pages'));
+    const client = new RestClient(API, { Authorization: 'token secret' });
+
+    await client.getAll('/repos/brecht/dotfiles/tags', { limit: 2 });
+
+    for (const request of requests) {
+      expect(request.headers.get('authorization')).toBe('token secret');
+      expect(request.headers.get('user-agent')).toBe('dotfiles-visualizer/1.0');
+      expect(request.headers.get('accept')).toBe('application/json');
+    }
+  });
+
+  it('skips undefined query parameters', async () => {
+    const requests = replayFetch(loadFixture('rest-client-pages'));
+    const client = new RestClient(API);
+
+    await client.getAll('/repos/brecht/dotfiles/tags', { limit: 2, path: undefined });
+
+    expect(requests[0].url).toBe('https://git.example.com/api/v1/repos/brecht/dotfiles/tags?limit=2');
+  });
+
+  it('refuses to send its headers to a next page on another origin', async () => {
+    const requests = replayFetch([{
+      request: { url: 'https://git.example.com/api/v1/repos/brecht/dotfiles/tags' },
+      response: {
+        headers: { link: '<https://attacker.example.net/collect?page=2>; rel="next"' },
+        body: [{ name: 'v1.0.0' }],
+      },
+    }]);
+    const client = new RestClient(API, { Authorization: 'token secret' });
+
+    await expect(client.getAll('/repos/brecht/dotfiles/tags')).rejects.toThrow(
+      'Refusing to follow the next page to https://attacker.example.net'
+    );
+    expect(requests).toHaveLength(1);
+  });
+
+  it('resolves a relative next page against the API', async () => {
+    const requests = replayFetch([
+      {
+        request: { url: 'https://git.example.com/api/v1/repos/brecht/dotfiles/tags' },
+        response: { headers: { link: '</api/v1/repos/brecht/dotfiles/tags?page=2>; rel="next"' }, body: [{ name: 'v2' }] },
+      },
+      {
+        request: { url: 'https://git.example.com/api/v1/repos/brecht/dotfiles/tags?page=2' },
+        response: { body: [{ name: 'v1' }] },
+      },
+    ]);
+    const client = new RestClient(API);
+
+    expect(await client.getAll('/repos/brecht/dotfiles/tags')).toEqual([{ name: 'v2' }, { name: 'v1' }]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('rejects error responses', async () => {
+    replayFetch(loadFixture('rest-client-pages'));
+    const client = new RestClient(API);
+
+    await expect(client.get('/repos/brecht/private')).rejects.toThrow(
+      'GET https://git.example.com/api/v1/repos/brecht/private failed: 404'
+    );
+  });
+});
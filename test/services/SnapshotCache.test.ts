@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SnapshotCache } from '@/lib/services/SnapshotCache';
+import { MemoryRepository, MemorySourceProvider } from '../helpers/MemorySourceProvider';
+
+const ZSHRC = 'export EDITOR=nvim\n';
+
+function countReads(repository: MemoryRepository, path: string): number {
+  return repository.blobReads.filter(read => read === path).length;
+}
+
+describe('SnapshotCache', () => {
+  it('reads the tree at the resolved SHA when the branch moves during a load', async () => {
+    const repository = new MemoryRepository();
+    const before = repository.commit('main', { '.chezmoi.yaml': 'data:\n  name: before\n' });
+    const source = new MemorySourceProvider(repository, 'main');
+
+    // A push lands right after the head check
+    vi.spyOn(source, 'getLatestCommitSha').mockImplementation(async () => {
+      const sha = repository.resolve('main');
+      repository.commit('main', { '.chezmoi.yaml': 'data:\n  name: after\n' });
+      return sha;
+    });
+
+    const snapshot = await new SnapshotCache().get(source);
+
+    expect(snapshot.sha).toBe(before);
+    expect(snapshot.configContent).toBe('data:\n  name: before\n');
+  });
+
+  it('shares file contents between snapshots by blob SHA', async () => {
+    const repository = new MemoryRepository();
+    const first = repository.commit('main', { '.chezmoi.yaml': 'data: {}\n', 'dot_zshrc': ZSHRC });
+    const second = repository.commit('main', { '.chezmoi.yaml': 'data: {x: 1}\n', 'dot_zshrc': ZSHRC });
+    const source = new MemorySourceProvider(repository);
+    const cache = new SnapshotCache();
+
+    await (await cache.getAt(source, first)).getFile('dot_zshrc');
+    await (await cache.getAt(source, second)).getFile('dot_zshrc');
+
+    expect(countReads(repository, 'dot_zshrc')).toBe(1);
+  });
+
+  it('forgets file contents together with the snapshots that listed them', async () => {
+    const repository = new MemoryRepository();
+    const source = new MemorySourceProvider(repository);
+    const cache = new SnapshotCache();
+
+    const first = repository.commit('main', { '.chezmoi.yaml': 'data: {}\n', 'dot_zshrc': ZSHRC });
+    await (await cache.getAt(source, first)).getFile('dot_zshrc');
+
+    // Five newer snapshots without the file push the first one out
+    for (let i = 1; i <= 5; i++) {
+      await cache.getAt(source, repository.commit('main', { '.chezmoi.yaml': `data: {x: ${i}}\n` }));
+    }
+    expect(cache.getStats().snapshots.map(snapshot => snapshot.sha)).not.toContain(first);
+
+    const restored = repository.commit('main', { '.chezmoi.yaml': 'data: {}\n', 'dot_zshrc': ZSHRC });
+    await (await cache.getAt(source, restored)).getFile('dot_zshrc');
+
+    expect(countReads(repository, 'dot_zshrc')).toBe(2);
+  });
+
+  it('forgets file contents of an invalidated snapshot', async () => {
+    const repository = new MemoryRepository();
+    const source = new MemorySourceProvider(repository);
+    const cache = new SnapshotCache();
+
+    const sha = repository.commit('main', { '.chezmoi.yaml': 'data: {}\n', 'dot_zshrc': ZSHRC });
+    await (await cache.getAt(source, sha)).getFile('dot_zshrc');
+    cache.invalidate(sha);
+    await (await cache.getAt(source, sha)).getFile('dot_zshrc');
+
+    expect(countReads(repository, 'dot_zshrc')).toBe(2);
+    expect(countReads(repository, '.chezmoi.yaml')).toBe(2);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { verifyWebhookSignature, WebhookLog } from '@/lib/services/WebhookService';
+import type { WebhookDelivery } from '@/lib/types';
+import { loadDelivery, payloadOf, WEBHOOK_SECRET } from '../helpers/recordedWebhook';
+
+function delivery(id: string): WebhookDelivery {
+  return { id, event: 'push', status: 'processed', message: '', receivedAt: '2026-09-30T16:04:12Z' };
+}
+
+describe('verifyWebhookSignature', () => {
+  it.each(['push', 'ping', 'push-other-branch', 'push-unknown-repo'])('accepts the recorded %s delivery', (name) => {
+    const recorded = loadDelivery(name);
+
+    expect(verifyWebhookSignature(payloadOf(recorded), recorded.headers['x-hub-signature-256'], WEBHOOK_SECRET)).toBe(true);
+  });
+
+  it('rejects a delivery signed with another secret', () => {
+    const recorded = loadDelivery('push-bad-signature');
+
+    expect(verifyWebhookSignature(payloadOf(recorded), recorded.headers['x-hub-signature-256'], WEBHOOK_SECRET)).toBe(false);
+  });
+
+  it('rejects a body changed after signing', () => {
+    const recorded = loadDelivery('push');
+    const tampered = payloadOf(recorded).replace('refs/heads/main', 'refs/heads/evil');
+
+    expect(verifyWebhookSignature(tampered, recorded.headers['x-hub-signature-256'], WEBHOOK_SECRET)).toBe(false);
+  });
+
+  it('rejects missing, SHA-1 and truncated signatures', () => {
+    const recorded = loadDelivery('push');
+    const payload = payloadOf(recorded);
+
+    expect(verifyWebhookSignature(payload, null, WEBHOOK_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(payload, 'sha1=0123456789abcdef', WEBHOOK_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(payload, recorded.headers['x-hub-signature-256'].slice(0, -2), WEBHOOK_SECRET)).toBe(false);
+  });
+});
+
+describe('WebhookLog', () => {
+  it('lists deliveries newest first and keeps the last 25', () => {
+    const log = new WebhookLog();
+
+    for (let i = 1; i <= 30; i++) {
+      log.add(delivery(`delivery-${i}`));
+    }
+
+    const ids = log.list().map(d => d.id);
+    expect(ids).toHaveLength(25);
+    expect(ids[0]).toBe('delivery-30');
+    expect(ids[24]).toBe('delivery-6');
+  });
+
+  it('updates a delivery after the fact', () => {
+    const log = new WebhookLog();
+    log.add({ ...delivery('a'), prefetch: 'pending' });
+
+    log.update('a', { prefetch: 'done' });
+    log.update('missing', { prefetch: 'failed' });
+
+    expect(log.list()).toEqual([{ ...delivery('a'), prefetch: 'done' }]);
+  });
+});